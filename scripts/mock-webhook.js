@@ -0,0 +1,82 @@
+#!/usr/bin/env node
+// Local receiver for testing the webhook integration. Logs every event it
+// receives. Use --fail-rate to reject some requests and exercise the app's
+// retry and backoff.
+//
+//   npm run mock-webhook -- --port 8787 --fail-rate 0.3
+
+import http from 'http';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] !== undefined ? args[index + 1] : fallback;
+};
+
+const port = Number(option('port', process.env.PORT || 8787));
+const failRate = Math.min(1, Math.max(0, Number(option('fail-rate', 0))));
+const token = option('token', '');
+
+let received = 0;
+
+const summarize = (event) => {
+  switch (event.type) {
+    case 'space.state_changed':
+      return `${event.data.label} ${event.data.previousState} -> ${event.data.state}`;
+    case 'lot.summary':
+      return `${event.data.occupied}/${event.data.total} occupied (${event.data.occupancyRate}%)`;
+    default:
+      return JSON.stringify(event.data);
+  }
+};
+
+const server = http.createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.writeHead(405, { 'Content-Type': 'text/plain' });
+    res.end('Method not allowed');
+    return;
+  }
+  if (token && req.headers.authorization !== `Bearer ${token}`) {
+    res.writeHead(401, { 'Content-Type': 'text/plain' });
+    res.end('Unauthorized');
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    if (Math.random() < failRate) {
+      console.log(`${new Date().toISOString()}  simulated failure (503)`);
+      res.writeHead(503, { 'Content-Type': 'text/plain' });
+      res.end('Simulated failure');
+      return;
+    }
+
+    try {
+      const event = JSON.parse(body);
+      received += 1;
+      console.log(`${event.timestamp}  #${received}  ${event.type}  [${event.lotName}]  ${summarize(event)}`);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ received: event.id }));
+    } catch {
+      console.log(`${new Date().toISOString()}  invalid JSON body`);
+      res.writeHead(400, { 'Content-Type': 'text/plain' });
+      res.end('Invalid JSON');
+    }
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Mock webhook listening on http://localhost:${port}/events`);
+  if (failRate > 0) console.log(`Failing ${Math.round(failRate * 100)}% of requests`);
+  if (token) console.log('Requiring bearer token');
+});
@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { Bell, BellRing, Plus, Trash2, Volume2, VolumeX } from 'lucide-react';
+import { useSettings } from '../context/SettingsContext';
+import type { Region } from '../utils/parkingDetection';
+import { spaceLabel } from '../utils/spaceLabels';
+import {
+  ALERT_RULE_LABELS,
+  AlertEvent,
+  AlertRule,
+  AlertRuleKind,
+  createAlertRule,
+  notificationsSupported,
+  playAlertSound,
+  requestNotificationPermission
+} from '../utils/alerts';
+
+interface AlertRulesPanelProps {
+  rules: AlertRule[];
+  onRulesChange: (rules: AlertRule[]) => void;
+  regions: Region[];
+  audioEnabled: boolean;
+  onAudioEnabledChange: (enabled: boolean) => void;
+  recentAlerts: AlertEvent[];
+}
+
+const AlertRulesPanel: React.FC<AlertRulesPanelProps> = ({
+  rules,
+  onRulesChange,
+  regions,
+  audioEnabled,
+  onAudioEnabledChange,
+  recentAlerts,
+}) => {
+  const { settings } = useSettings();
+  const [permission, setPermission] = useState<NotificationPermission>(() =>
+    notificationsSupported() ? Notification.permission : 'denied'
+  );
+  const [newKind, setNewKind] = useState<AlertRuleKind>('space-freed');
+
+  const mutedText = settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const inputClass = `px-2 py-1 rounded text-xs ${settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`;
+
+  const updateRule = (id: string, changes: Partial<AlertRule>) => {
+    onRulesChange(rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+  };
+
+  const toggleRegion = (rule: AlertRule, regionId: string) => {
+    updateRule(rule.id, {
+      regionIds: rule.regionIds.includes(regionId)
+        ? rule.regionIds.filter(id => id !== regionId)
+        : [...rule.regionIds, regionId]
+    });
+  };
+
+  const enableDesktop = async () => {
+    setPermission(await requestNotificationPermission());
+  };
+
+  return (
+    <div className={`rounded-xl p-6 ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} shadow-xl`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Bell className="w-5 h-5 text-blue-500" />
+          <h2 className="text-lg font-bold">Alerts</h2>
+        </div>
+        <button
+          onClick={() => {
+            if (!audioEnabled) playAlertSound('space-changed');
+            onAudioEnabledChange(!audioEnabled);
+          }}
+          className={`p-2 rounded-lg transition-colors ${
+            audioEnabled
+              ? 'bg-blue-500 text-white'
+              : settings.enableDarkMode ? 'bg-gray-700 hover:bg-gray-600 text-gray-300' : 'bg-gray-200 hover:bg-gray-300 text-gray-700'
+          }`}
+          title={audioEnabled ? 'Mute alert sounds' : 'Enable alert sounds'}
+        >
+          {audioEnabled ? <Volume2 size={16} /> : <VolumeX size={16} />}
+        </button>
+      </div>
+
+      {notificationsSupported() && permission !== 'granted' && (
+        <div className={`text-xs mb-4 ${mutedText}`}>
+          {permission === 'denied'
+            ? 'Desktop notifications are blocked for this site in the browser settings.'
+            : (
+              <button onClick={enableDesktop} className="text-blue-500 hover:underline">
+                Allow desktop notifications
+              </button>
+            )}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {rules.map(rule => (
+          <div key={rule.id} className={`p-3 rounded-lg ${settings.enableDarkMode ? 'bg-gray-700/50' : 'bg-gray-50'}`}>
+            <div className="flex items-center justify-between mb-2">
+              <label className="flex items-center gap-2 text-sm font-medium cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                  className="rounded"
+                />
+                {ALERT_RULE_LABELS[rule.kind]}
+              </label>
+              <button
+                onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))}
+                className="p-1 rounded hover:bg-gray-500/20"
+                title="Remove rule"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 text-xs">
+              {rule.kind === 'lot-full' && (
+                <label className="flex items-center gap-1">
+                  At
+                  <input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={rule.threshold}
+                    onChange={(e) => updateRule(rule.id, { threshold: Math.min(100, Math.max(1, Number(e.target.value) || 1)) })}
+                    className={`${inputClass} w-14`}
+                  />
+                  %
+                </label>
+              )}
+              <label className="flex items-center gap-1">
+                Cooldown
+                <input
+                  type="number"
+                  min={0}
+                  value={rule.cooldownSeconds}
+                  onChange={(e) => updateRule(rule.id, { cooldownSeconds: Math.max(0, Number(e.target.value) || 0) })}
+                  className={`${inputClass} w-16`}
+                />
+                s
+              </label>
+              <label className="flex items-center gap-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={rule.sound}
+                  onChange={(e) => updateRule(rule.id, { sound: e.target.checked })}
+                  className="rounded"
+                />
+                Sound
+              </label>
+              <label className="flex items-center gap-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={rule.desktop}
+                  onChange={(e) => updateRule(rule.id, { desktop: e.target.checked })}
+                  disabled={permission !== 'granted'}
+                  className="rounded"
+                />
+                Desktop
+              </label>
+            </div>
+
+            {rule.kind !== 'lot-full' && regions.length > 0 && (
+              <div className="mt-2">
+                <div className={`text-xs mb-1 ${mutedText}`}>
+                  {rule.kind === 'space-changed'
+                    ? 'Watched spaces'
+                    : rule.regionIds.length === 0 ? 'All spaces (pick some to narrow)' : 'Only these spaces'}
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {regions.map((region, index) => (
+                    <button
+                      key={region.id}
+                      onClick={() => toggleRegion(rule, region.id)}
+                      className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${
+                        rule.regionIds.includes(region.id)
+                          ? 'bg-blue-500 text-white'
+                          : settings.enableDarkMode ? 'bg-gray-600 hover:bg-gray-500' : 'bg-gray-200 hover:bg-gray-300'
+                      }`}
+                    >
+                      {spaceLabel(region, index)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2 mt-3">
+        <select value={newKind} onChange={(e) => setNewKind(e.target.value as AlertRuleKind)} className={`${inputClass} flex-1 py-2`}>
+          {(Object.keys(ALERT_RULE_LABELS) as AlertRuleKind[]).map(kind => (
+            <option key={kind} value={kind}>{ALERT_RULE_LABELS[kind]}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => onRulesChange([...rules, createAlertRule(newKind)])}
+          className="px-3 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg flex items-center gap-1 text-sm font-medium transition-colors"
+        >
+          <Plus size={14} />
+          Add
+        </button>
+      </div>
+
+      {recentAlerts.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {recentAlerts.slice(-5).reverse().map(alert => (
+            <div key={`${alert.ruleId}-${alert.timestamp}`} className="flex items-start gap-2 text-xs">
+              <BellRing size={14} className="text-amber-500 flex-shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <div className="font-medium">{alert.title}</div>
+                <div className={mutedText}>{alert.body}</div>
+              </div>
+              <span className={mutedText}>{new Date(alert.timestamp).toLocaleTimeString()}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertRulesPanel;
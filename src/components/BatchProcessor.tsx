@@ -0,0 +1,299 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Eye, FileArchive, Layers, Loader2, Play, Square, Upload, X } from 'lucide-react';
+import { useSettings } from '../context/SettingsContext';
+import type { DetectionOptions, Region } from '../utils/parkingDetection';
+import { TimestampFormat, downloadCSV } from '../utils/csvExport';
+import {
+  BatchItem,
+  MAX_BATCH_SIZE,
+  batchResultsCSV,
+  batchResultsZip,
+  createBatchItems,
+  processBatch
+} from '../utils/batchProcessing';
+
+interface BatchProcessorProps {
+  regions: Region[];
+  detectionOptions: Partial<DetectionOptions>;
+  onUseAsLayout: (file: File) => void;    // Offered only while there is no layout to lose
+}
+
+const STATUS_CLASSES: Record<BatchItem['status'], string> = {
+  queued: 'bg-gray-500/20 text-gray-500',
+  processing: 'bg-blue-500/20 text-blue-500',
+  done: 'bg-green-500/20 text-green-500',
+  error: 'bg-red-500/20 text-red-500',
+  cancelled: 'bg-amber-500/20 text-amber-500'
+};
+
+const BatchProcessor: React.FC<BatchProcessorProps> = ({
+  regions,
+  detectionOptions,
+  onUseAsLayout,
+}) => {
+  const { settings } = useSettings();
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [rejected, setRejected] = useState<string[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [format, setFormat] = useState<TimestampFormat>('local');
+  const [preview, setPreview] = useState<BatchItem | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const addFiles = (files: File[]) => {
+    const { items: added, rejected: skipped } = createBatchItems(files);
+    const room = MAX_BATCH_SIZE - items.length;
+    if (added.length > room) {
+      skipped.push(`${added.length - room} images over the ${MAX_BATCH_SIZE} image limit were skipped`);
+    }
+    setItems(prev => [...prev, ...added.slice(0, Math.max(0, room))]);
+    setRejected(skipped);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    addFiles(files);
+  };
+
+  const startBatch = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setError(null);
+    try {
+      await processBatch(items, {
+        regions,
+        detectionOptions,
+        signal: controller.signal,
+        onItemUpdate: (updated) => setItems(prev => prev.map(item => item.id === updated.id ? updated : item))
+      });
+    } catch (err) {
+      setError(`Batch stopped: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const clearBatch = () => {
+    setItems([]);
+    setRejected([]);
+    setError(null);
+    setPreview(null);
+  };
+
+  const stamp = () => new Date().toISOString().slice(0, 19).replace(/:/g, '-');
+
+  const downloadZip = () => {
+    const url = URL.createObjectURL(batchResultsZip(items, regions, format));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `parking-batch-${stamp()}.zip`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+  };
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const finishedCount = items.filter(item => item.status === 'done' || item.status === 'error').length;
+  const pendingCount = items.length - doneCount;
+  const mutedText = settings.enableDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const secondaryButton = `px-3 py-2 rounded-lg flex items-center gap-2 text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+    settings.enableDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'
+  }`;
+
+  return (
+    <div className={`${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} p-3 sm:p-4 lg:p-6 rounded-lg shadow-sm sm:shadow-md space-y-4`}>
+      <div className="flex items-center gap-2">
+        <Layers className="w-5 h-5 text-blue-500" />
+        <h2 className="text-lg sm:text-xl font-semibold">Batch Processing</h2>
+      </div>
+
+      <p className={`text-sm ${mutedText}`}>
+        Apply the current region layout to a folder of snapshots from the same camera.
+        {regions.length === 0 && ' Draw or load a layout first, or pick one of the images below as the layout image.'}
+      </p>
+
+      <div
+        className={`border-2 border-dashed rounded-lg p-4 text-center cursor-pointer transition-colors ${
+          isDragging ? 'border-blue-500 bg-blue-500/10' :
+            settings.enableDarkMode ? 'border-gray-600 hover:border-gray-500' : 'border-gray-300 hover:border-gray-400'
+        }`}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !isRunning && fileInputRef.current?.click()}
+      >
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={handleFileInputChange}
+          accept="image/*"
+          multiple
+          className="hidden"
+        />
+        <Upload size={28} className="mx-auto mb-2 text-gray-400" />
+        <p className="text-sm font-medium">Drop images here or click to add</p>
+        <p className={`text-xs ${mutedText}`}>Up to {MAX_BATCH_SIZE} images, 10MB each</p>
+      </div>
+
+      {rejected.length > 0 && (
+        <div className="p-3 rounded-lg bg-amber-500/10 text-amber-500 text-xs space-y-0.5">
+          {rejected.map(message => <div key={message}>{message}</div>)}
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-500/10 text-red-500 text-xs">{error}</div>
+      )}
+
+      {items.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            {isRunning ? (
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="px-3 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg flex items-center gap-2 text-sm font-medium transition-colors"
+              >
+                <Square size={14} />
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={startBatch}
+                disabled={regions.length === 0 || pendingCount === 0}
+                className="px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg flex items-center gap-2 text-sm font-medium transition-colors"
+              >
+                <Play size={14} />
+                {doneCount > 0 && pendingCount > 0 ? `Resume (${pendingCount})` : `Process ${pendingCount} images`}
+              </button>
+            )}
+            <button onClick={clearBatch} disabled={isRunning} className={secondaryButton}>
+              <X size={14} />
+              Clear
+            </button>
+
+            <div className="flex-1" />
+
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as TimestampFormat)}
+              className={`px-2 py-2 rounded-lg text-sm ${settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}
+              title="Timestamp format"
+            >
+              <option value="local">Local time</option>
+              <option value="iso">ISO 8601</option>
+            </select>
+            <button
+              onClick={() => downloadCSV(batchResultsCSV(items, regions, format), `parking-batch-${stamp()}.csv`)}
+              disabled={isRunning || doneCount === 0}
+              className={secondaryButton}
+            >
+              <Download size={14} />
+              CSV
+            </button>
+            <button onClick={downloadZip} disabled={isRunning || doneCount === 0} className={secondaryButton}>
+              <FileArchive size={14} />
+              ZIP
+            </button>
+          </div>
+
+          <div>
+            <div className={`flex justify-between text-xs mb-1 ${mutedText}`}>
+              <span>{finishedCount} of {items.length} processed</span>
+              {items.some(item => item.status === 'error') && (
+                <span className="text-red-500">{items.filter(item => item.status === 'error').length} failed</span>
+              )}
+            </div>
+            <div className={`w-full h-2 rounded-full ${settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-200'}`}>
+              <div
+                className="h-2 rounded-full bg-blue-500 transition-all"
+                style={{ width: `${(finishedCount / items.length) * 100}%` }}
+              />
+            </div>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className={`sticky top-0 ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'}`}>
+                <tr className={`text-left text-xs ${mutedText}`}>
+                  <th className="py-2 pr-2">Image</th>
+                  <th className="py-2 pr-2">Status</th>
+                  <th className="py-2 pr-2 text-right">Occupied</th>
+                  <th className="py-2 pr-2 text-right">Rate</th>
+                  <th className="py-2 pr-2 text-right">Time</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {items.map(item => (
+                  <tr key={item.id} className={`border-t ${settings.enableDarkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+                    <td className="py-2 pr-2 max-w-[12rem] truncate" title={item.error ?? item.file.name}>{item.file.name}</td>
+                    <td className="py-2 pr-2">
+                      <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${STATUS_CLASSES[item.status]}`}>
+                        {item.status === 'processing' && <Loader2 size={12} className="animate-spin" />}
+                        {item.status}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-2 text-right">{item.result ? `${item.result.occupied}/${item.result.total}` : '–'}</td>
+                    <td className="py-2 pr-2 text-right">
+                      {item.result && item.result.total > 0 ? `${Math.round((item.result.occupied / item.result.total) * 100)}%` : '–'}
+                    </td>
+                    <td className={`py-2 pr-2 text-right ${mutedText}`}>
+                      {item.result ? `${Math.round(item.result.processingTime)}ms` : ''}
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      {item.result?.annotatedImage && (
+                        <button onClick={() => setPreview(item)} className="p-1 rounded hover:bg-gray-500/20" title="View annotated image">
+                          <Eye size={14} />
+                        </button>
+                      )}
+                      {!isRunning && regions.length === 0 && (
+                        <button
+                          onClick={() => onUseAsLayout(item.file)}
+                          className={`ml-1 text-xs ${mutedText} hover:text-blue-500`}
+                          title="Load this image above to draw the region layout on it"
+                        >
+                          Use as layout
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {preview?.result?.annotatedImage && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4" onClick={() => setPreview(null)}>
+          <div className={`w-full max-w-4xl rounded-xl shadow-xl overflow-hidden ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'}`}>
+            <div className="flex items-center justify-between p-3">
+              <span className="text-sm font-medium truncate">{preview.file.name}</span>
+              <button onClick={() => setPreview(null)} className="p-1 rounded-lg hover:bg-gray-500/20">
+                <X size={18} />
+              </button>
+            </div>
+            <img src={preview.result.annotatedImage} alt={preview.file.name} className="w-full max-h-[75vh] object-contain bg-black" />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchProcessor;
@@ -0,0 +1,295 @@
+import React, { useState, useRef } from 'react';
+import { Camera, Upload, X, ChevronLeft, ChevronRight, Loader2, SlidersHorizontal } from 'lucide-react';
+import { useSettings } from '../context/SettingsContext';
+import { DEFAULT_CONFIG, DetectionConfig, DetectionOptions, Region } from '../utils/parkingDetection';
+import { CalibrationFrame, CalibrationResult, calibrate, collectCalibrationSamples } from '../utils/calibration';
+import { readAsDataUrl } from '../utils/fileReading';
+
+interface CalibrationWizardProps {
+  regions: Region[];
+  detectionOptions: DetectionOptions;
+  captureFrame?: () => string | null;
+  onApply: (overrides: Partial<DetectionConfig>) => Promise<void>;
+  onClose: () => void;
+}
+
+const MAX_FRAMES = 10;
+
+type Step = 'collect' | 'label' | 'results';
+
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({
+  regions,
+  detectionOptions,
+  captureFrame,
+  onApply,
+  onClose,
+}) => {
+  const { settings } = useSettings();
+  const [step, setStep] = useState<Step>('collect');
+  const [frames, setFrames] = useState<CalibrationFrame[]>([]);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [result, setResult] = useState<CalibrationResult | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const addFrame = (image: string) => {
+    setFrames(prev => prev.length >= MAX_FRAMES ? prev : [
+      ...prev,
+      { id: `frame-${Date.now()}-${prev.length}`, image, labels: Object.fromEntries(regions.map(r => [r.id, false])) }
+    ]);
+  };
+
+  const handleCapture = () => {
+    const image = captureFrame?.();
+    if (!image) {
+      setError('No video frame available to capture');
+      return;
+    }
+    setError(null);
+    addFrame(image);
+  };
+
+  const handleFiles = async (files: File[]) => {
+    try {
+      for (const file of files.filter(f => f.type.startsWith('image/'))) {
+        addFrame(await readAsDataUrl(file));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read images');
+    }
+  };
+
+  const toggleLabel = (regionId: string) => {
+    setFrames(prev => prev.map((frame, i) => i === frameIndex
+      ? { ...frame, labels: { ...frame.labels, [regionId]: !frame.labels[regionId] } }
+      : frame
+    ));
+  };
+
+  const runCalibration = async () => {
+    setIsBusy(true);
+    setError(null);
+    setResult(null);
+    setStep('results');
+    try {
+      const samples = await collectCalibrationSamples(frames, regions, detectionOptions);
+      setResult(calibrate(samples, detectionOptions));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Calibration failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!result) return;
+    setIsBusy(true);
+    try {
+      await onApply(result.overrides);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save calibration');
+      setIsBusy(false);
+    }
+  };
+
+  const changedKeys = result
+    ? (Object.keys(result.overrides) as (keyof DetectionConfig)[]).filter(key =>
+        result.overrides[key] !== (detectionOptions.configOverrides?.[key] ?? DEFAULT_CONFIG[key]))
+    : [];
+
+  const secondaryButton = `px-4 py-2 rounded-lg font-medium transition-colors ${
+    settings.enableDarkMode ? 'bg-gray-700 hover:bg-gray-600 text-white' : 'bg-gray-200 hover:bg-gray-300 text-gray-900'
+  }`;
+  const primaryButton = 'px-4 py-2 rounded-lg font-medium bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white transition-colors';
+
+  const frame = frames[frameIndex];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className={`w-full max-w-3xl max-h-full overflow-y-auto rounded-xl shadow-xl ${
+        settings.enableDarkMode ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'
+      }`}>
+        <div className="flex items-center justify-between p-4 border-b border-gray-700/20">
+          <div className="flex items-center gap-2">
+            <SlidersHorizontal className="w-5 h-5 text-blue-500" />
+            <h2 className="text-lg font-bold">Calibrate Detection</h2>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-lg hover:bg-gray-500/20">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 text-red-500 text-sm">{error}</div>
+          )}
+
+          {step === 'collect' && (
+            <>
+              <p className={`text-sm ${settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                Collect a few frames that show a mix of occupied and empty spaces. Up to {MAX_FRAMES} frames.
+              </p>
+              <div className="flex gap-2">
+                {captureFrame && (
+                  <button onClick={handleCapture} disabled={frames.length >= MAX_FRAMES} className={`${primaryButton} flex items-center gap-2`}>
+                    <Camera size={16} /> Capture Frame
+                  </button>
+                )}
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={frames.length >= MAX_FRAMES}
+                  className={`${secondaryButton} flex items-center gap-2`}
+                >
+                  <Upload size={16} /> Add Images
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    handleFiles(Array.from(e.target.files ?? []));
+                    e.target.value = '';
+                  }}
+                />
+              </div>
+              <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+                {frames.map((f, i) => (
+                  <div key={f.id} className="relative">
+                    <img src={f.image} alt={`Frame ${i + 1}`} className="w-full aspect-video object-cover rounded" />
+                    <button
+                      onClick={() => setFrames(prev => prev.filter(other => other.id !== f.id))}
+                      className="absolute top-1 right-1 p-0.5 rounded bg-black/60 text-white"
+                    >
+                      <X size={12} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end">
+                <button
+                  onClick={() => {
+                    setFrameIndex(0);
+                    setStep('label');
+                  }}
+                  disabled={frames.length === 0}
+                  className={primaryButton}
+                >
+                  Label Spaces
+                </button>
+              </div>
+            </>
+          )}
+
+          {step === 'label' && frame && (
+            <>
+              <p className={`text-sm ${settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                Click each occupied space. Unmarked spaces count as empty.
+              </p>
+              <div className="relative">
+                <img src={frame.image} alt={`Frame ${frameIndex + 1}`} className="w-full rounded" />
+                <svg className="absolute inset-0 w-full h-full" viewBox="0 0 1 1" preserveAspectRatio="none">
+                  {regions.map(region => (
+                    <polygon
+                      key={region.id}
+                      points={region.points.map(p => `${p.x},${p.y}`).join(' ')}
+                      onClick={() => toggleLabel(region.id)}
+                      className="cursor-pointer"
+                      fill={frame.labels[region.id] ? 'rgba(239, 68, 68, 0.35)' : 'rgba(34, 197, 94, 0.25)'}
+                      stroke={frame.labels[region.id] ? 'rgb(239, 68, 68)' : 'rgb(34, 197, 94)'}
+                      strokeWidth={2}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  ))}
+                </svg>
+              </div>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setFrameIndex(i => i - 1)}
+                    disabled={frameIndex === 0}
+                    className={`${secondaryButton} disabled:opacity-50`}
+                  >
+                    <ChevronLeft size={16} />
+                  </button>
+                  <span className="text-sm">Frame {frameIndex + 1} of {frames.length}</span>
+                  <button
+                    onClick={() => setFrameIndex(i => i + 1)}
+                    disabled={frameIndex === frames.length - 1}
+                    className={`${secondaryButton} disabled:opacity-50`}
+                  >
+                    <ChevronRight size={16} />
+                  </button>
+                </div>
+                <div className="flex gap-2">
+                  <button onClick={() => setStep('collect')} className={secondaryButton}>Back</button>
+                  <button onClick={runCalibration} className={primaryButton}>Calibrate</button>
+                </div>
+              </div>
+            </>
+          )}
+
+          {step === 'results' && (
+            <>
+              {isBusy && !result && (
+                <div className="flex items-center justify-center gap-2 py-8">
+                  <Loader2 className="w-5 h-5 animate-spin text-blue-500" />
+                  <span>Analysing {frames.length} frames...</span>
+                </div>
+              )}
+              {result && (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <AccuracyCard label="Before" correct={result.before.correct} total={result.before.total} darkMode={settings.enableDarkMode} />
+                    <AccuracyCard label="After" correct={result.after.correct} total={result.after.total} darkMode={settings.enableDarkMode} />
+                  </div>
+                  {changedKeys.length > 0 ? (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className={settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600'}>
+                          <th className="text-left font-medium py-1">Setting</th>
+                          <th className="text-right font-medium py-1">Current</th>
+                          <th className="text-right font-medium py-1">Calibrated</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {changedKeys.map(key => (
+                          <tr key={key}>
+                            <td className="py-1 font-mono text-xs">{key}</td>
+                            <td className="py-1 text-right">{(detectionOptions.configOverrides?.[key] ?? DEFAULT_CONFIG[key]).toString()}</td>
+                            <td className="py-1 text-right font-semibold">{result.overrides[key]?.toString()}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <p className="text-sm">The current settings already fit these labels best.</p>
+                  )}
+                </>
+              )}
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setStep('label')} disabled={isBusy} className={secondaryButton}>Back</button>
+                <button onClick={handleApply} disabled={isBusy || !result || changedKeys.length === 0} className={primaryButton}>
+                  Save to Lot
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const AccuracyCard: React.FC<{ label: string; correct: number; total: number; darkMode: boolean }> = ({ label, correct, total, darkMode }) => (
+  <div className={`p-4 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+    <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>{label}</p>
+    <p className="text-2xl font-bold">{total > 0 ? Math.round((correct / total) * 100) : 0}%</p>
+    <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>{correct} of {total} spaces correct</p>
+  </div>
+);
+
+export default CalibrationWizard;
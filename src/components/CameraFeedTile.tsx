@@ -0,0 +1,403 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Camera, Video, Trash2, Crosshair, AlertCircle, CameraOff } from 'lucide-react';
+import { useSettings } from '../context/SettingsContext';
+import RegionSelector from './RegionSelector';
+import type { DetectionClient } from '../utils/detectionClient';
+import { buildVideoConstraints, CameraConstraints, listVideoInputDevices, watchVideoInputDevices } from '../utils/cameraDevices';
+import { DetectionOptions, DetectionResult, ParkingSpace, Region } from '../utils/parkingDetection';
+import { spaceLabel } from '../utils/spaceLabels';
+
+export type CameraFeedSource =
+  | { kind: 'webcam'; deviceId: string; label: string; constraints: CameraConstraints }
+  | { kind: 'video'; fileName: string; url: string };
+
+export interface CameraFeed {
+  id: string;
+  name: string;
+  source: CameraFeedSource;
+  regions: Region[]; // Normalized (0-1), drawn on a frame captured from this feed
+}
+
+interface CameraFeedTileProps {
+  feed: CameraFeed;
+  client: DetectionClient | null;     // Shared by the grid; detections run on the feed's own channel
+  isRunning: boolean;
+  detectionOptions: Partial<DetectionOptions>;
+  detectionInterval: number;
+  onRegionsChange: (feedId: string, regions: Region[]) => void;
+  onResult: (feedId: string, result: DetectionResult, previousSpaces: ParkingSpace[]) => void;
+  onRemove: (feedId: string) => void;
+}
+
+type FeedStatus = 'connecting' | 'ready' | 'disconnected' | 'error';
+
+// One camera or video in the multi-camera grid. Each tile owns its media
+// element and detects on its own channel of the grid's client, so feeds share
+// the models but keep separate frame histories.
+const CameraFeedTile: React.FC<CameraFeedTileProps> = ({
+  feed,
+  client,
+  isRunning,
+  detectionOptions,
+  detectionInterval,
+  onRegionsChange,
+  onResult,
+  onRemove,
+}) => {
+  const { settings } = useSettings();
+  const [status, setStatus] = useState<FeedStatus>('connecting');
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<DetectionResult | null>(null);
+  const [editingImage, setEditingImage] = useState<string | null>(null);
+  const [draftRegions, setDraftRegions] = useState<Region[]>([]);
+  const [reconnectCount, setReconnectCount] = useState(0);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+  const clientRef = useRef(client);
+  const processingRef = useRef(false);
+  const previousSpacesRef = useRef<ParkingSpace[]>([]);
+  const regionsRef = useRef(feed.regions);
+  const optionsRef = useRef(detectionOptions);
+  const onResultRef = useRef(onResult);
+  const statusRef = useRef(status);
+
+  useEffect(() => { regionsRef.current = feed.regions; }, [feed.regions]);
+  useEffect(() => { optionsRef.current = detectionOptions; }, [detectionOptions]);
+  useEffect(() => { onResultRef.current = onResult; }, [onResult]);
+  useEffect(() => { statusRef.current = status; }, [status]);
+
+  useEffect(() => {
+    clientRef.current = client;
+    return () => client?.release(feed.id);
+  }, [client, feed.id]);
+
+  // Attach the feed's media source
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const source = feed.source;
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setStatus('connecting');
+    setError(null);
+
+    if (source.kind === 'webcam') {
+      navigator.mediaDevices.getUserMedia({
+        video: buildVideoConstraints({ ...source.constraints, deviceId: source.deviceId })
+      }).then(async mediaStream => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        mediaStream.getVideoTracks().forEach(track => {
+          track.addEventListener('ended', () => {
+            if (cancelled) return;
+            setError(`${source.label} was disconnected. Waiting for it to be plugged back in.`);
+            setStatus('disconnected');
+          });
+        });
+        video.srcObject = mediaStream;
+        await video.play();
+        setStatus('ready');
+      }).catch(err => {
+        if (cancelled) return;
+        console.error(`Failed to open camera ${source.label}:`, err);
+        setError(`Unable to access ${source.label}. Please check permissions.`);
+        setStatus('error');
+      });
+    } else {
+      const onLoaded = () => setStatus('ready');
+      const onError = () => {
+        setError(`Failed to load ${source.fileName}`);
+        setStatus('error');
+      };
+      video.addEventListener('loadeddata', onLoaded);
+      video.addEventListener('error', onError);
+      video.src = source.url;
+      video.load();
+
+      return () => {
+        cancelled = true;
+        video.removeEventListener('loadeddata', onLoaded);
+        video.removeEventListener('error', onError);
+        video.pause();
+        video.removeAttribute('src');
+      };
+    }
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+      video.srcObject = null;
+    };
+  }, [feed.source, reconnectCount]);
+
+  // Reattach an unplugged camera as soon as it shows up again
+  useEffect(() => {
+    if (status !== 'disconnected' || feed.source.kind !== 'webcam') return;
+    const deviceId = feed.source.deviceId;
+
+    return watchVideoInputDevices(async () => {
+      try {
+        const devices = await listVideoInputDevices();
+        if (devices.some(d => d.deviceId === deviceId)) {
+          setReconnectCount(prev => prev + 1);
+        }
+      } catch (err) {
+        console.warn('Failed to list cameras:', err);
+      }
+    });
+  }, [status, feed.source]);
+
+  const runDetection = useCallback(async () => {
+    const video = videoRef.current;
+    const client = clientRef.current;
+    if (!video || !client || processingRef.current || statusRef.current !== 'ready') return;
+    if (regionsRef.current.length === 0 || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+
+    processingRef.current = true;
+    try {
+      const previousSpaces = previousSpacesRef.current;
+      const detection = await client.detect(video, regionsRef.current, previousSpaces, optionsRef.current, feed.id);
+      previousSpacesRef.current = detection.spaces;
+      setResult(detection);
+      onResultRef.current(feed.id, detection, previousSpaces);
+      setError(null);
+    } catch (err) {
+      setError(`Detection failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      processingRef.current = false;
+    }
+  }, [feed.id]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!isRunning || feed.regions.length === 0) {
+      if (video && feed.source.kind === 'video') video.pause();
+      return;
+    }
+
+    if (video && feed.source.kind === 'video') {
+      video.loop = true;
+      video.play().catch(err => console.warn(`Failed to play ${feed.name}:`, err));
+    }
+
+    previousSpacesRef.current = [];
+    const intervalId = setInterval(runDetection, detectionInterval);
+    runDetection();
+
+    return () => clearInterval(intervalId);
+  }, [isRunning, feed.regions, feed.source, feed.name, detectionInterval, runDetection]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    const canvas = overlayCanvasRef.current;
+    if (!video || !canvas) return;
+
+    const redraw = () => drawSpaceOverlay(canvas, video, result?.spaces ?? []);
+    redraw();
+
+    const resizeObserver = new ResizeObserver(redraw);
+    resizeObserver.observe(video);
+    return () => resizeObserver.disconnect();
+  }, [result, editingImage]);
+
+  const startEditingRegions = () => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) {
+      setError('Wait for the feed to show a frame before drawing regions');
+      return;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.drawImage(video, 0, 0);
+
+    setDraftRegions(feed.regions);
+    setEditingImage(canvas.toDataURL('image/jpeg', 0.9));
+  };
+
+  const applyRegions = () => {
+    onRegionsChange(feed.id, draftRegions);
+    previousSpacesRef.current = [];
+    setResult(null);
+    setEditingImage(null);
+  };
+
+  const total = result?.total ?? feed.regions.length;
+  const occupied = result?.occupied ?? 0;
+
+  return (
+    <div className={`rounded-xl overflow-hidden ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} shadow-xl`}>
+      <div className={`flex items-center justify-between px-4 py-3 border-b ${settings.enableDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+        <div className="flex items-center gap-2 min-w-0">
+          {feed.source.kind === 'webcam'
+            ? <Camera className="w-4 h-4 text-blue-500 flex-shrink-0" />
+            : <Video className="w-4 h-4 text-blue-500 flex-shrink-0" />}
+          <span className="font-semibold text-sm truncate" title={feed.name}>{feed.name}</span>
+          {isRunning && status === 'ready' && feed.regions.length > 0 && (
+            <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse flex-shrink-0"></div>
+          )}
+        </div>
+        <div className="flex items-center gap-2 text-xs">
+          {result ? (
+            <span className="font-medium">
+              <span className="text-red-500">{occupied}</span>
+              <span className={settings.enableDarkMode ? 'text-gray-400' : 'text-gray-500'}> / {total} occupied</span>
+            </span>
+          ) : (
+            <span className={settings.enableDarkMode ? 'text-gray-400' : 'text-gray-500'}>
+              {feed.regions.length} regions
+            </span>
+          )}
+        </div>
+      </div>
+
+      {editingImage && (
+        <div className="p-4">
+          <RegionSelector
+            imageUrl={editingImage}
+            onRegionsChange={setDraftRegions}
+            initialRegions={feed.regions}
+          />
+          <div className="flex justify-end gap-2 mt-4">
+            <button
+              onClick={() => setEditingImage(null)}
+              className={`px-4 py-2 rounded-lg font-medium ${
+                settings.enableDarkMode
+                  ? 'bg-gray-700 hover:bg-gray-600 text-white'
+                  : 'bg-gray-200 hover:bg-gray-300 text-gray-900'
+              }`}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={applyRegions}
+              className="px-4 py-2 rounded-lg font-medium bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              Apply ({draftRegions.length})
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className={`relative aspect-video bg-black ${editingImage ? 'hidden' : ''}`}>
+        <video
+          ref={videoRef}
+          className="w-full h-full object-contain"
+          playsInline
+          muted
+          crossOrigin="anonymous"
+        />
+        <canvas
+          ref={overlayCanvasRef}
+          className="absolute inset-0 pointer-events-none w-full h-full"
+        />
+
+        {status === 'connecting' && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/75">
+            <div className="w-10 h-10 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        )}
+        {status === 'error' && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center text-white">
+            <CameraOff size={36} className="mb-2 text-gray-400" />
+            <p className="text-sm">Feed unavailable</p>
+          </div>
+        )}
+        {status === 'disconnected' && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/75 text-white">
+            <CameraOff size={36} className="mb-2 text-yellow-400" />
+            <p className="text-sm">Camera disconnected</p>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="px-4 pt-3 flex items-start gap-2 text-xs text-red-500">
+          <AlertCircle size={14} className="flex-shrink-0 mt-0.5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 p-3">
+        <button
+          onClick={startEditingRegions}
+          disabled={status !== 'ready' || !!editingImage}
+          className={`px-3 py-1.5 rounded-lg text-sm font-medium flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed ${
+            settings.enableDarkMode
+              ? 'bg-gray-700 hover:bg-gray-600 text-white'
+              : 'bg-gray-200 hover:bg-gray-300 text-gray-900'
+          }`}
+        >
+          <Crosshair size={14} />
+          {feed.regions.length > 0 ? 'Edit Regions' : 'Define Regions'}
+        </button>
+        <div className="flex-1"></div>
+        <button
+          onClick={() => onRemove(feed.id)}
+          className="p-1.5 rounded-lg text-red-500 hover:bg-red-500/10 transition-colors"
+          title="Remove feed"
+        >
+          <Trash2 size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Draw normalized space polygons over an object-contain video
+function drawSpaceOverlay(canvas: HTMLCanvasElement, video: HTMLVideoElement, spaces: ParkingSpace[]) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const rect = video.getBoundingClientRect();
+  canvas.width = rect.width;
+  canvas.height = rect.height;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+  if (spaces.length === 0 || video.videoWidth === 0 || video.videoHeight === 0) return;
+
+  const videoAspect = video.videoWidth / video.videoHeight;
+  const containerAspect = rect.width / rect.height;
+  const displayWidth = videoAspect > containerAspect ? rect.width : rect.height * videoAspect;
+  const displayHeight = videoAspect > containerAspect ? rect.width / videoAspect : rect.height;
+  const offsetX = (rect.width - displayWidth) / 2;
+  const offsetY = (rect.height - displayHeight) / 2;
+
+  spaces.forEach((space, index) => {
+    const points = space.region.points.map(p => ({
+      x: p.x * displayWidth + offsetX,
+      y: p.y * displayHeight + offsetY
+    }));
+    if (points.length === 0) return;
+
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+    ctx.closePath();
+    ctx.fillStyle = space.isOccupied ? 'rgba(239, 68, 68, 0.25)' : 'rgba(34, 197, 94, 0.25)';
+    ctx.strokeStyle = space.isOccupied ? 'rgba(239, 68, 68, 0.9)' : 'rgba(34, 197, 94, 0.9)';
+    ctx.lineWidth = 2;
+    ctx.fill();
+    ctx.stroke();
+
+    const minX = Math.min(...points.map(p => p.x));
+    const minY = Math.min(...points.map(p => p.y));
+    const label = spaceLabel(space.region, index);
+    ctx.font = 'bold 11px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+    ctx.fillRect(minX + 2, minY + 2, Math.max(30, ctx.measureText(label).width + 8), 16);
+    ctx.fillStyle = 'white';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(label, minX + 6, minY + 10);
+  });
+}
+
+export default CameraFeedTile;
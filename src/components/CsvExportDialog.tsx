@@ -0,0 +1,219 @@
+import React, { useMemo, useState } from 'react';
+import { Download, FileSpreadsheet, X } from 'lucide-react';
+import { useSettings } from '../context/SettingsContext';
+import {
+  BUCKET_SIZE_OPTIONS,
+  CsvExportData,
+  TimeRange,
+  TimestampFormat,
+  dataExtent,
+  downloadCSV,
+  movementsCSV,
+  occupancyBucketsCSV,
+  spaceSummaryCSV
+} from '../utils/csvExport';
+
+interface CsvExportDialogProps {
+  getData: () => CsvExportData;
+  fileNamePrefix: string;
+  initialRange?: TimeRange;
+  onClose: () => void;
+}
+
+type Report = 'movements' | 'spaces' | 'occupancy';
+
+const REPORTS: Array<{ id: Report; label: string; description: string }> = [
+  { id: 'movements', label: 'Vehicle movements', description: 'One row per entry or exit event' },
+  { id: 'spaces', label: 'Per-space summary', description: 'Occupancy count and dwell time for each space' },
+  { id: 'occupancy', label: 'Occupancy over time', description: 'Average and peak occupancy per time bucket' }
+];
+
+const HOUR = 60 * 60 * 1000;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const toDateTimeInput = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const CsvExportDialog: React.FC<CsvExportDialogProps> = ({
+  getData,
+  fileNamePrefix,
+  initialRange,
+  onClose,
+}) => {
+  const { settings } = useSettings();
+  // Snapshot on open so rows don't shift while the range is being chosen
+  const [data] = useState(getData);
+  const extent = useMemo(() => dataExtent(data), [data]);
+  const [report, setReport] = useState<Report>('movements');
+  const [format, setFormat] = useState<TimestampFormat>('local');
+  const [bucketMinutes, setBucketMinutes] = useState(15);
+  const [from, setFrom] = useState(() => {
+    const start = initialRange?.from ?? extent?.from;
+    return start !== undefined ? toDateTimeInput(start) : '';
+  });
+  const [to, setTo] = useState(() => {
+    const end = initialRange?.to ?? extent?.to;
+    return end !== undefined ? toDateTimeInput(end) : '';
+  });
+
+  // Inputs have minute precision, so the end minute is included in full
+  const range: TimeRange = {
+    from: from ? new Date(from).getTime() : -Infinity,
+    to: to ? new Date(to).getTime() + 59999 : Infinity
+  };
+  const rangeValid = range.from <= range.to;
+
+  const counts = useMemo(() => ({
+    movements: data.movements.filter(m => m.timestamp >= range.from && m.timestamp <= range.to).length,
+    samples: data.samples.filter(s => s.timestamp >= range.from && s.timestamp <= range.to).length
+  }), [data, range.from, range.to]);
+
+  const setLast = (ms: number) => {
+    const end = extent?.to ?? Date.now();
+    setFrom(toDateTimeInput(end - ms));
+    setTo(toDateTimeInput(end));
+  };
+
+  const setAll = () => {
+    setFrom(extent ? toDateTimeInput(extent.from) : '');
+    setTo(extent ? toDateTimeInput(extent.to) : '');
+  };
+
+  const handleDownload = () => {
+    const stamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
+    switch (report) {
+      case 'movements':
+        downloadCSV(movementsCSV(data.movements, format, range), `${fileNamePrefix}-movements-${stamp}.csv`);
+        break;
+      case 'spaces':
+        downloadCSV(spaceSummaryCSV(data.spaceHistory, data.movements, format, range), `${fileNamePrefix}-spaces-${stamp}.csv`);
+        break;
+      case 'occupancy':
+        downloadCSV(occupancyBucketsCSV(data.samples, bucketMinutes, format, range), `${fileNamePrefix}-occupancy-${stamp}.csv`);
+        break;
+    }
+  };
+
+  const inputClass = `w-full px-3 py-2 rounded-lg text-sm ${settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`;
+  const mutedText = settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const presetClass = `px-3 py-1 rounded-lg text-xs font-medium transition-colors ${
+    settings.enableDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className={`w-full max-w-lg max-h-full overflow-y-auto rounded-xl shadow-xl ${
+        settings.enableDarkMode ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'
+      }`}>
+        <div className="flex items-center justify-between p-4 border-b border-gray-700/20">
+          <div className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-blue-500" />
+            <h2 className="text-lg font-bold">Export CSV</h2>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-lg hover:bg-gray-500/20">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-5">
+          <div className="space-y-2">
+            {REPORTS.map(option => (
+              <label
+                key={option.id}
+                className={`flex items-start gap-3 p-3 rounded-lg cursor-pointer border ${
+                  report === option.id
+                    ? 'border-blue-500 bg-blue-500/10'
+                    : settings.enableDarkMode ? 'border-gray-700' : 'border-gray-200'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="csv-report"
+                  checked={report === option.id}
+                  onChange={() => setReport(option.id)}
+                  className="mt-1"
+                />
+                <div>
+                  <div className="font-medium text-sm">{option.label}</div>
+                  <div className={`text-xs ${mutedText}`}>{option.description}</div>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium">Time range</span>
+              <div className="flex gap-2">
+                <button onClick={() => setLast(HOUR)} className={presetClass}>Last hour</button>
+                <button onClick={() => setLast(24 * HOUR)} className={presetClass}>Last 24h</button>
+                <button onClick={setAll} className={presetClass}>All</button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="text-xs">
+                <span className={mutedText}>From</span>
+                <input type="datetime-local" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+              </label>
+              <label className="text-xs">
+                <span className={mutedText}>To</span>
+                <input type="datetime-local" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+              </label>
+            </div>
+            {!rangeValid && (
+              <p className="text-xs text-red-500 mt-1">The start of the range is after its end</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-xs">
+              <span className={mutedText}>Timestamps</span>
+              <select value={format} onChange={(e) => setFormat(e.target.value as TimestampFormat)} className={inputClass}>
+                <option value="local">Local time</option>
+                <option value="iso">ISO 8601 (UTC)</option>
+              </select>
+            </label>
+            {report === 'occupancy' && (
+              <label className="text-xs">
+                <span className={mutedText}>Bucket size</span>
+                <select value={bucketMinutes} onChange={(e) => setBucketMinutes(Number(e.target.value))} className={inputClass}>
+                  {BUCKET_SIZE_OPTIONS.map(option => (
+                    <option key={option.minutes} value={option.minutes}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+
+          <p className={`text-xs ${mutedText}`}>
+            {counts.movements} movements and {counts.samples} occupancy samples in range
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-700/20">
+          <button
+            onClick={onClose}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+              settings.enableDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+            }`}
+          >
+            Close
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={!rangeValid}
+            className="px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white rounded-lg flex items-center gap-2 font-medium transition-colors"
+          >
+            <Download size={16} />
+            Download CSV
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvExportDialog;
@@ -0,0 +1,323 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ClipboardCheck, Download, Upload, Play, X } from 'lucide-react';
+import { useSettings } from '../context/SettingsContext';
+import type { Region } from '../utils/parkingDetection';
+import {
+  EvaluationMetrics,
+  EvaluationSample,
+  GroundTruth,
+  alignGroundTruth,
+  evaluateDetections,
+  exportReportCSV,
+  exportReportJSON,
+  markStateFrom,
+  parseGroundTruth,
+  removeTransition
+} from '../utils/evaluation';
+import { downloadCSV } from '../utils/csvExport';
+
+interface EvaluationPanelProps {
+  regions: Region[];
+  groundTruth: GroundTruth;
+  onGroundTruthChange: (groundTruth: GroundTruth) => void;
+  currentTime: number;
+  onSeek: (time: number) => void;
+  samples: EvaluationSample[];
+  isReplaying: boolean;
+  onReplay: () => void;
+  onClose: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`;
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const downloadFile = (content: string, type: string, fileName: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+};
+
+const EvaluationPanel: React.FC<EvaluationPanelProps> = ({
+  regions,
+  groundTruth,
+  onGroundTruthChange,
+  currentTime,
+  onSeek,
+  samples,
+  isReplaying,
+  onReplay,
+  onClose,
+}) => {
+  const { settings } = useSettings();
+  const [selectedRegionId, setSelectedRegionId] = useState<string | null>(groundTruth.spaces[0]?.regionId ?? null);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const report = useMemo(
+    () => samples.length > 0 ? evaluateDetections(groundTruth, samples) : null,
+    [groundTruth, samples]
+  );
+
+  const duration = groundTruth.duration || 1;
+  const selected = groundTruth.spaces.find(space => space.regionId === selectedRegionId) ?? null;
+  const mutedText = settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const buttonClass = `px-3 py-1.5 rounded-lg text-sm font-medium flex items-center gap-1.5 transition-colors disabled:opacity-50 ${
+    settings.enableDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+  }`;
+
+  const markSelected = (occupied: boolean) => {
+    if (!selected) return;
+    onGroundTruthChange({
+      ...groundTruth,
+      spaces: groundTruth.spaces.map(space =>
+        space.regionId === selected.regionId ? markStateFrom(space, currentTime, occupied) : space
+      )
+    });
+  };
+
+  const removeSelectedTransition = (index: number) => {
+    if (!selected) return;
+    onGroundTruthChange({
+      ...groundTruth,
+      spaces: groundTruth.spaces.map(space =>
+        space.regionId === selected.regionId ? removeTransition(space, index) : space
+      )
+    });
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseGroundTruth(await file.text());
+      onGroundTruthChange(alignGroundTruth(imported, regions, groundTruth.duration));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import annotations');
+    }
+  };
+
+  const baseName = groundTruth.videoName.replace(/\.[^.]+$/, '') || 'video';
+
+  return (
+    <div className={`rounded-xl p-6 ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} shadow-xl space-y-5`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5 text-blue-500" />
+          <h2 className="text-lg font-bold">Evaluation</h2>
+        </div>
+        <button onClick={onClose} className="p-1 rounded-lg hover:bg-gray-500/20">
+          <X size={18} />
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-500/10 text-red-500 text-sm">{error}</div>
+      )}
+
+      {/* Annotation */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-sm">Ground Truth</h3>
+          <span className={`text-xs ${mutedText}`}>At {formatTime(currentTime)}</span>
+        </div>
+        {groundTruth.spaces.map(space => (
+          <div
+            key={space.regionId}
+            onClick={() => setSelectedRegionId(space.regionId)}
+            className={`flex items-center gap-3 p-1.5 rounded-lg cursor-pointer ${
+              space.regionId === selectedRegionId ? (settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-100') : ''
+            }`}
+          >
+            <span className="w-10 text-sm font-medium">{space.label}</span>
+            <div
+              className="relative flex-1 h-4 rounded overflow-hidden flex"
+              onClick={(e) => {
+                const rect = e.currentTarget.getBoundingClientRect();
+                onSeek(((e.clientX - rect.left) / rect.width) * duration);
+              }}
+            >
+              {space.intervals.map(interval => (
+                <div
+                  key={interval.start}
+                  className={interval.occupied ? 'bg-red-500' : 'bg-green-500'}
+                  style={{ width: `${((interval.end - interval.start) / duration) * 100}%` }}
+                />
+              ))}
+              <div
+                className="absolute top-0 bottom-0 w-0.5 bg-white shadow"
+                style={{ left: `${Math.min(100, (currentTime / duration) * 100)}%` }}
+              />
+            </div>
+          </div>
+        ))}
+
+        {selected && (
+          <div className="flex flex-wrap items-center gap-2 pt-2">
+            <button onClick={() => markSelected(true)} className="px-3 py-1.5 rounded-lg text-sm font-medium bg-red-500 hover:bg-red-600 text-white">
+              {selected.label} occupied from here
+            </button>
+            <button onClick={() => markSelected(false)} className="px-3 py-1.5 rounded-lg text-sm font-medium bg-green-500 hover:bg-green-600 text-white">
+              {selected.label} empty from here
+            </button>
+            {selected.intervals.slice(1).map((interval, i) => (
+              <span key={interval.start} className={`flex items-center gap-1 px-2 py-1 rounded text-xs ${settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                <button onClick={() => onSeek(interval.start)} className="hover:underline">
+                  {interval.occupied ? 'Arrive' : 'Leave'} {formatTime(interval.start)}
+                </button>
+                <button onClick={() => removeSelectedTransition(i + 1)} className="hover:text-red-500">
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button onClick={onReplay} disabled={isReplaying} className="px-3 py-1.5 rounded-lg text-sm font-medium flex items-center gap-1.5 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white">
+          <Play size={14} />
+          {isReplaying ? `Replaying (${samples.length} samples)...` : 'Replay & Evaluate'}
+        </button>
+        <button onClick={() => importInputRef.current?.click()} className={buttonClass}>
+          <Upload size={14} /> Import Annotations
+        </button>
+        <button
+          onClick={() => downloadFile(JSON.stringify(groundTruth, null, 2), 'application/json', `${baseName}-ground-truth.json`)}
+          className={buttonClass}
+        >
+          <Download size={14} /> Export Annotations
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {/* Report */}
+      {report && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+            <MetricCard label="Precision" value={percent(report.overall.precision)} darkMode={settings.enableDarkMode} />
+            <MetricCard label="Recall" value={percent(report.overall.recall)} darkMode={settings.enableDarkMode} />
+            <MetricCard label="F1" value={percent(report.overall.f1)} darkMode={settings.enableDarkMode} />
+            <MetricCard label="Accuracy" value={percent(report.overall.accuracy)} darkMode={settings.enableDarkMode} />
+            <MetricCard
+              label="Change latency"
+              value={report.overall.meanLatency === null ? '—' : `${report.overall.meanLatency.toFixed(1)}s`}
+              darkMode={settings.enableDarkMode}
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-6">
+            <ConfusionMatrix metrics={report.overall} darkMode={settings.enableDarkMode} />
+            <div className={`text-sm space-y-1 ${mutedText}`}>
+              <p>{report.sampleCount} samples, {report.meanProcessingTime.toFixed(0)}ms mean processing</p>
+              <p>{report.overall.detectedTransitions} of {report.overall.transitions} state changes detected</p>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className={mutedText}>
+                  <th className="text-left font-medium py-1">Space</th>
+                  <th className="text-right font-medium py-1">Precision</th>
+                  <th className="text-right font-medium py-1">Recall</th>
+                  <th className="text-right font-medium py-1">F1</th>
+                  <th className="text-right font-medium py-1">TP / FP / TN / FN</th>
+                  <th className="text-right font-medium py-1">Changes</th>
+                  <th className="text-right font-medium py-1">Latency</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.spaces.map(metrics => (
+                  <tr key={metrics.regionId}>
+                    <td className="py-1 font-medium">{metrics.label}</td>
+                    <td className="py-1 text-right">{percent(metrics.precision)}</td>
+                    <td className="py-1 text-right">{percent(metrics.recall)}</td>
+                    <td className="py-1 text-right">{percent(metrics.f1)}</td>
+                    <td className="py-1 text-right">
+                      {metrics.truePositive} / {metrics.falsePositive} / {metrics.trueNegative} / {metrics.falseNegative}
+                    </td>
+                    <td className="py-1 text-right">{metrics.detectedTransitions}/{metrics.transitions}</td>
+                    <td className="py-1 text-right">{metrics.meanLatency === null ? '—' : `${metrics.meanLatency.toFixed(1)}s`}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => downloadFile(exportReportJSON(report, groundTruth), 'application/json', `${baseName}-evaluation.json`)}
+              className={buttonClass}
+            >
+              <Download size={14} /> Report JSON
+            </button>
+            <button
+              onClick={() => downloadCSV(exportReportCSV(report), `${baseName}-evaluation.csv`)}
+              className={buttonClass}
+            >
+              <Download size={14} /> Report CSV
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const MetricCard: React.FC<{ label: string; value: string; darkMode: boolean }> = ({ label, value, darkMode }) => (
+  <div className={`p-3 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+    <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>{label}</p>
+    <p className="text-lg font-bold">{value}</p>
+  </div>
+);
+
+const ConfusionMatrix: React.FC<{ metrics: EvaluationMetrics; darkMode: boolean }> = ({ metrics, darkMode }) => {
+  const cell = `px-3 py-2 text-center font-semibold ${darkMode ? 'bg-gray-700' : 'bg-gray-50'}`;
+  const heading = `px-3 py-1 text-xs font-medium ${darkMode ? 'text-gray-400' : 'text-gray-600'}`;
+  return (
+    <table className="text-sm border-separate border-spacing-1">
+      <thead>
+        <tr>
+          <th />
+          <th className={heading}>Predicted occupied</th>
+          <th className={heading}>Predicted empty</th>
+        </tr>
+      </thead>
+      <tbody>
+        <tr>
+          <th className={`${heading} text-right`}>Actually occupied</th>
+          <td className={`${cell} text-green-500`}>{metrics.truePositive}</td>
+          <td className={`${cell} text-red-500`}>{metrics.falseNegative}</td>
+        </tr>
+        <tr>
+          <th className={`${heading} text-right`}>Actually empty</th>
+          <td className={`${cell} text-red-500`}>{metrics.falsePositive}</td>
+          <td className={`${cell} text-green-500`}>{metrics.trueNegative}</td>
+        </tr>
+      </tbody>
+    </table>
+  );
+};
+
+export default EvaluationPanel;
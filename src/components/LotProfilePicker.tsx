@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { FolderOpen, Save, Copy, Pencil, Trash2, Plus } from 'lucide-react';
+import { useSettings } from '../context/SettingsContext';
+import {
+  LotProfile,
+  LotProfileSnapshot,
+  listLotProfiles,
+  createLotProfile,
+  updateLotProfile,
+  renameLotProfile,
+  duplicateLotProfile,
+  deleteLotProfile
+} from '../utils/lotProfiles';
+
+interface LotProfilePickerProps {
+  activeProfileId: string | null;
+  onLoad: (profile: LotProfile) => void;
+  onSave?: (profile: LotProfile) => void;
+  onDelete?: (profileId: string) => void;
+  getSnapshot: () => LotProfileSnapshot;
+}
+
+const LotProfilePicker: React.FC<LotProfilePickerProps> = ({
+  activeProfileId,
+  onLoad,
+  onSave,
+  onDelete,
+  getSnapshot,
+}) => {
+  const { settings } = useSettings();
+  const [profiles, setProfiles] = useState<LotProfile[]>([]);
+  const [selectedId, setSelectedId] = useState<string>(activeProfileId ?? '');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const refreshProfiles = useCallback(async () => {
+    try {
+      setProfiles(await listLotProfiles());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load lot profiles');
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshProfiles();
+  }, [refreshProfiles]);
+
+  useEffect(() => {
+    if (activeProfileId) setSelectedId(activeProfileId);
+  }, [activeProfileId]);
+
+  const selectedProfile = profiles.find(p => p.id === selectedId) || null;
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      await refreshProfiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Lot profile operation failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleLoad = () => {
+    if (selectedProfile) onLoad(selectedProfile);
+  };
+
+  const handleSaveNew = () => {
+    const name = window.prompt('Name for the new lot profile', 'New lot');
+    if (name === null) return;
+    runAction(async () => {
+      const profile = await createLotProfile(name, getSnapshot());
+      setSelectedId(profile.id);
+      onSave?.(profile);
+    });
+  };
+
+  const handleSave = () => {
+    if (!selectedProfile) return;
+    runAction(async () => {
+      const profile = await updateLotProfile(selectedProfile.id, getSnapshot());
+      onSave?.(profile);
+    });
+  };
+
+  const handleDuplicate = () => {
+    if (!selectedProfile) return;
+    runAction(async () => {
+      const profile = await duplicateLotProfile(selectedProfile.id);
+      setSelectedId(profile.id);
+    });
+  };
+
+  const handleRename = () => {
+    if (!selectedProfile) return;
+    const name = window.prompt('Rename lot profile', selectedProfile.name);
+    if (name === null) return;
+    runAction(async () => {
+      await renameLotProfile(selectedProfile.id, name);
+    });
+  };
+
+  const handleDelete = () => {
+    if (!selectedProfile) return;
+    if (!window.confirm(`Delete lot profile "${selectedProfile.name}"?`)) return;
+    runAction(async () => {
+      await deleteLotProfile(selectedProfile.id);
+      setSelectedId('');
+      onDelete?.(selectedProfile.id);
+    });
+  };
+
+  const buttonClass = (enabled: boolean) => `p-2 rounded-lg transition-colors ${
+    enabled
+      ? settings.enableDarkMode
+        ? 'bg-gray-700 hover:bg-gray-600 text-white'
+        : 'bg-gray-200 hover:bg-gray-300 text-gray-800'
+      : 'bg-gray-200 text-gray-400 cursor-not-allowed'
+  }`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className={`flex-1 min-w-[10rem] px-3 py-2 rounded-lg border text-sm ${
+            settings.enableDarkMode
+              ? 'bg-gray-700 border-gray-600 text-white'
+              : 'bg-white border-gray-300 text-gray-900'
+          }`}
+        >
+          <option value="">Select lot profile...</option>
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name} ({profile.regions.length} spaces)
+            </option>
+          ))}
+        </select>
+
+        <button
+          onClick={handleLoad}
+          disabled={!selectedProfile || isBusy}
+          className={`px-3 py-2 rounded-lg flex items-center gap-2 text-sm font-medium transition-colors ${
+            selectedProfile && !isBusy
+              ? 'bg-blue-600 hover:bg-blue-700 text-white'
+              : 'bg-gray-400 text-gray-200 cursor-not-allowed'
+          }`}
+        >
+          <FolderOpen size={16} />
+          Load
+        </button>
+        <button onClick={handleSaveNew} disabled={isBusy} className={buttonClass(!isBusy)} title="Save as new profile">
+          <Plus size={16} />
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!selectedProfile || isBusy}
+          className={buttonClass(!!selectedProfile && !isBusy)}
+          title="Save current layout to selected profile"
+        >
+          <Save size={16} />
+        </button>
+        <button
+          onClick={handleDuplicate}
+          disabled={!selectedProfile || isBusy}
+          className={buttonClass(!!selectedProfile && !isBusy)}
+          title="Duplicate"
+        >
+          <Copy size={16} />
+        </button>
+        <button
+          onClick={handleRename}
+          disabled={!selectedProfile || isBusy}
+          className={buttonClass(!!selectedProfile && !isBusy)}
+          title="Rename"
+        >
+          <Pencil size={16} />
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={!selectedProfile || isBusy}
+          className={`p-2 rounded-lg transition-colors ${
+            selectedProfile && !isBusy
+              ? 'bg-red-500 hover:bg-red-600 text-white'
+              : 'bg-gray-200 text-gray-400 cursor-not-allowed'
+          }`}
+          title="Delete"
+        >
+          <Trash2 size={16} />
+        </button>
+      </div>
+
+      {selectedProfile && (
+        <p className={`text-xs ${settings.enableDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          {selectedProfile.cameraSource.kind === 'webcam'
+            ? 'Webcam source'
+            : selectedProfile.cameraSource.kind === 'video'
+            ? `Video source${selectedProfile.cameraSource.fileName ? `: ${selectedProfile.cameraSource.fileName}` : ''}`
+            : 'Still image source'}
+          {' • '}
+          {Object.keys(selectedProfile.configOverrides).length} tuning overrides
+          {' • '}
+          Updated {new Date(selectedProfile.updatedAt).toLocaleString()}
+        </p>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default LotProfilePicker;
@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { RadioTower } from 'lucide-react';
+import { useSettings } from '../context/SettingsContext';
+import type { EventOrigin } from '../utils/occupancyEvents';
+import type { MqttQos } from '../utils/mqtt';
+import {
+  MqttConfig,
+  MqttConnectionState,
+  MqttStatus,
+  isValidMqttConfig,
+  lotTopic
+} from '../utils/mqttPublisher';
+
+interface MqttPanelProps {
+  config: MqttConfig;
+  onConfigChange: (config: MqttConfig) => void;
+  status: MqttStatus | null;
+  origin: EventOrigin;
+}
+
+const STATE_STYLES: Record<MqttConnectionState, { label: string; className: string }> = {
+  disconnected: { label: 'Off', className: 'bg-gray-500/20 text-gray-400' },
+  connecting: { label: 'Connecting', className: 'bg-amber-500/20 text-amber-500' },
+  connected: { label: 'Connected', className: 'bg-green-500/20 text-green-500' },
+  error: { label: 'Offline', className: 'bg-red-500/20 text-red-500' }
+};
+
+// Changing any of these reconnects, so they are applied on blur or Enter
+type ConnectionSettings = Pick<MqttConfig, 'url' | 'username' | 'password' | 'lotId'>;
+
+const connectionSettings = ({ url, username, password, lotId }: MqttConfig): ConnectionSettings =>
+  ({ url, username, password, lotId });
+
+const MqttPanel: React.FC<MqttPanelProps> = ({
+  config,
+  onConfigChange,
+  status,
+  origin,
+}) => {
+  const { settings } = useSettings();
+  const [draft, setDraft] = useState(() => connectionSettings(config));
+
+  useEffect(() => {
+    setDraft({ url: config.url, username: config.username, password: config.password, lotId: config.lotId });
+  }, [config.url, config.username, config.password, config.lotId]);
+
+  const mutedText = settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const inputClass = `px-2 py-1 rounded text-xs ${settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`;
+  const configValid = isValidMqttConfig(config);
+  const draftValid = isValidMqttConfig({ ...config, ...draft });
+  const topic = lotTopic(config, origin);
+  const stateStyle = STATE_STYLES[status?.state ?? 'disconnected'];
+
+  const update = (changes: Partial<MqttConfig>) => onConfigChange({ ...config, ...changes });
+
+  const editDraft = (changes: Partial<ConnectionSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const applyDraft = () => {
+    const changed = (Object.keys(draft) as (keyof ConnectionSettings)[]).some(key => draft[key] !== config[key]);
+    if (changed) update(draft);
+  };
+
+  const connectionInputProps = {
+    onBlur: applyDraft,
+    onKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === 'Enter') applyDraft();
+    }
+  };
+
+  return (
+    <div className={`rounded-xl p-6 ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} shadow-xl`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <RadioTower className="w-5 h-5 text-blue-500" />
+          <h2 className="text-lg font-bold">MQTT</h2>
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${stateStyle.className}`}>
+            {stateStyle.label}
+          </span>
+        </div>
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={config.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            disabled={!config.enabled && !configValid}
+            className="rounded"
+          />
+          Enabled
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <input
+          type="url"
+          value={draft.url}
+          onChange={(e) => editDraft({ url: e.target.value.trim() })}
+          {...connectionInputProps}
+          placeholder="wss://broker.example.com:8884/mqtt"
+          className={`${inputClass} w-full py-2 ${draftValid ? '' : 'ring-1 ring-red-500'}`}
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            type="text"
+            value={draft.username}
+            onChange={(e) => editDraft({ username: e.target.value })}
+            {...connectionInputProps}
+            placeholder="Username"
+            autoComplete="off"
+            className={`${inputClass} py-2`}
+          />
+          <input
+            type="password"
+            value={draft.password}
+            onChange={(e) => editDraft({ password: e.target.value })}
+            {...connectionInputProps}
+            placeholder="Password"
+            autoComplete="off"
+            disabled={!draft.username}
+            className={`${inputClass} py-2`}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs mt-3">
+        <label className="flex items-center gap-1">
+          Lot ID
+          <input
+            type="text"
+            value={draft.lotId}
+            onChange={(e) => editDraft({ lotId: e.target.value })}
+            {...connectionInputProps}
+            placeholder={origin.lotId ?? 'default'}
+            className={`${inputClass} w-28`}
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          QoS
+          <select
+            value={config.qos}
+            onChange={(e) => update({ qos: Number(e.target.value) as MqttQos })}
+            className={inputClass}
+          >
+            <option value={0}>0</option>
+            <option value={1}>1</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          Summary every
+          <input
+            type="number"
+            min={5}
+            value={config.summaryIntervalSeconds}
+            onChange={(e) => update({ summaryIntervalSeconds: Math.max(5, Number(e.target.value) || 5) })}
+            className={`${inputClass} w-16`}
+          />
+          s
+        </label>
+      </div>
+
+      <div className={`text-xs mt-3 space-y-1 ${mutedText}`}>
+        <div className="font-mono break-all">{topic}/space/&lt;n&gt;/state · {topic}/summary</div>
+        {status && status.state === 'connected' && (
+          <div>
+            {status.published} messages published
+            {status.connectedAt && ` · connected since ${new Date(status.connectedAt).toLocaleTimeString()}`}
+          </div>
+        )}
+        {status?.error && status.state !== 'connected' && (
+          <div className="text-red-500">
+            {status.error}
+            {status.nextRetryAt && `, reconnecting at ${new Date(status.nextRetryAt).toLocaleTimeString()}`}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MqttPanel;
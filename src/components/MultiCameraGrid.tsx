@@ -0,0 +1,466 @@
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Camera, Upload, Play, StopCircle, RefreshCw, AlertCircle, X, LayoutGrid } from 'lucide-react';
+import { useSettings } from '../context/SettingsContext';
+import CameraFeedTile, { CameraFeed } from './CameraFeedTile';
+import { createDetectionClient, DetectionClient } from '../utils/detectionClient';
+import {
+  CameraConstraints,
+  DEFAULT_CAMERA_CONSTRAINTS,
+  FRAME_RATE_OPTIONS,
+  RESOLUTION_PRESETS,
+  VideoInputDevice,
+  listVideoInputDevices,
+  watchVideoInputDevices
+} from '../utils/cameraDevices';
+import { DetectionOptions, DetectionResult, ParkingSpace, Region } from '../utils/parkingDetection';
+import {
+  DetectionSession,
+  SpaceOccupancyHistory,
+  applyMovements,
+  createSession,
+  detectMovements,
+  recordSample,
+  recordMovements,
+  saveSession
+} from '../utils/occupancyStore';
+
+interface MultiCameraGridProps {
+  detectionOptions: Partial<DetectionOptions>;
+  detectionInterval: number;
+  lotId: string | null;
+  lotName: string;
+}
+
+const MAX_FEEDS = 6;
+const MAX_VIDEO_SIZE = 50 * 1024 * 1024;
+const SESSION_SAVE_EVERY = 10;
+
+const createFeedId = () => `feed-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const MultiCameraGrid: React.FC<MultiCameraGridProps> = ({
+  detectionOptions,
+  detectionInterval,
+  lotId,
+  lotName,
+}) => {
+  const { settings } = useSettings();
+  const [feeds, setFeeds] = useState<CameraFeed[]>([]);
+  const [devices, setDevices] = useState<VideoInputDevice[]>([]);
+  const [selectedDeviceId, setSelectedDeviceId] = useState('');
+  const [newCameraConstraints, setNewCameraConstraints] = useState<CameraConstraints>(DEFAULT_CAMERA_CONSTRAINTS);
+  const [results, setResults] = useState<Record<string, DetectionResult>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [client, setClient] = useState<DetectionClient | null>(null);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const feedsRef = useRef(feeds);
+  const resultsRef = useRef(results);
+  const sessionRef = useRef<DetectionSession | null>(null);
+  // Per-feed occupancy history for the current session, keyed by feed id
+  const historyRef = useRef(new Map<string, Map<number, SpaceOccupancyHistory>>());
+
+  useEffect(() => { feedsRef.current = feeds; }, [feeds]);
+  useEffect(() => { resultsRef.current = results; }, [results]);
+
+  // One worker and one copy of the models for every feed in the grid
+  useEffect(() => {
+    const detectionClient = createDetectionClient();
+    setClient(detectionClient);
+    return () => {
+      detectionClient.dispose();
+      setClient(null);
+    };
+  }, []);
+
+  const refreshDevices = useCallback(async () => {
+    try {
+      const inputs = await listVideoInputDevices();
+      setDevices(inputs);
+      setSelectedDeviceId(prev => inputs.some(d => d.deviceId === prev) ? prev : inputs[0]?.deviceId ?? '');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to list cameras');
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshDevices();
+    return watchVideoInputDevices(refreshDevices);
+  }, [refreshDevices]);
+
+  const persistSession = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    saveSession(session).catch(err => {
+      console.warn('Failed to save multi-camera session:', err);
+    });
+  }, []);
+
+  // Release video object URLs and save the session when leaving the page
+  useEffect(() => {
+    return () => {
+      feedsRef.current.forEach(feed => {
+        if (feed.source.kind === 'video') URL.revokeObjectURL(feed.source.url);
+      });
+      persistSession();
+    };
+  }, [persistSession]);
+
+  const addCameraFeed = () => {
+    if (feeds.length >= MAX_FEEDS) {
+      setError(`At most ${MAX_FEEDS} feeds can run side by side`);
+      return;
+    }
+    const device = devices.find(d => d.deviceId === selectedDeviceId);
+    if (!device) {
+      setError('Select a camera to add');
+      return;
+    }
+    if (feeds.some(feed => feed.source.kind === 'webcam' && feed.source.deviceId === device.deviceId)) {
+      setError(`${device.label} is already in the grid`);
+      return;
+    }
+
+    setError(null);
+    setFeeds(prev => [...prev, {
+      id: createFeedId(),
+      name: device.label,
+      source: {
+        kind: 'webcam',
+        deviceId: device.deviceId,
+        label: device.label,
+        constraints: { ...newCameraConstraints, deviceId: device.deviceId }
+      },
+      regions: []
+    }]);
+    // Labels become available once camera permission has been granted
+    setTimeout(refreshDevices, 1500);
+  };
+
+  const handleVideoFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const accepted: CameraFeed[] = [];
+    const rejected: string[] = [];
+    files.forEach(file => {
+      if (!file.type.startsWith('video/')) {
+        rejected.push(`${file.name} is not a video`);
+      } else if (file.size > MAX_VIDEO_SIZE) {
+        rejected.push(`${file.name} is larger than 50MB`);
+      } else if (feeds.length + accepted.length >= MAX_FEEDS) {
+        rejected.push(`${file.name} skipped: at most ${MAX_FEEDS} feeds`);
+      } else {
+        accepted.push({
+          id: createFeedId(),
+          name: file.name,
+          source: { kind: 'video', fileName: file.name, url: URL.createObjectURL(file) },
+          regions: []
+        });
+      }
+    });
+
+    setFeeds(prev => [...prev, ...accepted]);
+    setError(rejected.length > 0 ? rejected.join('; ') : null);
+  };
+
+  const removeFeed = useCallback((feedId: string) => {
+    setFeeds(prev => {
+      const feed = prev.find(f => f.id === feedId);
+      if (feed?.source.kind === 'video') URL.revokeObjectURL(feed.source.url);
+      return prev.filter(f => f.id !== feedId);
+    });
+    setResults(prev => {
+      const next = { ...prev };
+      delete next[feedId];
+      return next;
+    });
+  }, []);
+
+  const updateFeedRegions = useCallback((feedId: string, regions: Region[]) => {
+    setFeeds(prev => prev.map(feed => feed.id === feedId ? { ...feed, regions } : feed));
+    setResults(prev => {
+      const next = { ...prev };
+      delete next[feedId];
+      return next;
+    });
+  }, []);
+
+  const handleResult = useCallback((feedId: string, result: DetectionResult, previousSpaces: ParkingSpace[]) => {
+    setResults(prev => ({ ...prev, [feedId]: result }));
+
+    const session = sessionRef.current;
+    const feed = feedsRef.current.find(f => f.id === feedId);
+    if (!session || !feed || previousSpaces.length === 0) return;
+
+    const history = historyRef.current.get(feedId) || new Map<number, SpaceOccupancyHistory>();
+    const movements = detectMovements(result.spaces, previousSpaces, history, Date.now())
+      .map(movement => ({ ...movement, camera: feed.name, feedId: feed.id }));
+    if (movements.length === 0) return;
+
+    recordMovements(session, movements);
+    historyRef.current.set(feedId, applyMovements(history, movements));
+    session.spaceHistory = Array.from(historyRef.current.values()).flatMap(feedHistory => Array.from(feedHistory.values()));
+  }, []);
+
+  const activeFeeds = feeds.filter(feed => feed.regions.length > 0);
+
+  const startAll = () => {
+    if (activeFeeds.length === 0) {
+      setError('Define regions on at least one feed before starting detection');
+      return;
+    }
+    setError(null);
+    setResults({});
+
+    persistSession();
+    historyRef.current = new Map();
+    sessionRef.current = createSession({
+      lotId,
+      lotName,
+      source: 'multi-camera',
+      totalSpaces: activeFeeds.reduce((sum, feed) => sum + feed.regions.length, 0)
+    });
+    setIsRunning(true);
+  };
+
+  const stopAll = () => {
+    setIsRunning(false);
+    persistSession();
+    sessionRef.current = null;
+  };
+
+  // Record one combined lot sample per detection interval
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const intervalId = setInterval(() => {
+      const session = sessionRef.current;
+      const latest = Object.values(resultsRef.current);
+      if (!session || latest.length === 0) return;
+
+      recordSample(session, {
+        timestamp: Date.now(),
+        occupied: latest.reduce((sum, r) => sum + r.occupied, 0),
+        available: latest.reduce((sum, r) => sum + r.available, 0)
+      });
+      if (session.samples.length % SESSION_SAVE_EVERY === 0) persistSession();
+    }, detectionInterval);
+
+    return () => clearInterval(intervalId);
+  }, [isRunning, detectionInterval, persistSession]);
+
+  const combined = useMemo(() => {
+    const perCamera = feeds.map(feed => {
+      const result = results[feed.id];
+      const total = feed.regions.length;
+      const occupied = result?.occupied ?? 0;
+      return {
+        feed,
+        total,
+        occupied,
+        hasResult: !!result,
+        rate: total > 0 && result ? (occupied / total) * 100 : 0
+      };
+    });
+    const total = perCamera.reduce((sum, c) => sum + c.total, 0);
+    const occupied = perCamera.reduce((sum, c) => sum + c.occupied, 0);
+    return {
+      perCamera,
+      total,
+      occupied,
+      available: total - occupied,
+      rate: total > 0 ? (occupied / total) * 100 : 0
+    };
+  }, [feeds, results]);
+
+  const gridColumns = feeds.length <= 1 ? 'grid-cols-1' : feeds.length <= 4 ? 'grid-cols-1 md:grid-cols-2' : 'grid-cols-1 md:grid-cols-2 xl:grid-cols-3';
+
+  return (
+    <div className="space-y-6">
+      {/* Feed controls */}
+      <div className={`rounded-xl p-4 ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} shadow-xl`}>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={selectedDeviceId}
+            onChange={(e) => setSelectedDeviceId(e.target.value)}
+            disabled={devices.length === 0}
+            className={`px-3 py-2 rounded-lg text-sm border ${
+              settings.enableDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+            }`}
+          >
+            {devices.length === 0 && <option value="">No cameras found</option>}
+            {devices.map(device => (
+              <option key={device.deviceId} value={device.deviceId}>{device.label}</option>
+            ))}
+          </select>
+          <select
+            value={`${newCameraConstraints.width}x${newCameraConstraints.height}`}
+            onChange={(e) => {
+              const preset = RESOLUTION_PRESETS.find(p => `${p.width}x${p.height}` === e.target.value);
+              if (preset) setNewCameraConstraints(prev => ({ ...prev, width: preset.width, height: preset.height }));
+            }}
+            title="Resolution for the next camera"
+            className={`px-3 py-2 rounded-lg text-sm border ${
+              settings.enableDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+            }`}
+          >
+            {RESOLUTION_PRESETS.map(preset => (
+              <option key={preset.label} value={`${preset.width}x${preset.height}`}>{preset.label}</option>
+            ))}
+          </select>
+          <select
+            value={newCameraConstraints.frameRate}
+            onChange={(e) => setNewCameraConstraints(prev => ({ ...prev, frameRate: Number(e.target.value) }))}
+            title="Frame rate for the next camera"
+            className={`px-3 py-2 rounded-lg text-sm border ${
+              settings.enableDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+            }`}
+          >
+            {FRAME_RATE_OPTIONS.map(rate => (
+              <option key={rate} value={rate}>{rate} fps</option>
+            ))}
+          </select>
+          <button
+            onClick={refreshDevices}
+            className={`p-2 rounded-lg transition-colors ${
+              settings.enableDarkMode ? 'bg-gray-700 hover:bg-gray-600 text-gray-300' : 'bg-gray-200 hover:bg-gray-300 text-gray-700'
+            }`}
+            title="Refresh camera list"
+          >
+            <RefreshCw size={16} />
+          </button>
+          <button
+            onClick={addCameraFeed}
+            disabled={!selectedDeviceId || feeds.length >= MAX_FEEDS}
+            className="px-4 py-2 rounded-lg font-medium flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Camera size={16} />
+            Add Camera
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={feeds.length >= MAX_FEEDS}
+            className={`px-4 py-2 rounded-lg font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed ${
+              settings.enableDarkMode ? 'bg-gray-700 hover:bg-gray-600 text-white' : 'bg-white hover:bg-gray-50 text-gray-900 border border-gray-300'
+            }`}
+          >
+            <Upload size={16} />
+            Add Videos
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="video/*"
+            multiple
+            onChange={handleVideoFiles}
+            className="hidden"
+          />
+
+          <div className="flex-1"></div>
+
+          {isRunning ? (
+            <button
+              onClick={stopAll}
+              className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg flex items-center gap-2 font-medium transition-colors"
+            >
+              <StopCircle size={16} />
+              Stop All
+            </button>
+          ) : (
+            <button
+              onClick={startAll}
+              disabled={activeFeeds.length === 0}
+              className="px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg flex items-center gap-2 font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Play size={16} />
+              Start All ({activeFeeds.length})
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mt-3 flex items-start gap-2 text-sm text-red-500">
+            <AlertCircle size={16} className="flex-shrink-0 mt-0.5" />
+            <span className="flex-1">{error}</span>
+            <button onClick={() => setError(null)} className="hover:text-red-700">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Combined lot totals */}
+      {feeds.length > 0 && (
+        <div className={`rounded-xl p-6 ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} shadow-xl`}>
+          <h2 className="text-lg font-bold mb-4">Lot Total</h2>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className={`p-4 rounded-lg ${settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+              <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Total Spaces</div>
+              <div className="text-2xl font-bold">{combined.total}</div>
+            </div>
+            <div className={`p-4 rounded-lg ${settings.enableDarkMode ? 'bg-red-900/20 border border-red-800' : 'bg-red-50 border border-red-200'}`}>
+              <div className="text-sm text-red-600 dark:text-red-400 mb-1">Occupied</div>
+              <div className="text-2xl font-bold text-red-600 dark:text-red-400">{combined.occupied}</div>
+            </div>
+            <div className={`p-4 rounded-lg ${settings.enableDarkMode ? 'bg-green-900/20 border border-green-800' : 'bg-green-50 border border-green-200'}`}>
+              <div className="text-sm text-green-600 dark:text-green-400 mb-1">Available</div>
+              <div className="text-2xl font-bold text-green-600 dark:text-green-400">{combined.available}</div>
+            </div>
+            <div className={`p-4 rounded-lg ${settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+              <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Occupancy</div>
+              <div className="text-2xl font-bold">{combined.rate.toFixed(0)}%</div>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {combined.perCamera.map(({ feed, total, occupied, hasResult, rate }) => (
+              <div key={feed.id}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="truncate mr-4">{feed.name}</span>
+                  <span className={settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600'}>
+                    {total === 0 ? 'No regions' : hasResult ? `${occupied}/${total} (${rate.toFixed(0)}%)` : `${total} spaces`}
+                  </span>
+                </div>
+                <div className={`w-full h-2 rounded-full ${settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-200'}`}>
+                  <div
+                    className={`h-2 rounded-full transition-all ${rate > 80 ? 'bg-red-500' : rate > 50 ? 'bg-yellow-500' : 'bg-green-500'}`}
+                    style={{ width: `${rate}%` }}
+                  ></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Feeds */}
+      {feeds.length === 0 ? (
+        <div className={`rounded-xl p-12 text-center ${settings.enableDarkMode ? 'bg-gray-800 text-gray-400' : 'bg-white text-gray-500'} shadow-xl`}>
+          <LayoutGrid size={48} className="mx-auto mb-4" />
+          <p className="text-lg font-medium mb-1">No feeds yet</p>
+          <p className="text-sm">Add cameras or video files, then define parking regions on each feed.</p>
+        </div>
+      ) : (
+        <div className={`grid ${gridColumns} gap-6`}>
+          {feeds.map(feed => (
+            <CameraFeedTile
+              key={feed.id}
+              feed={feed}
+              client={client}
+              isRunning={isRunning}
+              detectionOptions={detectionOptions}
+              detectionInterval={detectionInterval}
+              onRegionsChange={updateFeedRegions}
+              onResult={handleResult}
+              onRemove={removeFeed}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MultiCameraGrid;
@@ -0,0 +1,111 @@
+import React, { useMemo } from 'react';
+import { GanttChartSquare } from 'lucide-react';
+import { useSettings } from '../context/SettingsContext';
+import type { Region } from '../utils/parkingDetection';
+import { AnalysisFrame, buildSpaceIntervals } from '../utils/videoAnalysis';
+import { spaceLabel } from '../utils/spaceLabels';
+
+interface OccupancyTimelineProps {
+  regions: Region[];
+  frames: AnalysisFrame[];
+  duration: number;
+  step?: number;
+  startTimestamp?: number;            // Label the axis with clock times from this epoch ms
+  currentTime: number;
+  highlightedRegionId: string | null;
+  onSeek: (time: number) => void;
+  onHighlight: (regionId: string | null) => void;
+}
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds - minutes * 60).toString().padStart(2, '0')}`;
+};
+
+const OccupancyTimeline: React.FC<OccupancyTimelineProps> = ({
+  regions,
+  frames,
+  duration,
+  step,
+  startTimestamp,
+  currentTime,
+  highlightedRegionId,
+  onSeek,
+  onHighlight,
+}) => {
+  const { settings } = useSettings();
+  const intervals = useMemo(() => buildSpaceIntervals(frames, duration, step), [frames, duration, step]);
+  const span = duration || 1;
+  const mutedText = settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const label = (seconds: number) => startTimestamp !== undefined
+    ? new Date(startTimestamp + seconds * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : formatTime(seconds);
+
+  const seekFromClick = (e: React.MouseEvent<HTMLDivElement>, regionId: string) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(Math.max(0, Math.min(span, ((e.clientX - rect.left) / rect.width) * span)));
+    onHighlight(regionId);
+  };
+
+  return (
+    <div className={`rounded-xl p-6 ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} shadow-xl`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <GanttChartSquare className="w-5 h-5 text-blue-500" />
+          <h2 className="text-lg font-bold">Occupancy Timeline</h2>
+        </div>
+        <div className="flex items-center gap-3 text-xs">
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-red-500" /> Occupied</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-green-500" /> Empty</span>
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        {regions.map((region, index) => (
+          <div key={region.id} className="flex items-center gap-3">
+            <button
+              onClick={() => onHighlight(region.id === highlightedRegionId ? null : region.id)}
+              className={`w-14 shrink-0 text-left text-sm font-medium truncate ${region.id === highlightedRegionId ? 'text-blue-500' : ''}`}
+              title={spaceLabel(region, index)}
+            >
+              {spaceLabel(region, index)}
+            </button>
+            <div
+              onClick={(e) => seekFromClick(e, region.id)}
+              className={`relative flex-1 h-5 rounded cursor-pointer overflow-hidden ${
+                settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-200'
+              } ${region.id === highlightedRegionId ? 'ring-2 ring-blue-500' : ''}`}
+            >
+              {(intervals[region.id] || []).map(interval => (
+                <div
+                  key={interval.start}
+                  className={`absolute top-0 bottom-0 ${interval.occupied ? 'bg-red-500' : 'bg-green-500'}`}
+                  style={{
+                    left: `${(interval.start / span) * 100}%`,
+                    width: `${((interval.end - interval.start) / span) * 100}%`
+                  }}
+                  title={`${interval.occupied ? 'Occupied' : 'Empty'} ${label(interval.start)}–${label(interval.end)}`}
+                />
+              ))}
+              <div
+                className="absolute top-0 bottom-0 w-0.5 bg-white shadow pointer-events-none"
+                style={{ left: `${Math.min(100, (currentTime / span) * 100)}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className={`flex items-center gap-3 text-xs mt-2 ${mutedText}`}>
+        <span className="w-14 shrink-0" />
+        <div className="flex-1 flex justify-between">
+          <span>{label(0)}</span>
+          <span>{label(span / 2)}</span>
+          <span>{label(span)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OccupancyTimeline;
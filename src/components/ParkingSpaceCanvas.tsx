@@ -1,5 +1,7 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { useSettings } from '../context/SettingsContext';
+import type { SpaceAttribute } from '../utils/parkingDetection';
+import { attributeBadges, spaceLabel } from '../utils/spaceLabels';
 
 interface ParkingSpace {
   id: number;
@@ -7,6 +9,9 @@ interface ParkingSpace {
     id: string;
     points: { x: number; y: number; }[];
     type: 'rectangle' | 'quadrilateral';
+    label?: string;
+    zone?: string;
+    attributes?: SpaceAttribute[];
   };
   isOccupied: boolean;
   confidence: number;
@@ -258,11 +263,20 @@ const ParkingSpaceCanvas: React.FC<ParkingSpaceCanvasProps> = ({
         ctx.font = `bold ${fontSize}px -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif`;
         ctx.textAlign = 'center';
         ctx.fillText(
-          `P${space.id + 1}`,
+          spaceLabel(space.region, space.id),
           x + 4 + spaceWidth / 2,
           y + 4 + spaceHeight / 2 - fontSize / 4
         );
       }
+
+      // Attribute badges along the top edge
+      const badges = attributeBadges(space.region);
+      if (showLabels && badges.length > 0 && spaceWidth > 50 && spaceHeight > 40) {
+        ctx.fillStyle = textColor;
+        ctx.font = `bold ${Math.max(6, fontSize * 0.5)}px -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.fillText(badges.join(' '), x + 4 + spaceWidth / 2, y + 4 + Math.max(10, fontSize * 0.7));
+      }
       
       // Draw confidence percentage
       if (showConfidence && spaceWidth > 60 && spaceHeight > 40) {
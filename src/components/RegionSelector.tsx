@@ -1,6 +1,10 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Copy, Clipboard, Undo, Redo, Trash, Square, Octagon as Pentagon, Info } from 'lucide-react';
+import { Copy, Clipboard, Undo, Redo, Trash, Square, Octagon as Pentagon, Info, Download, Upload, Tag, ListOrdered, Wand2 } from 'lucide-react';
 import { create } from 'zustand';
+import { exportRegionLayoutJSON, exportRegionLayoutGeoJSON, parseRegionLayout } from '../utils/regionLayout';
+import type { SpaceAttribute } from '../utils/parkingDetection';
+import { SPACE_ATTRIBUTES, attributeBadges, listZones, numberRegions, readingOrder, spaceLabel, spaceZone } from '../utils/spaceLabels';
+import { suggestSpaces } from '../utils/spaceSuggestion';
 
 interface Point {
   x: number;
@@ -11,8 +15,20 @@ interface Region {
   id: string;
   points: Point[];
   type: 'rectangle' | 'quadrilateral';
+  label?: string;
+  zone?: string;
+  attributes?: SpaceAttribute[];
 }
 
+// An auto-detected space awaiting review; only selected ones are added
+interface SuggestedRegion extends Region {
+  confidence: number;
+  selected: boolean;
+}
+
+// Weaker suggestions start deselected so a noisy image does not flood the layout
+const MIN_SUGGESTION_CONFIDENCE = 0.5;
+
 interface HistoryState {
   past: Region[][];
   present: Region[];
@@ -57,11 +73,13 @@ const useHistory = create<HistoryState>((set) => ({
 interface RegionSelectorProps {
   imageUrl: string;
   onRegionsChange: (regions: Region[]) => void;
+  initialRegions?: Region[]; // Normalized (0-1) regions to start from, e.g. from a lot profile
 }
 
-const RegionSelector: React.FC<RegionSelectorProps> = ({ imageUrl, onRegionsChange }) => {
+const RegionSelector: React.FC<RegionSelectorProps> = ({ imageUrl, onRegionsChange, initialRegions }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const layoutInputRef = useRef<HTMLInputElement>(null);
   const [regions, setRegions] = useState<Region[]>([]);
   const [activeRegion, setActiveRegion] = useState<Region | null>(null);
   const [selectedRegion, setSelectedRegion] = useState<Region | null>(null);
@@ -73,10 +91,15 @@ const RegionSelector: React.FC<RegionSelectorProps> = ({ imageUrl, onRegionsChan
   const history = useHistory();
   const [scale, setScale] = useState(1);
   const [originalSize, setOriginalSize] = useState({ width: 0, height: 0 });
+  const [layoutMessage, setLayoutMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [numbering, setNumbering] = useState({ zone: '', prefix: '', start: 1 });
+  const [suggestions, setSuggestions] = useState<SuggestedRegion[]>([]);
+  const [isSuggesting, setIsSuggesting] = useState(false);
 
   useEffect(() => {
     if (!imageUrl) return;
 
+    setSuggestions([]);
     const img = new Image();
     img.src = imageUrl;
     img.onload = () => {
@@ -96,6 +119,18 @@ const RegionSelector: React.FC<RegionSelectorProps> = ({ imageUrl, onRegionsChan
         canvasRef.current.style.width = `${img.width * newScale}px`;
         canvasRef.current.style.height = `${img.height * newScale}px`;
 
+        if (initialRegions && initialRegions.length > 0) {
+          const pixelRegions = initialRegions.map(region => ({
+            ...region,
+            points: region.points.map(point => ({
+              x: point.x * img.width,
+              y: point.y * img.height
+            }))
+          }));
+          setRegions(pixelRegions);
+          history.addToHistory(pixelRegions);
+        }
+
         redrawCanvas();
       }
     };
@@ -117,8 +152,16 @@ const RegionSelector: React.FC<RegionSelectorProps> = ({ imageUrl, onRegionsChan
     redrawCanvas();
   }, [regions, originalSize]);
 
+  useEffect(() => {
+    redrawCanvas();
+  }, [suggestions]);
+
   useEffect(() => {
     const handleKeyboard = (e: KeyboardEvent) => {
+      // Leave typing in the space details fields alone
+      const target = e.target as HTMLElement | null;
+      if (target && ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return;
+
       if ((e.ctrlKey || e.metaKey) && e.key === 'c' && selectedRegion) {
         setCopiedRegion(selectedRegion);
       } else if ((e.ctrlKey || e.metaKey) && e.key === 'v' && copiedRegion) {
@@ -183,6 +226,41 @@ const RegionSelector: React.FC<RegionSelectorProps> = ({ imageUrl, onRegionsChan
         ctx.shadowBlur = 0;
       });
     });
+
+    suggestions.forEach((suggestion) => {
+      ctx.beginPath();
+      ctx.moveTo(suggestion.points[0].x, suggestion.points[0].y);
+      suggestion.points.forEach((point) => ctx.lineTo(point.x, point.y));
+      ctx.closePath();
+      if (suggestion.selected) {
+        ctx.fillStyle = 'rgba(245, 158, 11, 0.2)';
+        ctx.fill();
+      }
+      ctx.setLineDash([8, 6]);
+      ctx.strokeStyle = suggestion.selected ? '#f59e0b' : 'rgba(156, 163, 175, 0.8)';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+      ctx.setLineDash([]);
+    });
+
+    // Labels last so neighbouring outlines do not cover them
+    const fontSize = Math.max(12, Math.round(canvas.width / 60));
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    regions.forEach((region, index) => {
+      if (region.points.length < 3) return;
+      const cx = region.points.reduce((sum, p) => sum + p.x, 0) / region.points.length;
+      const cy = region.points.reduce((sum, p) => sum + p.y, 0) / region.points.length;
+      const badges = attributeBadges(region);
+      const text = badges.length > 0 ? `${spaceLabel(region, index)} ${badges.join(' ')}` : spaceLabel(region, index);
+      const width = ctx.measureText(text).width + 8;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.fillRect(cx - width / 2, cy - fontSize * 0.7, width, fontSize * 1.4);
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(text, cx, cy);
+    });
+    ctx.textBaseline = 'alphabetic';
   };
 
   const getMousePos = (e: React.MouseEvent): Point => {
@@ -199,6 +277,15 @@ const RegionSelector: React.FC<RegionSelectorProps> = ({ imageUrl, onRegionsChan
   const handleMouseDown = (e: React.MouseEvent) => {
     const pos = getMousePos(e);
 
+    // While reviewing suggestions, clicking one includes or leaves it out
+    const suggestion = suggestions.find(candidate => isPointInRegion(pos, candidate));
+    if (suggestion) {
+      setSuggestions(suggestions.map(candidate =>
+        candidate.id === suggestion.id ? { ...candidate, selected: !candidate.selected } : candidate
+      ));
+      return;
+    }
+
     if (mode === 'edit') {
       for (const region of regions) {
         const pointIndex = region.points.findIndex(point => 
@@ -335,6 +422,7 @@ const RegionSelector: React.FC<RegionSelectorProps> = ({ imageUrl, onRegionsChan
       const newRegion: Region = {
         ...copiedRegion,
         id: Date.now().toString(),
+        label: undefined,               // Keep zone and attributes, but labels should stay unique
         points: copiedRegion.points.map(point => ({
           x: point.x + offset,
           y: point.y + offset
@@ -346,6 +434,103 @@ const RegionSelector: React.FC<RegionSelectorProps> = ({ imageUrl, onRegionsChan
     }
   };
 
+  // Label, zone and attribute edits. Typing skips history until the field loses focus.
+  const updateRegions = (changes: Map<string, Partial<Region>>, recordHistory = true) => {
+    const newRegions = regions.map(region => {
+      const change = changes.get(region.id);
+      return change ? { ...region, ...change } : region;
+    });
+    setRegions(newRegions);
+    if (selectedRegion) {
+      setSelectedRegion(newRegions.find(region => region.id === selectedRegion.id) ?? null);
+    }
+    if (recordHistory) history.addToHistory(newRegions);
+  };
+
+  const updateSelected = (change: Partial<Region>, recordHistory = true) => {
+    if (selectedRegion) updateRegions(new Map([[selectedRegion.id, change]]), recordHistory);
+  };
+
+  const toggleAttribute = (attribute: SpaceAttribute) => {
+    if (!selectedRegion) return;
+    const attributes = selectedRegion.attributes ?? [];
+    updateSelected({
+      attributes: attributes.includes(attribute)
+        ? attributes.filter(a => a !== attribute)
+        : [...attributes, attribute]
+    });
+  };
+
+  const applyNumbering = () => {
+    const targets = numbering.zone
+      ? regions.filter(region => spaceZone(region) === numbering.zone)
+      : regions;
+    const labels = numberRegions(targets, numbering.prefix, numbering.start);
+    updateRegions(new Map(Array.from(labels, ([id, label]) => [id, { label }])));
+  };
+
+  const detectSpaces = async () => {
+    if (!imageUrl || originalSize.width === 0) return;
+    setIsSuggesting(true);
+    setLayoutMessage(null);
+
+    try {
+      const img = new Image();
+      img.src = imageUrl;
+      await img.decode();
+      const { spaces, lines } = await suggestSpaces(img);
+
+      // Spaces already drawn by hand are left alone
+      const found: SuggestedRegion[] = spaces
+        .map(space => ({
+          id: space.id,
+          type: 'quadrilateral' as const,
+          points: space.points.map(point => ({
+            x: point.x * originalSize.width,
+            y: point.y * originalSize.height
+          })),
+          confidence: space.confidence,
+          selected: space.confidence >= MIN_SUGGESTION_CONFIDENCE
+        }))
+        .filter(suggestion => {
+          const cx = suggestion.points.reduce((sum, p) => sum + p.x, 0) / suggestion.points.length;
+          const cy = suggestion.points.reduce((sum, p) => sum + p.y, 0) / suggestion.points.length;
+          return !regions.some(region => isPointInRegion({ x: cx, y: cy }, region));
+        });
+
+      setSuggestions(found);
+      setLayoutMessage(found.length > 0
+        ? { type: 'success', text: `Found ${found.length} possible spaces. Click a suggestion to leave it out.` }
+        : {
+            type: 'error',
+            text: `No new spaces found${lines > 0 ? ` among ${lines} line markings` : ''}. ` +
+              'Auto-detect needs painted lines in a clear image of the empty lot.'
+          });
+    } catch (error) {
+      setLayoutMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to analyse the image'
+      });
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const acceptSuggestions = () => {
+    const accepted: Region[] = readingOrder(suggestions.filter(suggestion => suggestion.selected))
+      .map(({ points, type }, index) => ({
+        id: `${Date.now()}-${index}`,
+        type,
+        points
+      }));
+    const newRegions = [...regions, ...accepted];
+    setRegions(newRegions);
+    history.addToHistory(newRegions);
+    setSuggestions([]);
+    setMode('edit');
+    setLayoutMessage({ type: 'success', text: `Added ${accepted.length} spaces. Drag their corners to adjust them.` });
+  };
+
   const deleteRegion = (regionId: string) => {
     const newRegions = regions.filter(region => region.id !== regionId);
     setRegions(newRegions);
@@ -354,6 +539,80 @@ const RegionSelector: React.FC<RegionSelectorProps> = ({ imageUrl, onRegionsChan
     history.addToHistory(newRegions);
   };
 
+  const getNormalizedRegions = (): Region[] =>
+    regions.map(region => ({
+      ...region,
+      points: region.points.map(point => ({
+        x: point.x / originalSize.width,
+        y: point.y / originalSize.height
+      }))
+    }));
+
+  const exportLayout = (format: 'json' | 'geojson') => {
+    if (regions.length === 0 || originalSize.width === 0) return;
+
+    const normalizedRegions = getNormalizedRegions();
+    const content = format === 'json'
+      ? exportRegionLayoutJSON(normalizedRegions, { imageSize: originalSize })
+      : exportRegionLayoutGeoJSON(normalizedRegions);
+    const blob = new Blob([content], {
+      type: format === 'json' ? 'application/json' : 'application/geo+json'
+    });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `parking-regions-${new Date().toISOString()}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+  };
+
+  const importLayout = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || originalSize.width === 0) return;
+
+    try {
+      const { regions: imported, skipped, format } = parseRegionLayout(await file.text());
+      if (imported.length === 0) {
+        setLayoutMessage({ type: 'error', text: `No valid regions found. ${skipped.join('; ')}` });
+        return;
+      }
+
+      const usedIds = new Set<string>();
+      const pixelRegions: Region[] = imported.map((region, index) => {
+        const id = usedIds.has(region.id) ? `${Date.now()}-${index}` : region.id;
+        usedIds.add(id);
+        return {
+          ...region,
+          id,
+          points: region.points.map(point => ({
+            x: point.x * originalSize.width,
+            y: point.y * originalSize.height
+          }))
+        };
+      });
+
+      setRegions(pixelRegions);
+      setSelectedRegion(null);
+      setActiveRegion(null);
+      history.addToHistory(pixelRegions);
+      setLayoutMessage({
+        type: skipped.length > 0 ? 'error' : 'success',
+        text: `Imported ${pixelRegions.length} regions from ${format === 'geojson' ? 'GeoJSON' : 'JSON'}` +
+          (skipped.length > 0 ? `; skipped ${skipped.length}: ${skipped.join('; ')}` : '')
+      });
+    } catch (error) {
+      setLayoutMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to import layout'
+      });
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex flex-wrap gap-4">
@@ -473,6 +732,8 @@ const RegionSelector: React.FC<RegionSelectorProps> = ({ imageUrl, onRegionsChan
             <ul className="space-y-1 text-xs">
               <li>• <strong>Draw mode:</strong> Click to create new parking space regions</li>
               <li>• <strong>Edit mode:</strong> Click and drag points to adjust regions</li>
+              <li>• <strong>Auto-detect:</strong> Suggests spaces from the painted lines in an empty-lot image</li>
+              <li>• Select a region to set its label, zone and attributes</li>
               <li>• Use keyboard shortcuts: Ctrl+C (copy), Ctrl+V (paste), Ctrl+Z (undo)</li>
             </ul>
           </div>
@@ -494,20 +755,189 @@ const RegionSelector: React.FC<RegionSelectorProps> = ({ imageUrl, onRegionsChan
       <div className="space-y-4">
         <div className="flex items-center justify-between">
           <h3 className="font-semibold">Parking Regions ({regions.length})</h3>
-          {regions.length > 0 && (
+          <div className="flex items-center gap-3">
+            <input
+              ref={layoutInputRef}
+              type="file"
+              accept=".json,.geojson,application/json,application/geo+json"
+              onChange={importLayout}
+              className="hidden"
+            />
+            <button
+              onClick={detectSpaces}
+              disabled={isSuggesting || !imageUrl}
+              className="flex items-center gap-1 text-sm text-blue-500 hover:text-blue-600 disabled:opacity-50 disabled:cursor-wait transition-colors"
+              title="Suggest spaces from painted line markings"
+            >
+              <Wand2 size={14} className={isSuggesting ? 'animate-pulse' : ''} />
+              {isSuggesting ? 'Detecting...' : 'Auto-detect'}
+            </button>
             <button
-              onClick={() => {
-                setRegions([]);
-                setSelectedRegion(null);
-                setActiveRegion(null);
-                history.addToHistory([]);
-              }}
-              className="text-sm text-red-500 hover:text-red-600 transition-colors"
+              onClick={() => layoutInputRef.current?.click()}
+              className="flex items-center gap-1 text-sm text-blue-500 hover:text-blue-600 transition-colors"
+              title="Import layout (JSON or GeoJSON)"
             >
-              Clear All
+              <Upload size={14} />
+              Import
             </button>
-          )}
+            {regions.length > 0 && (
+              <>
+                <button
+                  onClick={() => exportLayout('json')}
+                  className="flex items-center gap-1 text-sm text-blue-500 hover:text-blue-600 transition-colors"
+                  title="Export layout as JSON"
+                >
+                  <Download size={14} />
+                  JSON
+                </button>
+                <button
+                  onClick={() => exportLayout('geojson')}
+                  className="flex items-center gap-1 text-sm text-blue-500 hover:text-blue-600 transition-colors"
+                  title="Export layout as GeoJSON"
+                >
+                  <Download size={14} />
+                  GeoJSON
+                </button>
+                <button
+                  onClick={() => {
+                    setRegions([]);
+                    setSelectedRegion(null);
+                    setActiveRegion(null);
+                    history.addToHistory([]);
+                  }}
+                  className="text-sm text-red-500 hover:text-red-600 transition-colors"
+                >
+                  Clear All
+                </button>
+              </>
+            )}
+          </div>
         </div>
+
+        {layoutMessage && (
+          <p className={`text-xs ${layoutMessage.type === 'error' ? 'text-red-500' : 'text-green-600 dark:text-green-400'}`}>
+            {layoutMessage.text}
+          </p>
+        )}
+
+        {suggestions.length > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-3 p-3 rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 text-sm">
+            <span className="text-amber-800 dark:text-amber-200">
+              {suggestions.filter(suggestion => suggestion.selected).length} of {suggestions.length} suggested spaces selected
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setSuggestions([])}
+                className="px-3 py-1.5 rounded-lg bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 font-medium transition-colors"
+              >
+                Discard
+              </button>
+              <button
+                onClick={acceptSuggestions}
+                disabled={!suggestions.some(suggestion => suggestion.selected)}
+                className="px-3 py-1.5 rounded-lg bg-amber-500 hover:bg-amber-600 disabled:opacity-50 text-white font-medium transition-colors"
+              >
+                Add selected
+              </button>
+            </div>
+          </div>
+        )}
+
+        {selectedRegion && (
+          <div className="p-4 rounded-lg border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 space-y-3">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Tag size={14} className="text-blue-500" />
+              Space {spaceLabel(selectedRegion, regions.findIndex(region => region.id === selectedRegion.id))}
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <label className="text-xs">
+                <span className="block mb-1 text-gray-600 dark:text-gray-400">Label</span>
+                <input
+                  type="text"
+                  value={selectedRegion.label ?? ''}
+                  onChange={(e) => updateSelected({ label: e.target.value || undefined }, false)}
+                  onBlur={() => history.addToHistory(regions)}
+                  placeholder={`P${regions.findIndex(region => region.id === selectedRegion.id) + 1}`}
+                  className="w-full px-2 py-1.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm"
+                />
+              </label>
+              <label className="text-xs">
+                <span className="block mb-1 text-gray-600 dark:text-gray-400">Zone / row</span>
+                <input
+                  type="text"
+                  list="region-zones"
+                  value={selectedRegion.zone ?? ''}
+                  onChange={(e) => updateSelected({ zone: e.target.value || undefined }, false)}
+                  onBlur={() => history.addToHistory(regions)}
+                  placeholder="e.g. Level 1, Row B"
+                  className="w-full px-2 py-1.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm"
+                />
+                <datalist id="region-zones">
+                  {listZones(regions).map(zone => <option key={zone} value={zone} />)}
+                </datalist>
+              </label>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {SPACE_ATTRIBUTES.map(attribute => (
+                <button
+                  key={attribute.id}
+                  onClick={() => toggleAttribute(attribute.id)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                    selectedRegion.attributes?.includes(attribute.id)
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {attribute.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {regions.length > 1 && (
+          <div className="flex flex-wrap items-end gap-2 text-xs">
+            <label>
+              <span className="block mb-1 text-gray-600 dark:text-gray-400">Number spaces in</span>
+              <select
+                value={numbering.zone}
+                onChange={(e) => setNumbering({ ...numbering, zone: e.target.value })}
+                className="px-2 py-1.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm"
+              >
+                <option value="">All spaces</option>
+                {listZones(regions).map(zone => <option key={zone} value={zone}>{zone}</option>)}
+              </select>
+            </label>
+            <label>
+              <span className="block mb-1 text-gray-600 dark:text-gray-400">Prefix</span>
+              <input
+                type="text"
+                value={numbering.prefix}
+                onChange={(e) => setNumbering({ ...numbering, prefix: e.target.value })}
+                placeholder="B-"
+                className="w-20 px-2 py-1.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm"
+              />
+            </label>
+            <label>
+              <span className="block mb-1 text-gray-600 dark:text-gray-400">Start at</span>
+              <input
+                type="number"
+                min={0}
+                value={numbering.start}
+                onChange={(e) => setNumbering({ ...numbering, start: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                className="w-20 px-2 py-1.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm"
+              />
+            </label>
+            <button
+              onClick={applyNumbering}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium transition-colors"
+              title="Label spaces row by row, left to right"
+            >
+              <ListOrdered size={14} />
+              Number
+            </button>
+          </div>
+        )}
         
         {regions.length === 0 ? (
           <div className="text-center py-8 text-gray-500 dark:text-gray-400">
@@ -534,9 +964,14 @@ const RegionSelector: React.FC<RegionSelectorProps> = ({ imageUrl, onRegionsChan
                     <Pentagon size={16} className="text-blue-500" />
                   )}
                   <div>
-                    <span className="font-medium">Region {index + 1}</span>
+                    <span className="font-medium">{spaceLabel(region, index)}</span>
+                    {attributeBadges(region).map(badge => (
+                      <span key={badge} className="ml-1.5 px-1.5 py-0.5 rounded bg-blue-500/15 text-blue-600 dark:text-blue-300 text-[10px] font-semibold">
+                        {badge}
+                      </span>
+                    ))}
                     <p className="text-xs text-gray-500 dark:text-gray-400">
-                      {region.type} • {region.points.length} points
+                      {spaceZone(region) ? `${spaceZone(region)} • ` : ''}{region.type} • {region.points.length} points
                     </p>
                   </div>
                 </div>
@@ -0,0 +1,329 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FileSpreadsheet, Hourglass, Play, Save, Square, Upload, X } from 'lucide-react';
+import { useSettings } from '../context/SettingsContext';
+import type { DetectionOptions, Region } from '../utils/parkingDetection';
+import { saveSession } from '../utils/occupancyStore';
+import type { CsvExportData } from '../utils/csvExport';
+import { TimeLapseFrame, TimeLapseResult, analyseTimeLapse, loadTimeLapseFrames } from '../utils/timeLapse';
+import { frameAt } from '../utils/videoAnalysis';
+import { recordLabel } from '../utils/spaceLabels';
+import OccupancyTimeline from './OccupancyTimeline';
+import CsvExportDialog from './CsvExportDialog';
+
+interface TimeLapsePanelProps {
+  regions: Region[];
+  detectionOptions: Partial<DetectionOptions>;
+  lotId: string | null;
+  lotName: string;
+}
+
+const SOURCE_LABELS: Record<TimeLapseFrame['source'], string> = {
+  exif: 'EXIF',
+  filename: 'File name',
+  modified: 'File date'
+};
+
+const formatSpan = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 120 ? `${minutes} min` : `${(minutes / 60).toFixed(1)} h`;
+};
+
+const TimeLapsePanel: React.FC<TimeLapsePanelProps> = ({
+  regions,
+  detectionOptions,
+  lotId,
+  lotName,
+}) => {
+  const { settings } = useSettings();
+  const [frames, setFrames] = useState<TimeLapseFrame[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<{ index: number; total: number } | null>(null);
+  const [result, setResult] = useState<TimeLapseResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [highlightedRegionId, setHighlightedRegionId] = useState<string | null>(null);
+  const [isSaved, setIsSaved] = useState(false);
+  const [showCsvExport, setShowCsvExport] = useState(false);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const isRunning = progress !== null;
+  const mutedText = settings.enableDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const secondaryButton = `px-3 py-2 rounded-lg flex items-center gap-2 text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+    settings.enableDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'
+  }`;
+
+  // The still shown under the timeline follows the scrubber
+  const selectedFrame = useMemo(() => {
+    if (!result || frames.length === 0) return null;
+    const frame = frameAt(result.frames, currentTime);
+    return frame ? frames[result.frames.indexOf(frame)] ?? null : null;
+  }, [result, frames, currentTime]);
+
+  useEffect(() => {
+    if (!selectedFrame) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(selectedFrame.file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [selectedFrame]);
+
+  const handleFiles = async (files: File[]) => {
+    setIsLoading(true);
+    setError(null);
+    setResult(null);
+    setIsSaved(false);
+    try {
+      const loaded = await loadTimeLapseFrames(files);
+      if (loaded.length < 2) {
+        setError('A time-lapse needs at least two images');
+      }
+      setFrames(loaded);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read images');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const startAnalysis = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setResult(null);
+    setIsSaved(false);
+    setProgress({ index: 0, total: frames.length });
+
+    try {
+      const analysis = await analyseTimeLapse(frames, {
+        regions,
+        lotId,
+        lotName,
+        detectionOptions,
+        signal: controller.signal,
+        onProgress: (index, total) => setProgress({ index, total })
+      });
+      setResult(analysis);
+      setCurrentTime(0);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'Time-lapse analysis failed');
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const saveToDashboard = async () => {
+    if (!result) return;
+    try {
+      await saveSession(result.session);
+      setIsSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the session');
+    }
+  };
+
+  const clearFrames = () => {
+    setFrames([]);
+    setResult(null);
+    setError(null);
+    setIsSaved(false);
+  };
+
+  const getCsvExportData = (): CsvExportData => ({
+    movements: result ? result.session.movements.map(movement => ({ ...movement, lotName })) : [],
+    spaceHistory: result ? result.session.spaceHistory.map(record => ({ ...record, lotName })) : [],
+    samples: result ? result.session.samples.map(sample => ({ ...sample, lotName })) : []
+  });
+
+  const span = frames.length > 1 ? frames[frames.length - 1].timestamp - frames[0].timestamp : 0;
+  const sourceCounts = frames.reduce<Record<string, number>>((counts, frame) => {
+    counts[frame.source] = (counts[frame.source] || 0) + 1;
+    return counts;
+  }, {});
+
+  return (
+    <div className={`${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} p-3 sm:p-4 lg:p-6 rounded-lg shadow-sm sm:shadow-md space-y-4`}>
+      <div className="flex items-center gap-2">
+        <Hourglass className="w-5 h-5 text-blue-500" />
+        <h2 className="text-lg sm:text-xl font-semibold">Time-lapse Sequence</h2>
+      </div>
+
+      <p className={`text-sm ${mutedText}`}>
+        Load periodic stills from one camera. Capture times come from EXIF, a date in the file name,
+        or the file date, and the sequence is analysed in order to build movement and occupancy history.
+      </p>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-500/10 text-red-500 text-sm">{error}</div>
+      )}
+
+      {frames.length === 0 ? (
+        <div
+          className={`border-2 border-dashed rounded-lg p-4 text-center cursor-pointer transition-colors ${
+            settings.enableDarkMode ? 'border-gray-600 hover:border-gray-500' : 'border-gray-300 hover:border-gray-400'
+          }`}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleFiles(Array.from(e.dataTransfer.files));
+          }}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={(e) => {
+              const files = Array.from(e.target.files ?? []);
+              e.target.value = '';
+              handleFiles(files);
+            }}
+            accept="image/*"
+            multiple
+            className="hidden"
+          />
+          <Upload size={28} className="mx-auto mb-2 text-gray-400" />
+          <p className="text-sm font-medium">{isLoading ? 'Reading timestamps...' : 'Drop an image sequence here or click to add'}</p>
+        </div>
+      ) : (
+        <>
+          <div className={`text-sm ${mutedText}`}>
+            {frames.length} images over {formatSpan(span)}, from {new Date(frames[0].timestamp).toLocaleString()}
+            <span className="ml-2 text-xs">
+              ({Object.entries(sourceCounts).map(([source, count]) =>
+                `${SOURCE_LABELS[source as TimeLapseFrame['source']]}: ${count}`).join(', ')})
+            </span>
+          </div>
+
+          {sourceCounts.modified > 0 && (
+            <div className="p-3 rounded-lg bg-amber-500/10 text-amber-500 text-xs">
+              {sourceCounts.modified} images had no EXIF or file-name timestamp and are ordered by file date,
+              which copying or downloading can change.
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            {isRunning ? (
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="px-3 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg flex items-center gap-2 text-sm font-medium transition-colors"
+              >
+                <Square size={14} />
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={startAnalysis}
+                disabled={regions.length === 0 || frames.length < 2}
+                className="px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg flex items-center gap-2 text-sm font-medium transition-colors"
+              >
+                <Play size={14} />
+                {result ? 'Analyse Again' : 'Analyse Sequence'}
+              </button>
+            )}
+            <button onClick={clearFrames} disabled={isRunning} className={secondaryButton}>
+              <X size={14} />
+              Clear
+            </button>
+
+            {result && !isRunning && (
+              <>
+                <div className="flex-1" />
+                <button onClick={saveToDashboard} disabled={isSaved} className={secondaryButton}>
+                  <Save size={14} />
+                  {isSaved ? 'Saved to Dashboard' : 'Save to Dashboard'}
+                </button>
+                <button onClick={() => setShowCsvExport(true)} className={secondaryButton}>
+                  <FileSpreadsheet size={14} />
+                  CSV
+                </button>
+              </>
+            )}
+          </div>
+
+          {regions.length === 0 && (
+            <p className={`text-xs ${mutedText}`}>Draw or load a region layout above before analysing.</p>
+          )}
+
+          {progress && progress.total > 0 && (
+            <div>
+              <div className={`flex justify-between text-xs mb-1 ${mutedText}`}>
+                <span>Image {progress.index} of {progress.total}</span>
+              </div>
+              <div className={`w-full h-2 rounded-full ${settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-200'}`}>
+                <div
+                  className="h-2 rounded-full bg-blue-500 transition-all"
+                  style={{ width: `${(progress.index / progress.total) * 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {result && !isRunning && (
+        <div className="space-y-4">
+          <OccupancyTimeline
+            regions={regions}
+            frames={result.frames}
+            duration={span / 1000}
+            startTimestamp={frames[0].timestamp}
+            currentTime={currentTime}
+            highlightedRegionId={highlightedRegionId}
+            onSeek={setCurrentTime}
+            onHighlight={setHighlightedRegionId}
+          />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {previewUrl && selectedFrame && (
+              <div>
+                <div className={`text-xs mb-1 ${mutedText}`}>
+                  {selectedFrame.file.name} · {new Date(selectedFrame.timestamp).toLocaleString()}
+                </div>
+                <img src={previewUrl} alt={selectedFrame.file.name} className="w-full rounded-lg bg-black object-contain" />
+              </div>
+            )}
+
+            <div>
+              <div className="text-sm font-medium mb-2">
+                {result.session.movements.length} vehicle movements
+              </div>
+              <div className="max-h-64 overflow-y-auto space-y-1">
+                {result.session.movements.map((movement, i) => (
+                  <div key={i} className="flex items-center justify-between text-xs">
+                    <span>
+                      <span className={movement.action === 'entered' ? 'text-red-500' : 'text-green-500'}>
+                        {recordLabel(movement)} {movement.action}
+                      </span>
+                      {movement.duration !== undefined && (
+                        <span className={mutedText}> after {formatSpan(movement.duration)}</span>
+                      )}
+                    </span>
+                    <span className={mutedText}>{new Date(movement.timestamp).toLocaleTimeString()}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showCsvExport && (
+        <CsvExportDialog
+          getData={getCsvExportData}
+          fileNamePrefix="parking-timelapse"
+          onClose={() => setShowCsvExport(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TimeLapsePanel;
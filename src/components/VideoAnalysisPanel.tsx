@@ -0,0 +1,181 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, FileSearch, Play, Square, X } from 'lucide-react';
+import { useSettings } from '../context/SettingsContext';
+import type { DetectionOptions, Region } from '../utils/parkingDetection';
+import {
+  ANALYSIS_STEP_OPTIONS,
+  AnalysisTimeline,
+  analyseVideo,
+  exportTimelineJSON
+} from '../utils/videoAnalysis';
+
+interface VideoAnalysisPanelProps {
+  videoUrl: string;
+  videoName: string;
+  regions: Region[];
+  detectionOptions: Partial<DetectionOptions>;
+  timeline: AnalysisTimeline | null;
+  onComplete: (timeline: AnalysisTimeline) => void;
+  onClose: () => void;
+}
+
+const VideoAnalysisPanel: React.FC<VideoAnalysisPanelProps> = ({
+  videoUrl,
+  videoName,
+  regions,
+  detectionOptions,
+  timeline,
+  onComplete,
+  onClose,
+}) => {
+  const { settings } = useSettings();
+  const [step, setStep] = useState(1);
+  const [progress, setProgress] = useState<{ index: number; total: number; time: number } | null>(null);
+  const [elapsed, setElapsed] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const isRunning = progress !== null;
+  const mutedText = settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600';
+
+  const startAnalysis = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setElapsed(null);
+    setProgress({ index: 0, total: 0, time: 0 });
+
+    const startedAt = performance.now();
+    try {
+      const result = await analyseVideo(videoUrl, videoName, {
+        step,
+        regions,
+        detectionOptions,
+        signal: controller.signal,
+        onProgress: (frame, index, total) => setProgress({ index: index + 1, total, time: frame.time })
+      });
+      setElapsed((performance.now() - startedAt) / 1000);
+      onComplete(result);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'Video analysis failed');
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const exportTimeline = () => {
+    if (!timeline) return;
+    const blob = new Blob([exportTimelineJSON(timeline)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${timeline.videoName.replace(/\.[^.]+$/, '') || 'video'}-analysis.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className={`rounded-xl p-6 ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} shadow-xl space-y-4`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <FileSearch className="w-5 h-5 text-blue-500" />
+          <h2 className="text-lg font-bold">Analyse File</h2>
+        </div>
+        <button onClick={onClose} className="p-1 rounded-lg hover:bg-gray-500/20">
+          <X size={18} />
+        </button>
+      </div>
+
+      <p className={`text-sm ${mutedText}`}>
+        Steps through the video at a fixed interval of media time and runs detection on each frame,
+        so the timeline is the same on every run regardless of playback speed.
+      </p>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-500/10 text-red-500 text-sm">{error}</div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm">
+          Every
+          <select
+            value={step}
+            onChange={(e) => setStep(Number(e.target.value))}
+            disabled={isRunning}
+            className={`px-2 py-1 rounded-lg ${settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}
+          >
+            {ANALYSIS_STEP_OPTIONS.map(option => (
+              <option key={option} value={option}>{option}s</option>
+            ))}
+          </select>
+        </label>
+
+        {isRunning ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg flex items-center gap-2 font-medium transition-colors"
+          >
+            <Square size={14} />
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={startAnalysis}
+            disabled={regions.length === 0}
+            className="px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white rounded-lg flex items-center gap-2 font-medium transition-colors"
+          >
+            <Play size={14} />
+            {timeline ? 'Analyse Again' : 'Start Analysis'}
+          </button>
+        )}
+
+        {timeline && !isRunning && (
+          <button
+            onClick={exportTimeline}
+            className={`px-4 py-2 rounded-lg flex items-center gap-2 font-medium transition-colors ${
+              settings.enableDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+            }`}
+          >
+            <Download size={14} />
+            Timeline JSON
+          </button>
+        )}
+      </div>
+
+      {progress && progress.total > 0 && (
+        <div>
+          <div className={`flex justify-between text-xs mb-1 ${mutedText}`}>
+            <span>Frame {progress.index} of {progress.total}</span>
+            <span>{progress.time.toFixed(1)}s</span>
+          </div>
+          <div className={`w-full h-2 rounded-full ${settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-200'}`}>
+            <div
+              className="h-2 rounded-full bg-blue-500 transition-all"
+              style={{ width: `${(progress.index / progress.total) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {timeline && !isRunning && (
+        <div className={`text-sm ${mutedText}`}>
+          {timeline.frames.length} frames every {timeline.step}s over {timeline.duration.toFixed(1)}s of video
+          {elapsed !== null && elapsed > 0 && (
+            <> in {elapsed.toFixed(1)}s ({(timeline.duration / elapsed).toFixed(1)}× real time)</>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VideoAnalysisPanel;
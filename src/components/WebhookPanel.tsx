@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, Loader2, Send, Trash2, Webhook, XCircle } from 'lucide-react';
+import { useSettings } from '../context/SettingsContext';
+import {
+  WebhookConfig,
+  WebhookStatus,
+  WebhookTestResult,
+  isValidWebhookUrl,
+  sendTestEvent
+} from '../utils/webhook';
+import { EventOrigin, testEvent } from '../utils/occupancyEvents';
+
+interface WebhookPanelProps {
+  config: WebhookConfig;
+  onConfigChange: (config: WebhookConfig) => void;
+  status: WebhookStatus | null;
+  origin: EventOrigin;
+  onClearQueue: () => void;
+}
+
+const WebhookPanel: React.FC<WebhookPanelProps> = ({
+  config,
+  onConfigChange,
+  status,
+  origin,
+  onClearQueue,
+}) => {
+  const { settings } = useSettings();
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<WebhookTestResult | null>(null);
+  // URL and token are edited here and applied on blur or Enter, so the queue
+  // is never delivered to a half-typed address
+  const [draftUrl, setDraftUrl] = useState(config.url);
+  const [draftToken, setDraftToken] = useState(config.token);
+
+  useEffect(() => { setDraftUrl(config.url); }, [config.url]);
+  useEffect(() => { setDraftToken(config.token); }, [config.token]);
+
+  const mutedText = settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const inputClass = `px-2 py-1 rounded text-xs ${settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`;
+  const urlValid = isValidWebhookUrl(config.url);
+  const draftUrlValid = isValidWebhookUrl(draftUrl);
+
+  const update = (changes: Partial<WebhookConfig>) => {
+    onConfigChange({ ...config, ...changes });
+    setTestResult(null);
+  };
+
+  const applyEndpoint = () => {
+    if (draftUrl !== config.url || draftToken !== config.token) update({ url: draftUrl, token: draftToken });
+  };
+
+  const applyOnEnter = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') applyEndpoint();
+  };
+
+  const runTest = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      setTestResult(await sendTestEvent({ ...config, url: draftUrl, token: draftToken }, testEvent(origin)));
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <div className={`rounded-xl p-6 ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} shadow-xl`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Webhook className="w-5 h-5 text-blue-500" />
+          <h2 className="text-lg font-bold">Webhook</h2>
+        </div>
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={config.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            disabled={!config.enabled && !urlValid}
+            className="rounded"
+          />
+          Enabled
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <input
+          type="url"
+          value={draftUrl}
+          onChange={(e) => setDraftUrl(e.target.value.trim())}
+          onBlur={applyEndpoint}
+          onKeyDown={applyOnEnter}
+          placeholder="https://example.com/parking-events"
+          className={`${inputClass} w-full py-2 ${draftUrlValid ? '' : 'ring-1 ring-red-500'}`}
+        />
+        <input
+          type="password"
+          value={draftToken}
+          onChange={(e) => setDraftToken(e.target.value)}
+          onBlur={applyEndpoint}
+          onKeyDown={applyOnEnter}
+          placeholder="Bearer token (optional)"
+          autoComplete="off"
+          className={`${inputClass} w-full py-2`}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs mt-3">
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={config.sendSpaceEvents}
+            onChange={(e) => update({ sendSpaceEvents: e.target.checked })}
+            className="rounded"
+          />
+          Space changes
+        </label>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={config.sendSummaries}
+            onChange={(e) => update({ sendSummaries: e.target.checked })}
+            className="rounded"
+          />
+          Summary every
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="number"
+            min={5}
+            value={config.summaryIntervalSeconds}
+            onChange={(e) => update({ summaryIntervalSeconds: Math.max(5, Number(e.target.value) || 5) })}
+            disabled={!config.sendSummaries}
+            className={`${inputClass} w-16`}
+          />
+          s
+        </label>
+      </div>
+
+      <div className="flex gap-2 mt-3">
+        <button
+          onClick={runTest}
+          disabled={!draftUrlValid || isTesting}
+          className="flex-1 px-3 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg flex items-center justify-center gap-1 text-sm font-medium transition-colors"
+        >
+          {isTesting ? <Loader2 size={14} className="animate-spin" /> : <Send size={14} />}
+          Send Test Event
+        </button>
+        <button
+          onClick={onClearQueue}
+          disabled={!status || status.queued === 0}
+          className={`px-3 py-2 rounded-lg flex items-center gap-1 text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+            settings.enableDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+          }`}
+          title="Discard undelivered events"
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      {testResult && (
+        <div className={`flex items-center gap-2 text-xs mt-3 ${testResult.ok ? 'text-green-500' : 'text-red-500'}`}>
+          {testResult.ok ? <CheckCircle size={14} /> : <XCircle size={14} />}
+          {testResult.ok
+            ? `Delivered, HTTP ${testResult.status} in ${Math.round(testResult.elapsedMs)} ms`
+            : testResult.error}
+        </div>
+      )}
+
+      {status && (
+        <div className={`text-xs mt-3 space-y-1 ${mutedText}`}>
+          <div>
+            {status.queued} queued
+            {status.delivering && ' · sending...'}
+            {status.lastDeliveredAt && ` · last delivered ${new Date(status.lastDeliveredAt).toLocaleTimeString()}`}
+          </div>
+          {status.lastError && (
+            <div className="text-red-500">
+              {status.lastError}
+              {status.nextRetryAt && `, retrying at ${new Date(status.nextRetryAt).toLocaleTimeString()}`}
+              {status.paused && ', delivery paused. Check the URL and token, then apply them again.'}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WebhookPanel;
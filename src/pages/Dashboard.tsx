@@ -1,6 +1,6 @@
-import React from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { useSettings } from '../context/SettingsContext';
-import { Car, CarIcon, AlertTriangle, Gauge } from 'lucide-react';
+import { Car, CarIcon, ArrowLeftRight, Gauge, FileSpreadsheet } from 'lucide-react';
 import { 
   Chart as ChartJS, 
   CategoryScale, 
@@ -13,6 +13,17 @@ import {
   ArcElement 
 } from 'chart.js';
 import { Line, Pie } from 'react-chartjs-2';
+import {
+  DateRange,
+  DetectionSession,
+  filterSessions,
+  listSessions,
+  spaceKey,
+  summarizeSessions
+} from '../utils/occupancyStore';
+import type { CsvExportData } from '../utils/csvExport';
+import CsvExportDialog from '../components/CsvExportDialog';
+import { recordLabel } from '../utils/spaceLabels';
 
 ChartJS.register(
   CategoryScale,
@@ -25,19 +36,74 @@ ChartJS.register(
   ArcElement
 );
 
+const UNSAVED_LOT = '__unsaved__';
+const DEFAULT_RANGE_DAYS = 7;
+
+const toDateInput = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+};
+
 const Dashboard: React.FC = () => {
   const { settings } = useSettings();
-  
-  // Mock data for the dashboard
+  const [sessions, setSessions] = useState<DetectionSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedLot, setSelectedLot] = useState<string>('all');
+  const [fromDate, setFromDate] = useState(() =>
+    toDateInput(new Date(Date.now() - (DEFAULT_RANGE_DAYS - 1) * 24 * 60 * 60 * 1000))
+  );
+  const [toDate, setToDate] = useState(() => toDateInput(new Date()));
+  const [showCsvExport, setShowCsvExport] = useState(false);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load recorded sessions'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const lotOptions = useMemo(() => {
+    const lots = new Map<string, string>();
+    sessions.forEach(session => {
+      lots.set(session.lotId ?? UNSAVED_LOT, session.lotId ? session.lotName : 'Unsaved lots');
+    });
+    return Array.from(lots.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [sessions]);
+
+  const range: DateRange = useMemo(() => ({
+    from: new Date(`${fromDate}T00:00:00`).getTime(),
+    to: new Date(`${toDate}T23:59:59.999`).getTime()
+  }), [fromDate, toDate]);
+
+  const filteredSessions = useMemo(() => {
+    const lotId = selectedLot === 'all' ? 'all' : selectedLot === UNSAVED_LOT ? null : selectedLot;
+    return filterSessions(sessions, lotId, range);
+  }, [sessions, selectedLot, range]);
+
+  const summary = useMemo(() => summarizeSessions(filteredSessions, range), [filteredSessions, range]);
+
+  const getCsvExportData = useCallback((): CsvExportData => ({
+    movements: filteredSessions.flatMap(session =>
+      session.movements.map(movement => ({ ...movement, lotName: session.lotName }))),
+    spaceHistory: filteredSessions.flatMap(session =>
+      session.spaceHistory.map(record => ({ ...record, lotName: session.lotName }))),
+    samples: filteredSessions.flatMap(session =>
+      session.samples.map(sample => ({ ...sample, lotName: session.lotName })))
+  }), [filteredSessions]);
+
+  const hasData = summary.sessionCount > 0 && summary.totalSpaces > 0;
+
   const occupancyData = {
-    labels: ['8:00', '9:00', '10:00', '11:00', '12:00', '13:00', '14:00', '15:00', '16:00'],
+    labels: summary.hourlyOccupancy.map((_, hour) => `${hour}:00`),
     datasets: [
       {
         label: 'Occupancy Rate (%)',
-        data: [25, 40, 65, 80, 75, 80, 85, 70, 55],
+        data: summary.hourlyOccupancy,
         borderColor: 'rgb(59, 130, 246)',
         backgroundColor: 'rgba(59, 130, 246, 0.5)',
         tension: 0.3,
+        spanGaps: true,
       },
     ],
   };
@@ -46,7 +112,7 @@ const Dashboard: React.FC = () => {
     labels: ['Occupied', 'Available'],
     datasets: [
       {
-        data: [65, 35],
+        data: [summary.occupied, summary.available],
         backgroundColor: [
           'rgba(239, 68, 68, 0.7)',
           'rgba(34, 197, 94, 0.7)',
@@ -60,34 +126,92 @@ const Dashboard: React.FC = () => {
     ],
   };
 
+  const inputClass = `px-3 py-2 rounded-lg border text-sm ${
+    settings.enableDarkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+
   return (
     <div className={`${settings.enableDarkMode ? 'text-white' : 'text-gray-800'}`}>
-      <h1 className="text-2xl font-bold mb-6">Dashboard</h1>
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mb-6">
+        <h1 className="text-2xl font-bold">Dashboard</h1>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={selectedLot} onChange={(e) => setSelectedLot(e.target.value)} className={inputClass}>
+            <option value="all">All lots</option>
+            {lotOptions.map(([id, name]) => (
+              <option key={id} value={id}>{name}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={fromDate}
+            max={toDate}
+            onChange={(e) => e.target.value && setFromDate(e.target.value)}
+            className={inputClass}
+          />
+          <span className={settings.enableDarkMode ? 'text-gray-400' : 'text-gray-500'}>to</span>
+          <input
+            type="date"
+            value={toDate}
+            min={fromDate}
+            onChange={(e) => e.target.value && setToDate(e.target.value)}
+            className={inputClass}
+          />
+          <button
+            onClick={() => setShowCsvExport(true)}
+            disabled={!hasData}
+            className="px-3 py-2 bg-purple-500 hover:bg-purple-600 disabled:opacity-50 text-white rounded-lg flex items-center gap-2 text-sm font-medium transition-colors"
+          >
+            <FileSpreadsheet size={16} />
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      {showCsvExport && (
+        <CsvExportDialog
+          getData={getCsvExportData}
+          fileNamePrefix="parking-sessions"
+          initialRange={range}
+          onClose={() => setShowCsvExport(false)}
+        />
+      )}
+
+      {error && (
+        <div className="mb-6 p-3 bg-red-500 bg-opacity-20 border border-red-500 text-red-500 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {!isLoading && !hasData && !error && (
+        <div className={`mb-6 p-4 rounded-lg text-sm ${settings.enableDarkMode ? 'bg-gray-800 text-gray-300' : 'bg-white text-gray-600'} shadow`}>
+          No recorded detection sessions for this lot and date range. Run Live Detection to start collecting occupancy data.
+        </div>
+      )}
       
       {/* Stats overview */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
         <StatCard 
           title="Total Spaces" 
-          value="120" 
+          value={summary.totalSpaces.toString()} 
           icon={<CarIcon className="text-blue-500" size={24} />} 
           darkMode={settings.enableDarkMode}
         />
         <StatCard 
           title="Available Spaces" 
-          value="42" 
+          value={summary.available.toString()} 
           icon={<Car className="text-green-500" size={24} />} 
           darkMode={settings.enableDarkMode}
         />
         <StatCard 
-          title="Occupancy Rate" 
-          value="65%" 
+          title="Avg. Occupancy Rate" 
+          value={`${Math.round(summary.averageOccupancyRate)}%`} 
           icon={<Gauge className="text-amber-500" size={24} />} 
           darkMode={settings.enableDarkMode}
         />
         <StatCard 
-          title="Alert Conditions" 
-          value="0" 
-          icon={<AlertTriangle className="text-red-500" size={24} />} 
+          title="Vehicle Movements" 
+          value={summary.movements.length.toString()} 
+          icon={<ArrowLeftRight className="text-red-500" size={24} />} 
           darkMode={settings.enableDarkMode}
         />
       </div>
@@ -95,7 +219,7 @@ const Dashboard: React.FC = () => {
       {/* Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className={`col-span-2 p-4 rounded-lg ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} shadow`}>
-          <h2 className="text-xl font-semibold mb-4">Occupancy Trend</h2>
+          <h2 className="text-xl font-semibold mb-4">Occupancy by Hour of Day</h2>
           <Line 
             data={occupancyData} 
             options={{
@@ -136,7 +260,7 @@ const Dashboard: React.FC = () => {
         </div>
         
         <div className={`p-4 rounded-lg ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} shadow`}>
-          <h2 className="text-xl font-semibold mb-4">Current Occupancy</h2>
+          <h2 className="text-xl font-semibold mb-4">Latest Occupancy</h2>
           <div className="aspect-square flex items-center justify-center">
             <Pie 
               data={pieData} 
@@ -169,11 +293,23 @@ const Dashboard: React.FC = () => {
               </tr>
             </thead>
             <tbody className={`divide-y ${settings.enableDarkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
-              <ActivityRow time="16:45" event="Zone A scan completed" status="Success" darkMode={settings.enableDarkMode} />
-              <ActivityRow time="16:30" event="Weather compensation activated" status="Info" darkMode={settings.enableDarkMode} />
-              <ActivityRow time="16:15" event="Non-vehicle object filtered" status="Info" darkMode={settings.enableDarkMode} />
-              <ActivityRow time="16:00" event="Zone B scan completed" status="Success" darkMode={settings.enableDarkMode} />
-              <ActivityRow time="15:45" event="Low light condition detected" status="Warning" darkMode={settings.enableDarkMode} />
+              {summary.movements.length === 0 ? (
+                <tr>
+                  <td colSpan={3} className={`px-6 py-4 text-sm text-center ${settings.enableDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    No vehicle movements recorded
+                  </td>
+                </tr>
+              ) : (
+                summary.movements.slice(0, 10).map((movement, index) => (
+                  <ActivityRow
+                    key={`${movement.timestamp}-${spaceKey(movement)}-${index}`}
+                    time={new Date(movement.timestamp).toLocaleString()}
+                    event={`${movement.camera ? `${movement.camera} ` : ''}${recordLabel(movement)} vehicle ${movement.action}${movement.vehicleType ? ` (${movement.vehicleType})` : ''}`}
+                    status={movement.action === 'entered' ? 'Info' : 'Success'}
+                    darkMode={settings.enableDarkMode}
+                  />
+                ))
+              )}
             </tbody>
           </table>
         </div>
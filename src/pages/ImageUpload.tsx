@@ -1,13 +1,20 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { useSettings } from '../context/SettingsContext';
 import { Upload, X, Search, Download, Image as ImageIcon, AlertCircle, Maximize2, Minimize2 } from 'lucide-react';
-import { detectParkingSpaces } from '../utils/parkingDetection';
+import { ParkingDetector, SpaceAttribute } from '../utils/parkingDetection';
 import RegionSelector from '../components/RegionSelector';
+import LotProfilePicker from '../components/LotProfilePicker';
+import BatchProcessor from '../components/BatchProcessor';
+import TimeLapsePanel from '../components/TimeLapsePanel';
+import { LotProfile, LotProfileSnapshot } from '../utils/lotProfiles';
 
 interface Region {
   id: string;
   points: { x: number; y: number; }[];
   type: 'rectangle' | 'quadrilateral';
+  label?: string;
+  zone?: string;
+  attributes?: SpaceAttribute[];
 }
 
 interface DetectionResult {
@@ -31,6 +38,7 @@ interface ParkingSpace {
 const ImageUpload: React.FC = () => {
   const { settings, isMobile, isTablet } = useSettings();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const detectorRef = useRef<ParkingDetector | null>(null);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [processedImage, setProcessedImage] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
@@ -40,6 +48,8 @@ const ImageUpload: React.FC = () => {
   const [previousResults, setPreviousResults] = useState<DetectionResult | null>(null);
   const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [activeProfile, setActiveProfile] = useState<LotProfile | null>(null);
+  const [profileLoadCount, setProfileLoadCount] = useState(0);
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -108,6 +118,14 @@ const ImageUpload: React.FC = () => {
     reader.readAsDataURL(file);
   };
 
+  // This page keeps its own frame history, separate from live detection
+  useEffect(() => {
+    return () => {
+      detectorRef.current?.dispose();
+      detectorRef.current = null;
+    };
+  }, []);
+
   const handleProcess = async () => {
     try {
       if (!selectedImage) {
@@ -123,10 +141,16 @@ const ImageUpload: React.FC = () => {
       setIsProcessing(true);
       setError(null);
 
-      const result = await detectParkingSpaces(
+      if (!detectorRef.current) detectorRef.current = new ParkingDetector();
+      const result = await detectorRef.current.detect(
         selectedImage,
         regions,
-        previousResults?.spaces || []
+        previousResults?.spaces || [],
+        {
+          ...settings,
+          configOverrides: activeProfile?.configOverrides,
+          backgroundModel: activeProfile?.backgroundModel
+        }
       );
 
       setPreviousResults(result);
@@ -143,6 +167,7 @@ const ImageUpload: React.FC = () => {
     setSelectedImage(null);
     setProcessedImage(null);
     setPreviousResults(null);
+    detectorRef.current?.reset();
     setError(null);
     setRegions([]);
     setImageSize(null);
@@ -163,6 +188,32 @@ const ImageUpload: React.FC = () => {
     document.body.removeChild(link);
   };
 
+  const loadLotProfile = (profile: LotProfile) => {
+    setActiveProfile(profile);
+    setProfileLoadCount(prev => prev + 1);
+    setPreviousResults(null);
+    setProcessedImage(null);
+    setError(null);
+
+    // Keep the snapshot the user already picked; otherwise start from the lot's reference image
+    if (!selectedImage && profile.referenceImage) {
+      const img = new Image();
+      img.onload = () => {
+        setImageSize({ width: img.width, height: img.height });
+        setSelectedImage(profile.referenceImage);
+      };
+      img.src = profile.referenceImage;
+    }
+  };
+
+  const getProfileSnapshot = (): LotProfileSnapshot => ({
+    referenceImage: selectedImage,
+    regions,
+    configOverrides: activeProfile?.configOverrides ?? {},
+    cameraSource: activeProfile?.cameraSource ?? { kind: 'image' },
+    backgroundModel: activeProfile?.backgroundModel
+  });
+
   const toggleFullscreen = () => {
     setIsFullscreen(!isFullscreen);
   };
@@ -189,6 +240,18 @@ const ImageUpload: React.FC = () => {
       <div className={`grid grid-cols-1 ${isFullscreen ? '' : 'lg:grid-cols-2'} gap-4 sm:gap-6`}>
         <div className={`${isFullscreen ? 'col-span-full' : ''} ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} p-3 sm:p-4 lg:p-6 rounded-lg shadow-sm sm:shadow-md`}>
           <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">Upload Image</h2>
+
+          <div className="mb-3 sm:mb-4">
+            <LotProfilePicker
+              activeProfileId={activeProfile?.id ?? null}
+              onLoad={loadLotProfile}
+              onSave={setActiveProfile}
+              onDelete={(profileId) => {
+                if (activeProfile?.id === profileId) setActiveProfile(null);
+              }}
+              getSnapshot={getProfileSnapshot}
+            />
+          </div>
           
           {error && (
             <div className="mb-3 sm:mb-4 p-3 bg-red-500 bg-opacity-20 border border-red-500 text-red-500 rounded-lg flex items-start gap-2">
@@ -244,8 +307,10 @@ const ImageUpload: React.FC = () => {
 
               {!isFullscreen && (
                 <RegionSelector
+                  key={profileLoadCount}
                   imageUrl={selectedImage}
                   onRegionsChange={setRegions}
+                  initialRegions={activeProfile?.regions}
                 />
               )}
               
@@ -351,6 +416,31 @@ const ImageUpload: React.FC = () => {
           </div>
         )}
       </div>
+
+      {!isFullscreen && (
+        <BatchProcessor
+          regions={regions}
+          detectionOptions={{
+            ...settings,
+            configOverrides: activeProfile?.configOverrides,
+            backgroundModel: activeProfile?.backgroundModel
+          }}
+          onUseAsLayout={handleFile}
+        />
+      )}
+
+      {!isFullscreen && (
+        <TimeLapsePanel
+          regions={regions}
+          detectionOptions={{
+            ...settings,
+            configOverrides: activeProfile?.configOverrides,
+            backgroundModel: activeProfile?.backgroundModel
+          }}
+          lotId={activeProfile?.id ?? null}
+          lotName={activeProfile?.name ?? 'Unsaved lot'}
+        />
+      )}
     </div>
   );
 };
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import Webcam from 'react-webcam';
 import { useSettings } from '../context/SettingsContext';
 import {
@@ -20,6 +20,7 @@ import {
   Activity,
   Eye,
   EyeOff,
+  Tv,
   Camera,
   Settings as SettingsIcon,
   Maximize2,
@@ -39,16 +40,94 @@ import {
   CheckSquare,
   Info,
   TrendingUp,
-  BarChart3
+  BarChart3,
+  LayoutGrid,
+  Aperture,
+  Trash2,
+  SlidersHorizontal,
+  ClipboardCheck,
+  FileSearch,
+  FileSpreadsheet,
+  CircleDot
 } from 'lucide-react';
-import { detectParkingSpaces } from '../utils/parkingDetection';
+import { createDetectionClient, DetectionClient, DetectionMode } from '../utils/detectionClient';
 import RegionSelector from '../components/RegionSelector';
 import ParkingSpaceCanvas from '../components/ParkingSpaceCanvas';
+import LotProfilePicker from '../components/LotProfilePicker';
+import MultiCameraGrid from '../components/MultiCameraGrid';
+import CalibrationWizard from '../components/CalibrationWizard';
+import EvaluationPanel from '../components/EvaluationPanel';
+import VideoAnalysisPanel from '../components/VideoAnalysisPanel';
+import OccupancyTimeline from '../components/OccupancyTimeline';
+import CsvExportDialog from '../components/CsvExportDialog';
+import AlertRulesPanel from '../components/AlertRulesPanel';
+import WebhookPanel from '../components/WebhookPanel';
+import MqttPanel from '../components/MqttPanel';
+import {
+  CameraConstraints,
+  DEFAULT_CAMERA_CONSTRAINTS,
+  FRAME_RATE_OPTIONS,
+  RESOLUTION_PRESETS,
+  VideoInputDevice,
+  buildVideoConstraints,
+  listVideoInputDevices,
+  watchVideoInputDevices
+} from '../utils/cameraDevices';
+import { LotProfile, LotProfileSnapshot, updateLotProfile } from '../utils/lotProfiles';
+import { BackgroundModel, pruneBackgroundModel } from '../utils/backgroundModel';
+import type { DetectionConfig, DetectorSettings, SpaceAttribute } from '../utils/parkingDetection';
+import { EvaluationSample, GroundTruth, alignGroundTruth, createGroundTruth } from '../utils/evaluation';
+import { AnalysisFrame, AnalysisTimeline, frameAt } from '../utils/videoAnalysis';
+import type { CsvExportData } from '../utils/csvExport';
+import { AnnotatedRecording, isRecordingSupported, startAnnotatedRecording } from '../utils/annotatedRecorder';
+import {
+  AlertEvent,
+  AlertRule,
+  createAlertState,
+  evaluateAlertRules,
+  loadAlertRules,
+  playAlertSound,
+  saveAlertRules,
+  showDesktopNotification
+} from '../utils/alerts';
+import {
+  WebhookClient,
+  WebhookConfig,
+  WebhookStatus,
+  createWebhookClient,
+  loadWebhookConfig,
+  saveWebhookConfig
+} from '../utils/webhook';
+import {
+  MqttConfig,
+  MqttPublisher,
+  MqttStatus,
+  createMqttPublisher,
+  loadMqttConfig,
+  saveMqttConfig
+} from '../utils/mqttPublisher';
+import { EventOrigin, lotSummaryEvent, spaceChangeEvents } from '../utils/occupancyEvents';
+import { createLiveStatusSnapshot, publishLiveStatus, statusPagePath } from '../utils/lotStatus';
+import { attributeBadges, countByZone, hasZones, recordLabel, spaceLabel } from '../utils/spaceLabels';
+import {
+  DetectionSession,
+  VehicleMovement,
+  SpaceOccupancyHistory,
+  createSession,
+  recordSample,
+  recordMovements,
+  saveSession,
+  detectMovements,
+  applyMovements
+} from '../utils/occupancyStore';
 
 interface Region {
   id: string;
   points: { x: number; y: number }[];
   type: 'rectangle' | 'quadrilateral';
+  label?: string;
+  zone?: string;
+  attributes?: SpaceAttribute[];
 }
 
 interface ParkingSpace {
@@ -70,6 +149,7 @@ interface ParkingSpace {
     motionScore: number;
     shadowScore: number;
     stabilityScore: number;
+    backgroundDeviation?: number;
   };
 }
 
@@ -81,28 +161,21 @@ interface DetectionResult {
   image?: string;
   processingTime?: number;
   timestamp?: number;
-}
-
-interface VehicleMovement {
-  spaceId: number;
-  timestamp: number;
-  action: 'entered' | 'exited';
-  confidence: number;
-  vehicleType?: string;
-  duration?: number;
-}
-
-interface SpaceOccupancyHistory {
-  spaceId: number;
-  enterTime?: number;
-  exitTime?: number;
-  totalOccupiedTime: number;
-  occupancyCount: number;
+  backgroundModel?: BackgroundModel;
 }
 
 const DETECTION_INTERVAL = 1000;
 const VIDEO_HEALTH_CHECK_INTERVAL = 2000;
 const VIDEO_LOAD_TIMEOUT = 20000;
+const SESSION_SAVE_EVERY = 10; // Persist the recorded session every N detections
+
+// Empty-lot captures run on a throwaway detector, as a one-off still
+const BACKGROUND_CAPTURE_CHANNEL = 'background-capture';
+const BACKGROUND_CAPTURE_SETTINGS: Partial<DetectorSettings> = {
+  useMotionDetection: false,
+  useTemporalSmoothing: false,
+  skipFastFrames: false
+};
 
 const LiveDetection: React.FC = () => {
   const { settings, isMobile } = useSettings();
@@ -114,6 +187,10 @@ const LiveDetection: React.FC = () => {
   const [isFullscreen, setIsFullscreen] = useState(false);
 
   const [hasCamera, setHasCamera] = useState(true);
+  const [videoDevices, setVideoDevices] = useState<VideoInputDevice[]>([]);
+  const [cameraConstraints, setCameraConstraints] = useState<CameraConstraints>(DEFAULT_CAMERA_CONSTRAINTS);
+  const [cameraStatus, setCameraStatus] = useState<'connecting' | 'live' | 'disconnected'>('connecting');
+  const [webcamKey, setWebcamKey] = useState(0);
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [isVideoMode, setIsVideoMode] = useState(false);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
@@ -146,6 +223,33 @@ const LiveDetection: React.FC = () => {
   const [referenceImageDimensions, setReferenceImageDimensions] = useState<{ width: number; height: number } | null>(null);
   const [regionsApplied, setRegionsApplied] = useState(false);
   const [autoStartEnabled, setAutoStartEnabled] = useState(true);
+  const [activeProfile, setActiveProfile] = useState<LotProfile | null>(null);
+  const [profileRegions, setProfileRegions] = useState<Region[] | undefined>(undefined);
+  const [profileLoadCount, setProfileLoadCount] = useState(0);
+  const [viewMode, setViewMode] = useState<'single' | 'multi'>('single');
+  const [backgroundModel, setBackgroundModel] = useState<BackgroundModel>({});
+  const [learnBackground, setLearnBackground] = useState(false);
+  const [isCapturingBackground, setIsCapturingBackground] = useState(false);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [evaluationMode, setEvaluationMode] = useState(false);
+  const [groundTruth, setGroundTruth] = useState<GroundTruth | null>(null);
+  const [evaluationSamples, setEvaluationSamples] = useState<EvaluationSample[]>([]);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [videoTime, setVideoTime] = useState(0);
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [analysisTimeline, setAnalysisTimeline] = useState<AnalysisTimeline | null>(null);
+  const [playbackFrames, setPlaybackFrames] = useState<AnalysisFrame[]>([]);
+  const [videoDuration, setVideoDuration] = useState(0);
+  const [highlightedRegionId, setHighlightedRegionId] = useState<string | null>(null);
+  const [showCsvExport, setShowCsvExport] = useState(false);
+  const [recordingStartedAt, setRecordingStartedAt] = useState<number | null>(null);
+  const [recordingElapsed, setRecordingElapsed] = useState(0);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadAlertRules);
+  const [recentAlerts, setRecentAlerts] = useState<AlertEvent[]>([]);
+  const [webhookConfig, setWebhookConfig] = useState<WebhookConfig>(loadWebhookConfig);
+  const [webhookStatus, setWebhookStatus] = useState<WebhookStatus | null>(null);
+  const [mqttConfig, setMqttConfig] = useState<MqttConfig>(loadMqttConfig);
+  const [mqttStatus, setMqttStatus] = useState<MqttStatus | null>(null);
 
   const [showCanvas, setShowCanvas] = useState(true);
   const [canvasSettings, setCanvasSettings] = useState({
@@ -159,8 +263,9 @@ const LiveDetection: React.FC = () => {
   const [performanceMetrics, setPerformanceMetrics] = useState({
     fps: 0,
     processingTime: 0,
-    accuracy: 0,
+    avgConfidence: 0,
   });
+  const [pipelineMode, setPipelineMode] = useState<DetectionMode | null>(null);
 
   const webcamRef = useRef<Webcam>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -176,16 +281,116 @@ const LiveDetection: React.FC = () => {
   const streamRef = useRef<MediaStream | null>(null);
   const videoElementReadyRef = useRef(false);
   const previousSpacesRef = useRef<ParkingSpace[]>([]);
+  const sessionRef = useRef<DetectionSession | null>(null);
+  const lastSessionRef = useRef<DetectionSession | null>(null); // Kept after stopping for exports
+  const detectionClientRef = useRef<DetectionClient | null>(null);
+  const backgroundDirtyRef = useRef(false); // Learned baselines not yet saved to the lot
+  const isReplayingRef = useRef(false);
+  const lastReplayTimeRef = useRef<number | null>(null); // Video time of the latest evaluation sample
+  const recordingRef = useRef<AnnotatedRecording | null>(null);
+  const alertStateRef = useRef(createAlertState());
+  const webhookClientRef = useRef<WebhookClient | null>(null);
+  const lastSummarySentRef = useRef(0);
+  const mqttPublisherRef = useRef<MqttPublisher | null>(null);
 
   const isStreamingRef = useRef(isStreaming);
   const regionsRef = useRef(regions);
   const isVideoModeRef = useRef(isVideoMode);
   const regionsAppliedRef = useRef(regionsApplied);
+  const settingsRef = useRef(settings);
+  const activeProfileRef = useRef(activeProfile);
+  const cameraStatusRef = useRef(cameraStatus);
+  const cameraConstraintsRef = useRef(cameraConstraints);
+  const backgroundModelRef = useRef(backgroundModel);
+  const learnBackgroundRef = useRef(learnBackground);
+  const detectionResultsRef = useRef(detectionResults);
+  const recentMovementsRef = useRef(recentMovements);
+  // Updated with each movement rather than after render, so exits time against the latest entry
+  const spaceHistoryRef = useRef(spaceOccupancyHistory);
+  const showOverlaysRef = useRef(showOverlays);
+  const alertRulesRef = useRef(alertRules);
+  const audioEnabledRef = useRef(audioEnabled);
+  const webhookConfigRef = useRef(webhookConfig);
+  const mqttConfigRef = useRef(mqttConfig);
 
   useEffect(() => { isStreamingRef.current = isStreaming; }, [isStreaming]);
   useEffect(() => { regionsRef.current = regions; }, [regions]);
   useEffect(() => { isVideoModeRef.current = isVideoMode; }, [isVideoMode]);
   useEffect(() => { regionsAppliedRef.current = regionsApplied; }, [regionsApplied]);
+  useEffect(() => { settingsRef.current = settings; }, [settings]);
+  useEffect(() => { activeProfileRef.current = activeProfile; }, [activeProfile]);
+  useEffect(() => { cameraStatusRef.current = cameraStatus; }, [cameraStatus]);
+  useEffect(() => { cameraConstraintsRef.current = cameraConstraints; }, [cameraConstraints]);
+  useEffect(() => { backgroundModelRef.current = backgroundModel; }, [backgroundModel]);
+  useEffect(() => { learnBackgroundRef.current = learnBackground; }, [learnBackground]);
+  useEffect(() => { isReplayingRef.current = isReplaying; }, [isReplaying]);
+  useEffect(() => { detectionResultsRef.current = detectionResults; }, [detectionResults]);
+  useEffect(() => { recentMovementsRef.current = recentMovements; }, [recentMovements]);
+  useEffect(() => { showOverlaysRef.current = showOverlays; }, [showOverlays]);
+  useEffect(() => { alertRulesRef.current = alertRules; }, [alertRules]);
+  useEffect(() => { audioEnabledRef.current = audioEnabled; }, [audioEnabled]);
+  useEffect(() => { saveAlertRules(alertRules); }, [alertRules]);
+  useEffect(() => {
+    webhookConfigRef.current = webhookConfig;
+    saveWebhookConfig(webhookConfig);
+  }, [webhookConfig]);
+
+  // Enabling, or applying a new URL or token, delivers whatever was queued before
+  useEffect(() => {
+    if (webhookConfig.enabled) webhookClientRef.current?.drain();
+  }, [webhookConfig.enabled, webhookConfig.url, webhookConfig.token]);
+
+  useEffect(() => {
+    const client = createWebhookClient(() => webhookConfigRef.current, setWebhookStatus);
+    webhookClientRef.current = client;
+    client.drain();
+    return () => {
+      client.dispose();
+      webhookClientRef.current = null;
+    };
+  }, []);
+
+  const getEventOrigin = useCallback((): EventOrigin => ({
+    lotId: activeProfileRef.current?.id ?? null,
+    lotName: activeProfileRef.current?.name ?? 'Unsaved lot'
+  }), []);
+
+  useEffect(() => {
+    const publisher = createMqttPublisher(() => mqttConfigRef.current, getEventOrigin, setMqttStatus);
+    mqttPublisherRef.current = publisher;
+    return () => {
+      publisher.dispose();
+      mqttPublisherRef.current = null;
+    };
+  }, [getEventOrigin]);
+
+  useEffect(() => {
+    mqttConfigRef.current = mqttConfig;
+    saveMqttConfig(mqttConfig);
+  }, [mqttConfig]);
+
+  // Broker, credentials and the lot topic are fixed per session, so applying
+  // new ones (MqttPanel commits them on blur or Enter) reconnects once
+  useEffect(() => {
+    const publisher = mqttPublisherRef.current;
+    if (!publisher) return;
+    publisher.stop();
+    if (mqttConfig.enabled) publisher.start();
+  }, [mqttConfig.enabled, mqttConfig.url, mqttConfig.username, mqttConfig.password, mqttConfig.lotId, activeProfile?.id]);
+
+  useEffect(() => {
+    if (sessionRef.current) {
+      sessionRef.current.spaceHistory = Array.from(spaceOccupancyHistory.values());
+    }
+  }, [spaceOccupancyHistory]);
+
+  const persistSession = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    saveSession(session).catch(err => {
+      console.warn('Failed to save detection session:', err);
+    });
+  }, []);
 
   const createInitialSpaces = useCallback((regions: Region[]): ParkingSpace[] => {
     return regions.map((region, index) => ({
@@ -211,57 +416,13 @@ const LiveDetection: React.FC = () => {
   }, []);
 
   const trackVehicleMovements = useCallback((newSpaces: ParkingSpace[], previousSpaces: ParkingSpace[]) => {
-    const movements: VehicleMovement[] = [];
-    const timestamp = Date.now();
-
-    newSpaces.forEach(space => {
-      const previousSpace = previousSpaces.find(p => p.id === space.id);
-      if (previousSpace && previousSpace.isOccupied !== space.isOccupied) {
-        let duration: number | undefined;
-        if (!space.isOccupied && previousSpace.isOccupied) {
-          const occupancyRecord = spaceOccupancyHistory.get(space.id);
-          if (occupancyRecord?.enterTime) {
-            duration = timestamp - occupancyRecord.enterTime;
-          }
-        }
-
-        const movement: VehicleMovement = {
-          spaceId: space.id,
-          timestamp,
-          action: space.isOccupied ? 'entered' : 'exited',
-          confidence: space.confidence,
-          vehicleType: space.vehicleType,
-          duration
-        };
-        movements.push(movement);
-
-        setSpaceOccupancyHistory(prev => {
-          const newHistory = new Map(prev);
-          const existing = newHistory.get(space.id) || {
-            spaceId: space.id,
-            totalOccupiedTime: 0,
-            occupancyCount: 0
-          };
-
-          if (space.isOccupied) {
-            existing.enterTime = timestamp;
-            existing.occupancyCount += 1;
-          } else {
-            if (existing.enterTime) {
-              const occupiedDuration = timestamp - existing.enterTime;
-              existing.totalOccupiedTime += occupiedDuration;
-              existing.exitTime = timestamp;
-              delete existing.enterTime;
-            }
-          }
-
-          newHistory.set(space.id, existing);
-          return newHistory;
-        });
-      }
-    });
+    const movements = detectMovements(newSpaces, previousSpaces, spaceHistoryRef.current, Date.now());
 
     if (movements.length > 0) {
+      const history = applyMovements(spaceHistoryRef.current, movements);
+      spaceHistoryRef.current = history;
+      setSpaceOccupancyHistory(history);
+      if (sessionRef.current) recordMovements(sessionRef.current, movements);
       setVehicleMovements(prev => [...prev, ...movements].slice(-100));
       setRecentMovements(movements);
 
@@ -269,7 +430,46 @@ const LiveDetection: React.FC = () => {
         setRecentMovements([]);
       }, 5000);
     }
-  }, [spaceOccupancyHistory]);
+  }, []);
+
+  const raiseAlerts = useCallback((newSpaces: ParkingSpace[], previousSpaces: ParkingSpace[]) => {
+    const toAlertSpaces = (spaces: ParkingSpace[]) => spaces.map(space => ({
+      regionId: space.region.id,
+      label: spaceLabel(space.region, space.id),
+      isOccupied: space.isOccupied
+    }));
+
+    const rules = alertRulesRef.current;
+    const alerts = evaluateAlertRules(rules, toAlertSpaces(newSpaces), toAlertSpaces(previousSpaces), alertStateRef.current);
+    if (alerts.length === 0) return;
+
+    alerts.forEach(alert => {
+      const rule = rules.find(r => r.id === alert.ruleId);
+      if (rule?.sound && audioEnabledRef.current) playAlertSound(alert.kind);
+      if (rule?.desktop) showDesktopNotification(alert);
+    });
+    setRecentAlerts(prev => [...prev, ...alerts].slice(-20));
+  }, []);
+
+  const publishEvents = useCallback((newSpaces: ParkingSpace[], previousSpaces: ParkingSpace[]) => {
+    publishLiveStatus(createLiveStatusSnapshot(newSpaces, getEventOrigin(), true));
+    mqttPublisherRef.current?.publish(newSpaces);
+
+    const config = webhookConfigRef.current;
+    const client = webhookClientRef.current;
+    if (!config.enabled || !client) return;
+
+    const origin = getEventOrigin();
+    const now = Date.now();
+
+    if (config.sendSpaceEvents) {
+      spaceChangeEvents(newSpaces, previousSpaces, origin, now).forEach(client.send);
+    }
+    if (config.sendSummaries && now - lastSummarySentRef.current >= config.summaryIntervalSeconds * 1000) {
+      lastSummarySentRef.current = now;
+      client.send(lotSummaryEvent(newSpaces, origin, now));
+    }
+  }, [getEventOrigin]);
 
   const drawParkingOverlays = useCallback((spaces: ParkingSpace[], videoElement: HTMLVideoElement | HTMLImageElement) => {
     const canvas = overlayCanvasRef.current;
@@ -381,6 +581,18 @@ const LiveDetection: React.FC = () => {
         ctx.closePath();
         ctx.fill();
         ctx.stroke();
+
+        // Space picked on the occupancy timeline
+        if (region.id === highlightedRegionId) {
+          ctx.save();
+          ctx.setLineDash([]);
+          ctx.strokeStyle = 'rgba(59, 130, 246, 1)';
+          ctx.lineWidth = 6;
+          ctx.shadowColor = 'rgba(59, 130, 246, 0.9)';
+          ctx.shadowBlur = 12;
+          ctx.stroke();
+          ctx.restore();
+        }
       }
 
       // Calculate bounding box for labels
@@ -401,17 +613,21 @@ const LiveDetection: React.FC = () => {
       // Draw labels only if region is large enough and within bounds
       if (width > 50 && height > 35 && isWithinBounds) {
         if (canvasSettings.showLabels) {
-          const labelWidth = Math.min(80, width - 10);
+          const badges = attributeBadges(region);
+          const labelText = badges.length > 0
+            ? `${spaceLabel(region, index)} · ${badges.join(' ')}`
+            : spaceLabel(region, index);
+          ctx.font = 'bold 13px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+          const labelWidth = Math.min(Math.max(40, ctx.measureText(labelText).width + 8), width - 10);
           const labelHeight = 24;
 
           ctx.fillStyle = hasRecentMovement ? 'rgba(255, 165, 0, 0.95)' : 'rgba(0, 0, 0, 0.85)';
           ctx.fillRect(minX + 4, minY + 4, labelWidth, labelHeight);
 
           ctx.fillStyle = 'white';
-          ctx.font = 'bold 13px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
           ctx.textAlign = 'left';
           ctx.textBaseline = 'middle';
-          ctx.fillText(`P${index + 1}`, minX + 8, minY + 16);
+          ctx.fillText(labelText, minX + 8, minY + 16, labelWidth - 8);
         }
 
         if (canvasSettings.showConfidence && width > 75) {
@@ -470,7 +686,12 @@ const LiveDetection: React.FC = () => {
       ctx.font = '13px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
       ctx.fillText(`Occupancy Rate: ${occupancyRate}%`, overlayX + 12, overlayY + 38);
     }
-  }, [canvasSettings.showLabels, canvasSettings.showConfidence, showOverlays, isStreaming, recentMovements]);
+  }, [canvasSettings.showLabels, canvasSettings.showConfidence, showOverlays, isStreaming, recentMovements, highlightedRegionId]);
+
+  // The detection interval keeps the runDetection it started with, so it draws
+  // through this ref to pick up the current highlight and overlay settings
+  const drawParkingOverlaysRef = useRef(drawParkingOverlays);
+  useEffect(() => { drawParkingOverlaysRef.current = drawParkingOverlays; }, [drawParkingOverlays]);
 
   const loadVideo = useCallback(async (file: File): Promise<boolean> => {
     return new Promise((resolve, reject) => {
@@ -678,6 +899,131 @@ const LiveDetection: React.FC = () => {
     }
   }, [regions, createInitialSpaces, isVideoMode, hasCamera, autoStartEnabled]);
 
+  const refreshVideoDevices = useCallback(async (): Promise<VideoInputDevice[]> => {
+    try {
+      const devices = await listVideoInputDevices();
+      setVideoDevices(devices);
+      return devices;
+    } catch (err) {
+      console.warn('Failed to list cameras:', err);
+      return [];
+    }
+  }, []);
+
+  // Reopen the camera once it is plugged back in; the detection interval keeps
+  // running and resumes as soon as frames arrive again.
+  useEffect(() => {
+    refreshVideoDevices();
+    return watchVideoInputDevices(async () => {
+      const devices = await refreshVideoDevices();
+      if (cameraStatusRef.current !== 'disconnected') return;
+
+      const wantedId = cameraConstraintsRef.current.deviceId;
+      const isBack = wantedId ? devices.some(d => d.deviceId === wantedId) : devices.length > 0;
+      if (isBack) {
+        setCameraStatus('connecting');
+        setHasCamera(true);
+        setWebcamKey(prev => prev + 1);
+      }
+    });
+  }, [refreshVideoDevices]);
+
+  const handleUserMedia = useCallback((stream: MediaStream) => {
+    setCameraStatus('live');
+    setHasCamera(true);
+    stream.getVideoTracks().forEach(track => {
+      track.addEventListener('ended', () => {
+        console.warn('Camera track ended, waiting for the device to reconnect');
+        setCameraStatus('disconnected');
+      });
+    });
+    // Labels are only exposed after permission has been granted
+    refreshVideoDevices();
+  }, [refreshVideoDevices]);
+
+  const handleUserMediaError = useCallback((err: string | DOMException) => {
+    console.warn('Camera error:', err);
+    if (cameraStatusRef.current !== 'connecting') {
+      setCameraStatus('disconnected');
+      return;
+    }
+    setHasCamera(false);
+  }, []);
+
+  const updateCameraConstraints = (changes: Partial<CameraConstraints>) => {
+    setCameraConstraints(prev => ({ ...prev, ...changes }));
+    setCameraStatus('connecting');
+    setHasCamera(true);
+  };
+
+  const loadLotProfile = useCallback((profile: LotProfile) => {
+    setActiveProfile(profile);
+    setBackgroundModel(profile.backgroundModel ?? {});
+    backgroundDirtyRef.current = false;
+    setRegions(profile.regions);
+    setProfileRegions(profile.regions);
+    setProfileLoadCount(prev => prev + 1);
+    previousSpacesRef.current = [];
+
+    if (profile.cameraSource.kind === 'webcam') {
+      const { deviceId, width, height, frameRate } = profile.cameraSource;
+      const isConnected = !deviceId || videoDevices.length === 0 || videoDevices.some(d => d.deviceId === deviceId);
+      if (!isConnected) {
+        setError('The camera saved with this lot is not connected. Using the default camera instead.');
+      }
+      setCameraConstraints({
+        deviceId: isConnected ? deviceId : undefined,
+        width: width ?? DEFAULT_CAMERA_CONSTRAINTS.width,
+        height: height ?? DEFAULT_CAMERA_CONSTRAINTS.height,
+        frameRate: frameRate ?? DEFAULT_CAMERA_CONSTRAINTS.frameRate
+      });
+      setCameraStatus('connecting');
+      setHasCamera(true);
+    }
+
+    if (profile.referenceImage) {
+      // Show the stored layout on its reference image so it can be reviewed before applying
+      setReferenceImage(profile.referenceImage);
+      setShowRegionSelector(true);
+      setRegionsApplied(false);
+    } else {
+      setReferenceImage(null);
+      setShowRegionSelector(false);
+      setRegionsApplied(profile.regions.length > 0);
+      const initialSpaces = createInitialSpaces(profile.regions);
+      setDetectionResults({
+        total: initialSpaces.length,
+        occupied: 0,
+        available: initialSpaces.length,
+        spaces: initialSpaces,
+        timestamp: Date.now() / 1000
+      });
+    }
+  }, [createInitialSpaces, videoDevices]);
+
+  const getProfileSnapshot = useCallback((): LotProfileSnapshot => ({
+    referenceImage,
+    regions,
+    configOverrides: activeProfile?.configOverrides ?? {},
+    cameraSource: isVideoMode
+      ? { kind: 'video', fileName: videoFile?.name }
+      : { kind: 'webcam', ...cameraConstraints },
+    backgroundModel: pruneBackgroundModel(backgroundModel, regions.map(r => r.id))
+  }), [referenceImage, regions, activeProfile, isVideoMode, videoFile, cameraConstraints, backgroundModel]);
+
+  const saveBackgroundModel = useCallback(async (model: BackgroundModel) => {
+    backgroundDirtyRef.current = false;
+    const profile = activeProfileRef.current;
+    if (!profile) return;
+    try {
+      setActiveProfile(await updateLotProfile(profile.id, {
+        backgroundModel: pruneBackgroundModel(model, regionsRef.current.map(r => r.id))
+      }));
+    } catch (err) {
+      console.warn('Failed to save background model:', err);
+    }
+  }, []);
+
   const startCamera = async () => {
     try {
       setError(null);
@@ -688,28 +1034,23 @@ const LiveDetection: React.FC = () => {
       }
       setVideoFile(null);
       setIsVideoMode(false);
+      setCameraStatus('connecting');
       setIsVideoReady(true);
       videoElementReadyRef.current = true;
 
+      // Permission probe only: react-webcam opens its own stream with the same constraints
       const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          width: { ideal: 1280 },
-          height: { ideal: 720 },
-          frameRate: { ideal: 30 },
-          facingMode: isMobile ? 'environment' : undefined
-        }
+        video: buildVideoConstraints(cameraConstraints, isMobile)
       });
+      stream.getTracks().forEach(track => track.stop());
+      await refreshVideoDevices();
+      setHasCamera(true);
+      setIsStreaming(false);
 
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        streamRef.current = stream;
-        setIsStreaming(false);
-
-        if (autoStartEnabled && regionsApplied && regions.length > 0) {
-          setTimeout(() => {
-            startDetection();
-          }, 1000);
-        }
+      if (autoStartEnabled && regionsApplied && regions.length > 0) {
+        setTimeout(() => {
+          startDetection();
+        }, 1000);
       }
     } catch (err) {
       setError('Unable to access camera. Please check permissions.');
@@ -717,7 +1058,70 @@ const LiveDetection: React.FC = () => {
     }
   };
 
+  const stopRecording = useCallback(async () => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    recordingRef.current = null;
+    setRecordingStartedAt(null);
+
+    const blob = await recording.stop();
+    if (blob.size === 0) return;
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `parking-detection-${new Date(recording.startedAt).toISOString()}.webm`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+  }, []);
+
+  const startRecording = useCallback(() => {
+    const source = isVideoMode ? videoRef.current : webcamRef.current?.video;
+    if (!source) return;
+
+    try {
+      const recording = startAnnotatedRecording({
+        source,
+        getOverlay: () => showOverlaysRef.current ? overlayCanvasRef.current : null,
+        getStats: () => {
+          const results = detectionResultsRef.current;
+          return results ? {
+            lotName: activeProfileRef.current?.name,
+            occupied: results.occupied,
+            available: results.available
+          } : null;
+        },
+        getMovements: () => recentMovementsRef.current,
+        onError: (err) => {
+          setError(err.message);
+          stopRecording();
+        }
+      });
+      recordingRef.current = recording;
+      setRecordingStartedAt(recording.startedAt);
+      setRecordingElapsed(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start recording');
+    }
+  }, [isVideoMode, stopRecording]);
+
+  useEffect(() => {
+    if (recordingStartedAt === null) return;
+    const timer = setInterval(() => setRecordingElapsed(Date.now() - recordingStartedAt), 1000);
+    return () => clearInterval(timer);
+  }, [recordingStartedAt]);
+
+  // Leaving the page discards an unfinished recording
+  useEffect(() => () => {
+    recordingRef.current?.stop();
+  }, []);
+
   const stopStream = () => {
+    stopRecording();
+
     if (detectionIntervalRef.current) {
       clearInterval(detectionIntervalRef.current);
       detectionIntervalRef.current = null;
@@ -751,6 +1155,22 @@ const LiveDetection: React.FC = () => {
       }
     }
 
+    persistSession();
+    if (sessionRef.current) lastSessionRef.current = sessionRef.current;
+    sessionRef.current = null;
+
+    // Status displays switch to "paused" instead of showing the last counts as current
+    if (previousSpacesRef.current.length > 0) {
+      publishLiveStatus(createLiveStatusSnapshot(previousSpacesRef.current, getEventOrigin(), false));
+    }
+
+    if (backgroundDirtyRef.current) {
+      saveBackgroundModel(backgroundModelRef.current);
+    }
+
+    isReplayingRef.current = false;
+    setIsReplaying(false);
+
     setIsStreaming(false);
     setIsPaused(false);
     setRecentMovements([]);
@@ -767,7 +1187,7 @@ const LiveDetection: React.FC = () => {
     setIsProcessing(true);
 
     try {
-      let imageSource: string | HTMLVideoElement;
+      let imageSource: HTMLVideoElement;
 
       if (isVideoModeRef.current && videoRef.current) {
         if (!videoElementReadyRef.current || videoRef.current.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
@@ -776,6 +1196,10 @@ const LiveDetection: React.FC = () => {
         imageSource = videoRef.current;
       } else if (!isVideoModeRef.current && webcamRef.current?.video) {
         const video = webcamRef.current.video;
+        // A disconnected camera leaves its last frame on screen; skip until it is back
+        if (cameraStatusRef.current !== 'live') {
+          return;
+        }
         if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
           return;
         }
@@ -785,11 +1209,27 @@ const LiveDetection: React.FC = () => {
       }
 
       const startTime = performance.now();
+      const frameTime = imageSource.currentTime;
       const previousSpaces = previousSpacesRef.current;
-      const results = await detectParkingSpaces(imageSource, regionsRef.current, previousSpaces);
+      const client = detectionClientRef.current;
+      if (!client) return;
+      const results = await client.detect(imageSource, regionsRef.current, previousSpaces, {
+        ...settingsRef.current,
+        configOverrides: activeProfileRef.current?.configOverrides,
+        backgroundModel: backgroundModelRef.current,
+        learnBackground: learnBackgroundRef.current
+      });
       const processingTime = performance.now() - startTime;
 
+      if (results.backgroundModel) {
+        backgroundModelRef.current = results.backgroundModel;
+        backgroundDirtyRef.current = true;
+        setBackgroundModel(results.backgroundModel);
+      }
+
       trackVehicleMovements(results.spaces, previousSpaces);
+      raiseAlerts(results.spaces, previousSpaces);
+      publishEvents(results.spaces, previousSpaces);
 
       const newResults = {
         ...results,
@@ -797,13 +1237,46 @@ const LiveDetection: React.FC = () => {
         processingTime
       };
 
+      if (isVideoModeRef.current) {
+        const frame: AnalysisFrame = {
+          time: frameTime,
+          occupied: results.occupied,
+          available: results.available,
+          processingTime,
+          spaces: results.spaces.map(space => ({
+            regionId: space.region.id,
+            isOccupied: space.isOccupied,
+            confidence: space.confidence
+          }))
+        };
+        setPlaybackFrames(prev => [...prev.filter(f => f.time !== frameTime), frame].sort((a, b) => a.time - b.time));
+      }
+
+      if (isReplayingRef.current && isVideoModeRef.current) {
+        const sample: EvaluationSample = {
+          time: frameTime,
+          processingTime,
+          predictions: Object.fromEntries(results.spaces.map(space => [space.region.id, space.isOccupied]))
+        };
+        // A looping video jumping back to the start ends the replay
+        const lastReplayTime = lastReplayTimeRef.current;
+        if (lastReplayTime !== null && frameTime < lastReplayTime) {
+          isReplayingRef.current = false;
+          setIsReplaying(false);
+        } else {
+          lastReplayTimeRef.current = frameTime;
+          setEvaluationSamples(prev => [...prev, sample]);
+        }
+      }
+
+      setPipelineMode(client.getMode());
       setDetectionResults(newResults);
       previousSpacesRef.current = results.spaces;
 
       const videoElement = isVideoModeRef.current ? videoRef.current : webcamRef.current?.video;
       if (videoElement && results.spaces.length > 0) {
         requestAnimationFrame(() => {
-          drawParkingOverlays(results.spaces, videoElement);
+          drawParkingOverlaysRef.current(results.spaces, videoElement);
         });
       }
 
@@ -817,6 +1290,17 @@ const LiveDetection: React.FC = () => {
         },
       ]);
 
+      if (sessionRef.current) {
+        recordSample(sessionRef.current, {
+          timestamp: Date.now(),
+          occupied: results.occupied,
+          available: results.available
+        });
+        if (sessionRef.current.samples.length % SESSION_SAVE_EVERY === 0) {
+          persistSession();
+        }
+      }
+
       setTotalDetections(prev => prev + 1);
 
       frameCountRef.current++;
@@ -829,7 +1313,7 @@ const LiveDetection: React.FC = () => {
           ...prev,
           fps: Math.round(fps * 10) / 10,
           processingTime,
-          accuracy: results.spaces.length > 0 ?
+          avgConfidence: results.spaces.length > 0 ?
             (results.spaces.reduce((sum, space) => sum + space.confidence, 0) / results.spaces.length) * 100 : 0
         }));
 
@@ -843,7 +1327,7 @@ const LiveDetection: React.FC = () => {
       processingRef.current = false;
       setIsProcessing(false);
     }
-  }, [drawParkingOverlays, trackVehicleMovements]);
+  }, [trackVehicleMovements, raiseAlerts, publishEvents, persistSession]);
 
   const startDetection = useCallback(async () => {
     if (regions.length === 0 || !regionsApplied) {
@@ -868,8 +1352,19 @@ const LiveDetection: React.FC = () => {
     setChangesDetected(0);
     setVehicleMovements([]);
     setRecentMovements([]);
-    setSpaceOccupancyHistory(new Map());
+    spaceHistoryRef.current = new Map();
+    setSpaceOccupancyHistory(spaceHistoryRef.current);
     previousSpacesRef.current = [];
+    alertStateRef.current = createAlertState();
+    lastSummarySentRef.current = 0;
+
+    persistSession();
+    sessionRef.current = createSession({
+      lotId: activeProfile?.id ?? null,
+      lotName: activeProfile?.name ?? 'Unsaved lot',
+      source: isVideoMode ? 'video' : 'webcam',
+      totalSpaces: regions.length
+    });
 
     if (detectionIntervalRef.current) {
       clearInterval(detectionIntervalRef.current);
@@ -906,7 +1401,180 @@ const LiveDetection: React.FC = () => {
       clearInterval(performanceIntervalRef.current);
     }
 
-  }, [isVideoMode, regions, regionsApplied, runDetection, drawParkingOverlays, createInitialSpaces]);
+  }, [isVideoMode, regions, regionsApplied, runDetection, drawParkingOverlays, createInitialSpaces, activeProfile, persistSession]);
+
+  // Record the current frame as what every space looks like when empty
+  const captureBackground = useCallback(async () => {
+    const client = detectionClientRef.current;
+    const element = isVideoMode ? videoRef.current : webcamRef.current?.video;
+    if (!client || !element || element.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+      setError('No video frame available to capture the empty lot from');
+      return;
+    }
+
+    // A detector of its own, so the live feed's frame skipping, motion and
+    // smoothing history neither alter the capture nor absorb its all-empty result
+    setIsCapturingBackground(true);
+    try {
+      const results = await client.detect(element, regions, [], {
+        ...settings,
+        configOverrides: activeProfile?.configOverrides,
+        captureBackground: true
+      }, BACKGROUND_CAPTURE_CHANNEL, BACKGROUND_CAPTURE_SETTINGS);
+      if (results.backgroundModel) {
+        backgroundModelRef.current = results.backgroundModel;
+        setBackgroundModel(results.backgroundModel);
+        await saveBackgroundModel(results.backgroundModel);
+      }
+    } catch (err) {
+      setError(`Failed to capture empty lot: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      client.release(BACKGROUND_CAPTURE_CHANNEL);
+      setIsCapturingBackground(false);
+    }
+  }, [isVideoMode, regions, settings, activeProfile, saveBackgroundModel]);
+
+  const clearBackground = useCallback(() => {
+    backgroundModelRef.current = {};
+    setBackgroundModel({});
+    saveBackgroundModel({});
+  }, [saveBackgroundModel]);
+
+  const baselineCount = regions.filter(region => backgroundModel[region.id]).length;
+
+  const toggleEvaluationMode = () => {
+    if (evaluationMode) {
+      setEvaluationMode(false);
+      return;
+    }
+    const video = videoRef.current;
+    if (!video || !videoFile || !Number.isFinite(video.duration)) {
+      setError('Load a video before starting an evaluation');
+      return;
+    }
+    // Keep annotations made earlier for the same video
+    setGroundTruth(prev => prev && prev.videoName === videoFile.name
+      ? alignGroundTruth(prev, regions, video.duration)
+      : createGroundTruth(videoFile.name, video.duration, regions));
+    setEvaluationSamples([]);
+    setVideoTime(video.currentTime);
+    setEvaluationMode(true);
+  };
+
+  const seekVideo = useCallback((time: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = Math.max(0, Math.min(time, videoRef.current.duration || time));
+    }
+  }, []);
+
+  // Replay the whole video through detection, recording what it decided at each frame
+  const startEvaluationReplay = useCallback(async () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    setEvaluationSamples([]);
+    lastReplayTimeRef.current = null;
+    isReplayingRef.current = true;
+    setIsReplaying(true);
+    video.currentTime = 0;
+    previousSpacesRef.current = [];
+
+    if (!isStreaming) {
+      await startDetection();
+    } else if (video.paused) {
+      await video.play();
+    }
+  }, [isStreaming, startDetection]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!isVideoMode || !video) return;
+
+    const updateTime = () => setVideoTime(video.currentTime);
+    const updateDuration = () => setVideoDuration(Number.isFinite(video.duration) ? video.duration : 0);
+    const handleEnded = () => {
+      isReplayingRef.current = false;
+      setIsReplaying(false);
+    };
+    updateDuration();
+    video.addEventListener('timeupdate', updateTime);
+    video.addEventListener('seeked', updateTime);
+    video.addEventListener('durationchange', updateDuration);
+    video.addEventListener('ended', handleEnded);
+    return () => {
+      video.removeEventListener('timeupdate', updateTime);
+      video.removeEventListener('seeked', updateTime);
+      video.removeEventListener('durationchange', updateDuration);
+      video.removeEventListener('ended', handleEnded);
+    };
+  }, [isVideoMode, videoUrl]);
+
+  const timelineFrames = analysisTimeline?.frames ?? playbackFrames;
+  const shownFrameRef = useRef<AnalysisFrame | null>(null);
+
+  // Outside live detection, the overlay follows the timeline as the video plays or is scrubbed
+  useEffect(() => {
+    if (isStreaming || timelineFrames.length === 0) {
+      shownFrameRef.current = null;
+      return;
+    }
+    const frame = frameAt(timelineFrames, videoTime);
+    if (!frame || frame === shownFrameRef.current) return;
+    shownFrameRef.current = frame;
+
+    const spaces = createInitialSpaces(regions).map(space => {
+      const state = frame.spaces.find(s => s.regionId === space.region.id);
+      return state ? { ...space, isOccupied: state.isOccupied, confidence: state.confidence } : space;
+    });
+    setDetectionResults({
+      total: spaces.length,
+      occupied: spaces.filter(s => s.isOccupied).length,
+      available: spaces.filter(s => !s.isOccupied).length,
+      spaces,
+      timestamp: Date.now() / 1000
+    });
+  }, [videoTime, timelineFrames, isStreaming, regions, createInitialSpaces]);
+
+  // Annotations and analysis results belong to one video
+  useEffect(() => {
+    setEvaluationMode(false);
+    isReplayingRef.current = false;
+    setIsReplaying(false);
+    setShowAnalysis(false);
+    setAnalysisTimeline(null);
+    setPlaybackFrames([]);
+    setHighlightedRegionId(null);
+  }, [videoFile]);
+
+  const handleAnalysisComplete = useCallback((timeline: AnalysisTimeline) => {
+    setAnalysisTimeline(timeline);
+    // An offline run is a deterministic replay, so it can be scored directly
+    if (evaluationMode) {
+      setEvaluationSamples(timeline.frames.map(frame => ({
+        time: frame.time,
+        processingTime: frame.processingTime,
+        predictions: Object.fromEntries(frame.spaces.map(space => [space.regionId, space.isOccupied]))
+      })));
+    }
+  }, [evaluationMode]);
+
+  const captureFrame = useCallback((): string | null => {
+    const video = isVideoMode ? videoRef.current : webcamRef.current?.video;
+    if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(video, 0, 0);
+    return canvas.toDataURL('image/jpeg', 0.9);
+  }, [isVideoMode]);
+
+  const applyCalibration = useCallback(async (configOverrides: Partial<DetectionConfig>) => {
+    if (!activeProfile) return;
+    setActiveProfile(await updateLotProfile(activeProfile.id, { configOverrides }));
+  }, [activeProfile]);
 
   const togglePause = useCallback(() => {
     setIsPaused(prev => !prev);
@@ -1012,6 +1680,17 @@ const LiveDetection: React.FC = () => {
     URL.revokeObjectURL(url);
   }, [videoFile, detectionHistory, vehicleMovements, spaceOccupancyHistory, totalDetections, changesDetected, detectionResults, performanceMetrics]);
 
+  const getCsvExportData = useCallback((): CsvExportData => {
+    const session = sessionRef.current ?? lastSessionRef.current;
+    const lotName = session?.lotName ?? activeProfile?.name;
+    // The session holds every movement; the on-screen list keeps only the latest
+    return {
+      movements: (session?.movements ?? []).map(movement => ({ ...movement, lotName })),
+      spaceHistory: (session?.spaceHistory ?? []).map(record => ({ ...record, lotName })),
+      samples: (session?.samples ?? []).map(sample => ({ ...sample, lotName }))
+    };
+  }, [activeProfile]);
+
   useEffect(() => {
     if (detectionResults && detectionResults.spaces.length > 0) {
       const videoElement = isVideoMode ? videoRef.current : webcamRef.current?.video;
@@ -1033,6 +1712,22 @@ const LiveDetection: React.FC = () => {
     };
   }, [videoUrl]);
 
+  useEffect(() => {
+    const client = createDetectionClient();
+    detectionClientRef.current = client;
+    client.ready.then(setPipelineMode);
+
+    return () => {
+      client.dispose();
+      detectionClientRef.current = null;
+    };
+  }, []);
+
+  // Keep whatever was recorded when leaving the page mid-session
+  useEffect(() => {
+    return () => persistSession();
+  }, [persistSession]);
+
   useEffect(() => {
     const videoElement = isVideoMode ? videoRef.current : webcamRef.current?.video;
     if (!videoElement || !showOverlays) return;
@@ -1052,13 +1747,27 @@ const LiveDetection: React.FC = () => {
     };
   }, [isVideoMode, showOverlays, detectionResults, drawParkingOverlays]);
 
-  const videoConstraints = {
-    width: { ideal: 1280 },
-    height: { ideal: 720 },
-    frameRate: { ideal: 30 },
-    facingMode: isMobile ? 'environment' : undefined
+  const multiCameraOptions = useMemo(() => ({
+    ...settings,
+    configOverrides: activeProfile?.configOverrides
+  }), [settings, activeProfile]);
+
+  const toggleViewMode = () => {
+    if (isStreaming) stopStream();
+    // The single-feed <video> unmounts in grid mode, so drop its loaded file
+    if (videoUrl) {
+      URL.revokeObjectURL(videoUrl);
+      setVideoUrl(null);
+    }
+    setVideoFile(null);
+    setVideoLoadingState('idle');
+    setIsVideoReady(false);
+    videoElementReadyRef.current = false;
+    setViewMode(prev => prev === 'single' ? 'multi' : 'single');
   };
 
+  const videoConstraints = buildVideoConstraints(cameraConstraints, isMobile);
+
   return (
     <div className={`min-h-screen ${settings.enableDarkMode ? 'bg-gray-900 text-white' : 'bg-gray-50 text-gray-900'}`}>
       {/* Modern Header */}
@@ -1088,51 +1797,70 @@ const LiveDetection: React.FC = () => {
             </div>
 
             <div className="flex items-center gap-2">
-              {!referenceImage && (
-                <label className={`px-4 py-2 rounded-lg font-medium transition-all cursor-pointer ${
-                  settings.enableDarkMode
-                    ? 'bg-blue-600 hover:bg-blue-700 text-white'
-                    : 'bg-blue-500 hover:bg-blue-600 text-white'
-                } flex items-center gap-2`}>
-                  <input
-                    ref={referenceInputRef}
-                    type="file"
-                    accept="image/*"
-                    onChange={handleReferenceImageUpload}
-                    className="hidden"
-                  />
-                  <ImageIcon size={16} />
-                  <span>Reference</span>
-                </label>
-              )}
+              {viewMode === 'single' && (
+                <>
+                  {!referenceImage && (
+                    <label className={`px-4 py-2 rounded-lg font-medium transition-all cursor-pointer ${
+                      settings.enableDarkMode
+                        ? 'bg-blue-600 hover:bg-blue-700 text-white'
+                        : 'bg-blue-500 hover:bg-blue-600 text-white'
+                    } flex items-center gap-2`}>
+                      <input
+                        ref={referenceInputRef}
+                        type="file"
+                        accept="image/*"
+                        onChange={handleReferenceImageUpload}
+                        className="hidden"
+                      />
+                      <ImageIcon size={16} />
+                      <span>Reference</span>
+                    </label>
+                  )}
 
-              <button
-                onClick={startCamera}
-                disabled={isStreaming && !isVideoMode}
-                className={`px-4 py-2 rounded-lg font-medium transition-all flex items-center gap-2 ${
-                  (!isVideoMode && isStreaming)
-                    ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                    : settings.enableDarkMode
-                    ? 'bg-gray-800 hover:bg-gray-700 text-white'
-                    : 'bg-white hover:bg-gray-50 text-gray-900 border border-gray-300'
-                }`}
-              >
-                <Camera size={16} />
-                <span>Camera</span>
-              </button>
+                  <button
+                    onClick={startCamera}
+                    disabled={isStreaming && !isVideoMode}
+                    className={`px-4 py-2 rounded-lg font-medium transition-all flex items-center gap-2 ${
+                      (!isVideoMode && isStreaming)
+                        ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                        : settings.enableDarkMode
+                        ? 'bg-gray-800 hover:bg-gray-700 text-white'
+                        : 'bg-white hover:bg-gray-50 text-gray-900 border border-gray-300'
+                    }`}
+                  >
+                    <Camera size={16} />
+                    <span>Camera</span>
+                  </button>
+
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className={`px-4 py-2 rounded-lg font-medium transition-all flex items-center gap-2 ${
+                      isVideoMode
+                        ? settings.enableDarkMode ? 'bg-blue-600 text-white' : 'bg-blue-500 text-white'
+                        : settings.enableDarkMode
+                        ? 'bg-gray-800 hover:bg-gray-700 text-white'
+                        : 'bg-white hover:bg-gray-50 text-gray-900 border border-gray-300'
+                    }`}
+                  >
+                    <Upload size={16} />
+                    <span>Video</span>
+                  </button>
+                </>
+              )}
 
               <button
-                onClick={() => fileInputRef.current?.click()}
+                onClick={toggleViewMode}
                 className={`px-4 py-2 rounded-lg font-medium transition-all flex items-center gap-2 ${
-                  isVideoMode
+                  viewMode === 'multi'
                     ? settings.enableDarkMode ? 'bg-blue-600 text-white' : 'bg-blue-500 text-white'
                     : settings.enableDarkMode
                     ? 'bg-gray-800 hover:bg-gray-700 text-white'
                     : 'bg-white hover:bg-gray-50 text-gray-900 border border-gray-300'
                 }`}
+                title={viewMode === 'multi' ? 'Back to single feed' : 'Multi-camera grid'}
               >
-                <Upload size={16} />
-                <span>Video</span>
+                <LayoutGrid size={16} />
+                <span>Multi-Camera</span>
               </button>
 
               <button
@@ -1180,7 +1908,7 @@ const LiveDetection: React.FC = () => {
       )}
 
       {/* Status Banner */}
-      {regionsApplied && regions.length > 0 && (
+      {viewMode === 'single' && regionsApplied && regions.length > 0 && (
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-4">
           <div className={`rounded-lg p-4 flex items-center justify-between ${
             settings.enableDarkMode
@@ -1204,69 +1932,161 @@ const LiveDetection: React.FC = () => {
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
-        <div className={`grid ${isFullscreen ? 'grid-cols-1' : 'grid-cols-1 lg:grid-cols-3'} gap-6`}>
-          {/* Video Feed */}
-          <div className={`${isFullscreen ? 'col-span-1' : 'lg:col-span-2'}`}>
-            <div className={`rounded-xl overflow-hidden ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} shadow-xl`}>
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept="video/*"
-                onChange={handleVideoUpload}
-                className="hidden"
-              />
-
-              {showRegionSelector && referenceImage ? (
-                <div className="p-6">
-                  <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-lg font-semibold">Define Parking Spaces</h3>
-                    <div className="flex gap-2">
-                      <button
-                        onClick={() => {
-                          setShowRegionSelector(false);
-                          setReferenceImage(null);
-                          setRegions([]);
-                          setRegionsApplied(false);
-                        }}
-                        className={`px-4 py-2 rounded-lg font-medium ${
-                          settings.enableDarkMode
-                            ? 'bg-gray-700 hover:bg-gray-600 text-white'
-                            : 'bg-gray-200 hover:bg-gray-300 text-gray-900'
-                        }`}
-                      >
-                        Cancel
-                      </button>
-                      <button
-                        onClick={applyRegions}
-                        disabled={regions.length === 0}
-                        className={`px-4 py-2 rounded-lg font-medium ${
-                          regions.length > 0
-                            ? 'bg-blue-600 hover:bg-blue-700 text-white'
-                            : 'bg-gray-400 text-gray-200 cursor-not-allowed'
-                        }`}
-                      >
-                        Apply ({regions.length})
-                      </button>
+        {viewMode === 'multi' ? (
+          <MultiCameraGrid
+            detectionOptions={multiCameraOptions}
+            detectionInterval={DETECTION_INTERVAL}
+            lotId={activeProfile?.id ?? null}
+            lotName={activeProfile?.name ?? 'Unsaved lot'}
+          />
+        ) : (
+          <div className={`grid ${isFullscreen ? 'grid-cols-1' : 'grid-cols-1 lg:grid-cols-3'} gap-6`}>
+            {/* Video Feed */}
+            <div className={`${isFullscreen ? 'col-span-1' : 'lg:col-span-2'}`}>
+              <div className={`rounded-xl overflow-hidden ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} shadow-xl`}>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="video/*"
+                  onChange={handleVideoUpload}
+                  className="hidden"
+                />
+
+                {showRegionSelector && referenceImage ? (
+                  <div className="p-6">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-semibold">Define Parking Spaces</h3>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => {
+                            setShowRegionSelector(false);
+                            setReferenceImage(null);
+                            setRegions([]);
+                            setRegionsApplied(false);
+                          }}
+                          className={`px-4 py-2 rounded-lg font-medium ${
+                            settings.enableDarkMode
+                              ? 'bg-gray-700 hover:bg-gray-600 text-white'
+                              : 'bg-gray-200 hover:bg-gray-300 text-gray-900'
+                          }`}
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={applyRegions}
+                          disabled={regions.length === 0}
+                          className={`px-4 py-2 rounded-lg font-medium ${
+                            regions.length > 0
+                              ? 'bg-blue-600 hover:bg-blue-700 text-white'
+                              : 'bg-gray-400 text-gray-200 cursor-not-allowed'
+                          }`}
+                        >
+                          Apply ({regions.length})
+                        </button>
+                      </div>
                     </div>
+                    <RegionSelector
+                      key={profileLoadCount}
+                      imageUrl={referenceImage}
+                      onRegionsChange={setRegions}
+                      initialRegions={profileRegions}
+                    />
                   </div>
-                  <RegionSelector
-                    imageUrl={referenceImage}
-                    onRegionsChange={setRegions}
-                  />
-                </div>
-              ) : (
-                <div className="relative aspect-video bg-black">
-                  {isVideoMode ? (
-                    videoFile ? (
+                ) : (
+                  <div className="relative aspect-video bg-black">
+                    {isVideoMode ? (
+                      videoFile ? (
+                        <>
+                          <video
+                            ref={videoRef}
+                            className="w-full h-full object-contain"
+                            playsInline
+                            loop={isLooping}
+                            muted={isMuted}
+                            crossOrigin="anonymous"
+                            preload="metadata"
+                          />
+
+                          <canvas
+                            ref={overlayCanvasRef}
+                            className="absolute inset-0 pointer-events-none w-full h-full"
+                            style={{
+                              mixBlendMode: 'normal',
+                              opacity: showOverlays ? 1 : 0,
+                              transition: 'opacity 0.3s ease'
+                            }}
+                          />
+
+                          {videoLoadingState === 'loading' && (
+                            <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/75 text-white">
+                              <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mb-4"></div>
+                              <div className="text-lg font-medium mb-2">Loading Video...</div>
+                              {videoLoadingProgress > 0 && (
+                                <div className="w-64 bg-gray-700 rounded-full h-2">
+                                  <div
+                                    className="bg-blue-500 h-2 rounded-full transition-all duration-300"
+                                    style={{ width: `${videoLoadingProgress}%` }}
+                                  ></div>
+                                </div>
+                              )}
+                            </div>
+                          )}
+
+                          <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black/80 to-transparent">
+                            <div className="flex items-center justify-between text-white">
+                              <div className="flex items-center gap-2">
+                                <button onClick={toggleMute} className="p-2 hover:bg-white/20 rounded-lg transition-colors">
+                                  {isMuted ? <VolumeX size={20} /> : <Volume2 size={20} />}
+                                </button>
+                                <button onClick={() => handleSeek('backward')} className="p-2 hover:bg-white/20 rounded-lg transition-colors">
+                                  <Rewind size={20} />
+                                </button>
+                                <button onClick={() => handleSeek('forward')} className="p-2 hover:bg-white/20 rounded-lg transition-colors">
+                                  <FastForward size={20} />
+                                </button>
+                                <button onClick={toggleLoop} className={`p-2 hover:bg-white/20 rounded-lg transition-colors ${isLooping ? 'text-blue-400' : ''}`}>
+                                  <RotateCcw size={20} />
+                                </button>
+                              </div>
+                              <select
+                                value={playbackRate}
+                                onChange={(e) => handlePlaybackRateChange(Number(e.target.value))}
+                                className="bg-white/10 backdrop-blur-sm border border-white/20 rounded-lg px-3 py-1.5 text-white text-sm"
+                              >
+                                <option value="0.5" className="text-black">0.5x</option>
+                                <option value="1" className="text-black">1x</option>
+                                <option value="1.5" className="text-black">1.5x</option>
+                                <option value="2" className="text-black">2x</option>
+                              </select>
+                            </div>
+                          </div>
+                        </>
+                      ) : (
+                        <div className="absolute inset-0 flex flex-col items-center justify-center text-white">
+                          <Video size={48} className="mb-4 text-gray-400" />
+                          <p className="text-lg font-medium mb-4">No video loaded</p>
+                          <label className="px-6 py-3 bg-blue-600 rounded-lg cursor-pointer hover:bg-blue-700 transition-colors font-medium">
+                            <input
+                              type="file"
+                              accept="video/*"
+                              onChange={handleVideoUpload}
+                              className="hidden"
+                            />
+                            Upload Video
+                          </label>
+                        </div>
+                      )
+                    ) : hasCamera ? (
                       <>
-                        <video
-                          ref={videoRef}
+                        <Webcam
+                          key={webcamKey}
+                          ref={webcamRef}
+                          audio={false}
+                          screenshotFormat="image/jpeg"
+                          videoConstraints={videoConstraints}
+                          onUserMedia={handleUserMedia}
+                          onUserMediaError={handleUserMediaError}
                           className="w-full h-full object-contain"
-                          playsInline
-                          loop={isLooping}
-                          muted={isMuted}
-                          crossOrigin="anonymous"
-                          preload="metadata"
                         />
 
                         <canvas
@@ -1279,360 +2099,634 @@ const LiveDetection: React.FC = () => {
                           }}
                         />
 
-                        {videoLoadingState === 'loading' && (
+                        {cameraStatus === 'disconnected' && (
                           <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/75 text-white">
-                            <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mb-4"></div>
-                            <div className="text-lg font-medium mb-2">Loading Video...</div>
-                            {videoLoadingProgress > 0 && (
-                              <div className="w-64 bg-gray-700 rounded-full h-2">
-                                <div
-                                  className="bg-blue-500 h-2 rounded-full transition-all duration-300"
-                                  style={{ width: `${videoLoadingProgress}%` }}
-                                ></div>
-                              </div>
-                            )}
+                            <CameraOff size={48} className="mb-4 text-yellow-400" />
+                            <p className="text-lg font-medium">Camera disconnected</p>
+                            <p className="text-sm text-gray-400 mt-2">Detection resumes when the camera is plugged back in</p>
                           </div>
                         )}
-
-                        <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black/80 to-transparent">
-                          <div className="flex items-center justify-between text-white">
-                            <div className="flex items-center gap-2">
-                              <button onClick={toggleMute} className="p-2 hover:bg-white/20 rounded-lg transition-colors">
-                                {isMuted ? <VolumeX size={20} /> : <Volume2 size={20} />}
-                              </button>
-                              <button onClick={() => handleSeek('backward')} className="p-2 hover:bg-white/20 rounded-lg transition-colors">
-                                <Rewind size={20} />
-                              </button>
-                              <button onClick={() => handleSeek('forward')} className="p-2 hover:bg-white/20 rounded-lg transition-colors">
-                                <FastForward size={20} />
-                              </button>
-                              <button onClick={toggleLoop} className={`p-2 hover:bg-white/20 rounded-lg transition-colors ${isLooping ? 'text-blue-400' : ''}`}>
-                                <RotateCcw size={20} />
-                              </button>
-                            </div>
-                            <select
-                              value={playbackRate}
-                              onChange={(e) => handlePlaybackRateChange(Number(e.target.value))}
-                              className="bg-white/10 backdrop-blur-sm border border-white/20 rounded-lg px-3 py-1.5 text-white text-sm"
-                            >
-                              <option value="0.5" className="text-black">0.5x</option>
-                              <option value="1" className="text-black">1x</option>
-                              <option value="1.5" className="text-black">1.5x</option>
-                              <option value="2" className="text-black">2x</option>
-                            </select>
-                          </div>
-                        </div>
                       </>
                     ) : (
                       <div className="absolute inset-0 flex flex-col items-center justify-center text-white">
-                        <Video size={48} className="mb-4 text-gray-400" />
-                        <p className="text-lg font-medium mb-4">No video loaded</p>
-                        <label className="px-6 py-3 bg-blue-600 rounded-lg cursor-pointer hover:bg-blue-700 transition-colors font-medium">
-                          <input
-                            type="file"
-                            accept="video/*"
-                            onChange={handleVideoUpload}
-                            className="hidden"
-                          />
-                          Upload Video
-                        </label>
+                        <CameraOff size={48} className="mb-4 text-gray-400" />
+                        <p className="text-lg font-medium">Camera not available</p>
+                        <p className="text-sm text-gray-400 mt-2">Please check permissions or upload a video</p>
                       </div>
-                    )
-                  ) : hasCamera ? (
-                    <>
-                      <Webcam
-                        ref={webcamRef}
-                        audio={false}
-                        screenshotFormat="image/jpeg"
-                        videoConstraints={videoConstraints}
-                        onUserMediaError={() => setHasCamera(false)}
-                        className="w-full h-full object-contain"
-                      />
-
-                      <canvas
-                        ref={overlayCanvasRef}
-                        className="absolute inset-0 pointer-events-none w-full h-full"
-                        style={{
-                          mixBlendMode: 'normal',
-                          opacity: showOverlays ? 1 : 0,
-                          transition: 'opacity 0.3s ease'
-                        }}
-                      />
-                    </>
-                  ) : (
-                    <div className="absolute inset-0 flex flex-col items-center justify-center text-white">
-                      <CameraOff size={48} className="mb-4 text-gray-400" />
-                      <p className="text-lg font-medium">Camera not available</p>
-                      <p className="text-sm text-gray-400 mt-2">Please check permissions or upload a video</p>
-                    </div>
-                  )}
+                    )}
 
-                  {showOverlays && showGrid && (
-                    <div className="absolute inset-0 pointer-events-none">
-                      <svg className="w-full h-full">
-                        <defs>
-                          <pattern id="grid" width="50" height="50" patternUnits="userSpaceOnUse">
-                            <path d="M 50 0 L 0 0 0 50" fill="none" stroke="rgba(255,255,255,0.3)" strokeWidth="1"/>
-                          </pattern>
-                        </defs>
-                        <rect width="100%" height="100%" fill="url(#grid)" />
-                      </svg>
-                    </div>
-                  )}
+                    {showOverlays && showGrid && (
+                      <div className="absolute inset-0 pointer-events-none">
+                        <svg className="w-full h-full">
+                          <defs>
+                            <pattern id="grid" width="50" height="50" patternUnits="userSpaceOnUse">
+                              <path d="M 50 0 L 0 0 0 50" fill="none" stroke="rgba(255,255,255,0.3)" strokeWidth="1"/>
+                            </pattern>
+                          </defs>
+                          <rect width="100%" height="100%" fill="url(#grid)" />
+                        </svg>
+                      </div>
+                    )}
 
-                  {isStreaming && (
-                    <div className="absolute top-4 left-4 flex items-center gap-3 px-4 py-2 bg-black/70 backdrop-blur-sm rounded-lg text-white">
-                      <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
-                      <span className="font-medium text-sm">LIVE</span>
-                      {isPaused && <span className="text-yellow-400 text-sm">| Paused</span>}
-                    </div>
-                  )}
-                </div>
-              )}
+                    {isStreaming && (
+                      <div className="absolute top-4 left-4 flex items-center gap-3 px-4 py-2 bg-black/70 backdrop-blur-sm rounded-lg text-white">
+                        <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
+                        <span className="font-medium text-sm">LIVE</span>
+                        {isPaused && <span className="text-yellow-400 text-sm">| Paused</span>}
+                        {recordingStartedAt !== null && (
+                          <span className="text-red-400 text-sm font-medium">
+                            | REC {Math.floor(recordingElapsed / 60000)}:{Math.floor((recordingElapsed % 60000) / 1000).toString().padStart(2, '0')}
+                          </span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
 
-              {/* Controls */}
-              <div className={`p-4 border-t ${settings.enableDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
-                <div className="flex flex-wrap items-center gap-2">
-                  {isStreaming ? (
-                    <>
-                      <button
-                        onClick={togglePause}
-                        className="px-4 py-2 bg-yellow-500 hover:bg-yellow-600 text-white rounded-lg flex items-center gap-2 font-medium transition-colors"
-                      >
-                        {isPaused ? <><Play size={16} /> Resume</> : <><Pause size={16} /> Pause</>}
-                      </button>
+                {/* Controls */}
+                <div className={`p-4 border-t ${settings.enableDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {isStreaming ? (
+                      <>
+                        <button
+                          onClick={togglePause}
+                          className="px-4 py-2 bg-yellow-500 hover:bg-yellow-600 text-white rounded-lg flex items-center gap-2 font-medium transition-colors"
+                        >
+                          {isPaused ? <><Play size={16} /> Resume</> : <><Pause size={16} /> Pause</>}
+                        </button>
+                        <button
+                          onClick={stopStream}
+                          className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg flex items-center gap-2 font-medium transition-colors"
+                        >
+                          <StopCircle size={16} />
+                          Stop
+                        </button>
+                      </>
+                    ) : (
                       <button
-                        onClick={stopStream}
-                        className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg flex items-center gap-2 font-medium transition-colors"
+                        onClick={startDetection}
+                        disabled={(!hasCamera && !videoFile) || regions.length === 0 || !regionsApplied || (isVideoMode && !videoElementReadyRef.current)}
+                        className={`px-4 py-2 rounded-lg flex items-center gap-2 font-medium transition-colors ${
+                          (hasCamera || (videoFile && videoElementReadyRef.current)) && regions.length > 0 && regionsApplied
+                            ? 'bg-green-500 hover:bg-green-600 text-white'
+                            : 'bg-gray-400 text-gray-200 cursor-not-allowed'
+                        }`}
                       >
-                        <StopCircle size={16} />
-                        Stop
+                        <Play size={16} />
+                        Start Detection
                       </button>
-                    </>
-                  ) : (
+                    )}
+
+                    <div className="flex-1"></div>
+
                     <button
-                      onClick={startDetection}
-                      disabled={(!hasCamera && !videoFile) || regions.length === 0 || !regionsApplied || (isVideoMode && !videoElementReadyRef.current)}
-                      className={`px-4 py-2 rounded-lg flex items-center gap-2 font-medium transition-colors ${
-                        (hasCamera || (videoFile && videoElementReadyRef.current)) && regions.length > 0 && regionsApplied
-                          ? 'bg-green-500 hover:bg-green-600 text-white'
-                          : 'bg-gray-400 text-gray-200 cursor-not-allowed'
+                      onClick={() => setShowOverlays(!showOverlays)}
+                      className={`p-2 rounded-lg transition-colors ${
+                        showOverlays
+                          ? 'bg-blue-500 text-white'
+                          : settings.enableDarkMode
+                            ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                            : 'bg-gray-200 hover:bg-gray-300 text-gray-700'
                       }`}
+                      title="Toggle Overlays"
                     >
-                      <Play size={16} />
-                      Start Detection
+                      {showOverlays ? <Eye size={18} /> : <EyeOff size={18} />}
                     </button>
-                  )}
-
-                  <div className="flex-1"></div>
-
-                  <button
-                    onClick={() => setShowOverlays(!showOverlays)}
-                    className={`p-2 rounded-lg transition-colors ${
-                      showOverlays
-                        ? 'bg-blue-500 text-white'
-                        : settings.enableDarkMode
-                          ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
-                          : 'bg-gray-200 hover:bg-gray-300 text-gray-700'
-                    }`}
-                    title="Toggle Overlays"
-                  >
-                    {showOverlays ? <Eye size={18} /> : <EyeOff size={18} />}
-                  </button>
 
-                  <button
-                    onClick={() => setShowGrid(!showGrid)}
-                    className={`p-2 rounded-lg transition-colors ${
-                      showGrid
-                        ? 'bg-blue-500 text-white'
-                        : settings.enableDarkMode
-                          ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
-                          : 'bg-gray-200 hover:bg-gray-300 text-gray-700'
-                    }`}
-                    title="Toggle Grid"
-                  >
-                    <Grid size={18} />
-                  </button>
-
-                  <button
-                    onClick={captureScreenshot}
-                    disabled={!isStreaming}
-                    className="p-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                    title="Capture Screenshot"
-                  >
-                    <Camera size={18} />
-                  </button>
+                    <button
+                      onClick={() => setShowGrid(!showGrid)}
+                      className={`p-2 rounded-lg transition-colors ${
+                        showGrid
+                          ? 'bg-blue-500 text-white'
+                          : settings.enableDarkMode
+                            ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                            : 'bg-gray-200 hover:bg-gray-300 text-gray-700'
+                      }`}
+                      title="Toggle Grid"
+                    >
+                      <Grid size={18} />
+                    </button>
 
-                  {detectionHistory.length > 0 && (
                     <button
-                      onClick={exportDetectionData}
-                      className="px-4 py-2 bg-purple-500 hover:bg-purple-600 text-white rounded-lg flex items-center gap-2 font-medium transition-colors"
+                      onClick={captureScreenshot}
+                      disabled={!isStreaming}
+                      className="p-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      title="Capture Screenshot"
                     >
-                      <Download size={16} />
-                      Export
+                      <Camera size={18} />
                     </button>
-                  )}
+
+                    {isRecordingSupported() && (
+                      <button
+                        onClick={recordingStartedAt !== null ? stopRecording : startRecording}
+                        disabled={!isStreaming}
+                        className={`p-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                          recordingStartedAt !== null
+                            ? 'bg-red-500 hover:bg-red-600 text-white animate-pulse'
+                            : settings.enableDarkMode
+                              ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                              : 'bg-gray-200 hover:bg-gray-300 text-gray-700'
+                        }`}
+                        title={recordingStartedAt !== null ? 'Stop Recording and Download WebM' : 'Record Annotated Video'}
+                      >
+                        <CircleDot size={18} />
+                      </button>
+                    )}
+
+                    {isVideoMode && videoFile && regionsApplied && regions.length > 0 && (
+                      <button
+                        onClick={() => setShowAnalysis(!showAnalysis)}
+                        className={`p-2 rounded-lg transition-colors ${
+                          showAnalysis
+                            ? 'bg-blue-500 text-white'
+                            : settings.enableDarkMode
+                              ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                              : 'bg-gray-200 hover:bg-gray-300 text-gray-700'
+                        }`}
+                        title="Analyse File"
+                      >
+                        <FileSearch size={18} />
+                      </button>
+                    )}
+
+                    {isVideoMode && videoFile && regionsApplied && regions.length > 0 && (
+                      <button
+                        onClick={toggleEvaluationMode}
+                        className={`p-2 rounded-lg transition-colors ${
+                          evaluationMode
+                            ? 'bg-blue-500 text-white'
+                            : settings.enableDarkMode
+                              ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                              : 'bg-gray-200 hover:bg-gray-300 text-gray-700'
+                        }`}
+                        title="Evaluate Against Ground Truth"
+                      >
+                        <ClipboardCheck size={18} />
+                      </button>
+                    )}
+
+                    {detectionHistory.length > 0 && (
+                      <button
+                        onClick={exportDetectionData}
+                        className="px-4 py-2 bg-purple-500 hover:bg-purple-600 text-white rounded-lg flex items-center gap-2 font-medium transition-colors"
+                      >
+                        <Download size={16} />
+                        Export
+                      </button>
+                    )}
+
+                    {detectionHistory.length > 0 && (
+                      <button
+                        onClick={() => setShowCsvExport(true)}
+                        className="px-4 py-2 bg-purple-500 hover:bg-purple-600 text-white rounded-lg flex items-center gap-2 font-medium transition-colors"
+                        title="Export movements, per-space summary or occupancy as CSV"
+                      >
+                        <FileSpreadsheet size={16} />
+                        CSV
+                      </button>
+                    )}
+                  </div>
                 </div>
               </div>
-            </div>
-          </div>
 
-          {/* Sidebar */}
-          {!isFullscreen && (
-            <div className="lg:col-span-1 space-y-6">
-              {/* Live Status Card */}
-              <div className={`rounded-xl p-6 ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} shadow-xl`}>
-                <div className="flex items-center justify-between mb-6">
-                  <h2 className="text-lg font-bold">Live Status</h2>
-                  <button
-                    onClick={() => setShowCanvas(!showCanvas)}
-                    className={`p-2 rounded-lg transition-colors ${
-                      showCanvas
-                        ? 'bg-blue-500 text-white'
-                        : settings.enableDarkMode
-                        ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
-                        : 'bg-gray-200 hover:bg-gray-300 text-gray-700'
-                    }`}
-                  >
-                    {showCanvas ? <Eye size={16} /> : <EyeOff size={16} />}
-                  </button>
+              {isVideoMode && timelineFrames.length > 0 && regionsApplied && (
+                <div className="mt-6">
+                  <OccupancyTimeline
+                    regions={regions}
+                    frames={timelineFrames}
+                    duration={analysisTimeline?.duration ?? videoDuration}
+                    step={analysisTimeline?.step}
+                    currentTime={videoTime}
+                    highlightedRegionId={highlightedRegionId}
+                    onSeek={seekVideo}
+                    onHighlight={setHighlightedRegionId}
+                  />
                 </div>
+              )}
 
-                {showCanvas && regionsApplied && regions.length > 0 && (
-                  <div className="mb-6">
-                    <ParkingSpaceCanvas
-                      spaces={detectionResults?.spaces || createInitialSpaces(regions)}
-                      width={320}
-                      height={240}
-                      showLabels={canvasSettings.showLabels}
-                      showConfidence={canvasSettings.showConfidence}
-                      animateChanges={canvasSettings.animateChanges}
-                    />
-                  </div>
-                )}
+              {showAnalysis && videoUrl && videoFile && (
+                <div className="mt-6">
+                  <VideoAnalysisPanel
+                    videoUrl={videoUrl}
+                    videoName={videoFile.name}
+                    regions={regions}
+                    detectionOptions={{
+                      ...settings,
+                      configOverrides: activeProfile?.configOverrides,
+                      backgroundModel
+                    }}
+                    timeline={analysisTimeline}
+                    onComplete={handleAnalysisComplete}
+                    onClose={() => setShowAnalysis(false)}
+                  />
+                </div>
+              )}
 
-                {/* Stats Grid */}
-                <div className="grid grid-cols-2 gap-4 mb-6">
-                  <div className={`p-4 rounded-lg ${settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
-                    <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Total Spaces</div>
-                    <div className="text-2xl font-bold">{detectionResults?.total || 0}</div>
-                  </div>
-                  <div className={`p-4 rounded-lg ${settings.enableDarkMode ? 'bg-red-900/20 border border-red-800' : 'bg-red-50 border border-red-200'}`}>
-                    <div className="text-sm text-red-600 dark:text-red-400 mb-1">Occupied</div>
-                    <div className="text-2xl font-bold text-red-600 dark:text-red-400">{detectionResults?.occupied || 0}</div>
-                  </div>
-                  <div className={`p-4 rounded-lg ${settings.enableDarkMode ? 'bg-green-900/20 border border-green-800' : 'bg-green-50 border border-green-200'}`}>
-                    <div className="text-sm text-green-600 dark:text-green-400 mb-1">Available</div>
-                    <div className="text-2xl font-bold text-green-600 dark:text-green-400">{detectionResults?.available || 0}</div>
-                  </div>
-                  <div className={`p-4 rounded-lg ${settings.enableDarkMode ? 'bg-blue-900/20 border border-blue-800' : 'bg-blue-50 border border-blue-200'}`}>
-                    <div className="text-sm text-blue-600 dark:text-blue-400 mb-1">Occupancy</div>
-                    <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">
-                      {Math.round(((detectionResults?.occupied || 0) / (detectionResults?.total || 1)) * 100)}%
-                    </div>
+              {evaluationMode && groundTruth && (
+                <div className="mt-6">
+                  <EvaluationPanel
+                    regions={regions}
+                    groundTruth={groundTruth}
+                    onGroundTruthChange={setGroundTruth}
+                    currentTime={videoTime}
+                    onSeek={seekVideo}
+                    samples={evaluationSamples}
+                    isReplaying={isReplaying}
+                    onReplay={startEvaluationReplay}
+                    onClose={() => setEvaluationMode(false)}
+                  />
+                </div>
+              )}
+            </div>
+
+            {/* Sidebar */}
+            {!isFullscreen && (
+              <div className="lg:col-span-1 space-y-6">
+                {/* Lot Profile */}
+                <div className={`rounded-xl p-6 ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} shadow-xl`}>
+                  <div className="flex items-center gap-2 mb-4">
+                    <MapPin className="w-5 h-5 text-blue-500" />
+                    <h2 className="text-lg font-bold">Lot Profile</h2>
                   </div>
+                  <LotProfilePicker
+                    activeProfileId={activeProfile?.id ?? null}
+                    onLoad={loadLotProfile}
+                    onSave={setActiveProfile}
+                    onDelete={(profileId) => {
+                      if (activeProfile?.id === profileId) setActiveProfile(null);
+                    }}
+                    getSnapshot={getProfileSnapshot}
+                  />
+                  {regionsApplied && regions.length > 0 && (
+                    <button
+                      onClick={() => setShowCalibration(true)}
+                      disabled={!activeProfile}
+                      title={activeProfile ? undefined : 'Save a lot profile first to store calibrated settings'}
+                      className={`mt-4 w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 ${
+                        settings.enableDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+                      }`}
+                    >
+                      <SlidersHorizontal size={16} />
+                      Calibrate Thresholds
+                    </button>
+                  )}
                 </div>
 
-                {/* Performance Metrics */}
-                {isStreaming && (
-                  <div className={`p-4 rounded-lg ${settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
-                    <div className="flex items-center gap-2 mb-3">
-                      <Activity className="w-4 h-4 text-blue-500" />
-                      <h3 className="font-semibold text-sm">Performance</h3>
-                    </div>
-                    <div className="space-y-2 text-sm">
-                      <div className="flex justify-between">
-                        <span className={settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600'}>FPS:</span>
-                        <span className="font-medium">{performanceMetrics.fps.toFixed(1)}</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className={settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600'}>Processing:</span>
-                        <span className="font-medium">{performanceMetrics.processingTime.toFixed(0)}ms</span>
+                {/* Camera Source */}
+                {!isVideoMode && (
+                  <div className={`rounded-xl p-6 ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} shadow-xl`}>
+                    <div className="flex items-center justify-between mb-4">
+                      <div className="flex items-center gap-2">
+                        <Camera className="w-5 h-5 text-blue-500" />
+                        <h2 className="text-lg font-bold">Camera</h2>
                       </div>
-                      <div className="flex justify-between">
-                        <span className={settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600'}>Accuracy:</span>
-                        <span className="font-medium">{performanceMetrics.accuracy.toFixed(1)}%</span>
+                      <span className={`text-xs font-medium ${
+                        cameraStatus === 'live' ? 'text-green-500' : cameraStatus === 'disconnected' ? 'text-yellow-500' : 'text-gray-400'
+                      }`}>
+                        {cameraStatus === 'live' ? 'Connected' : cameraStatus === 'disconnected' ? 'Disconnected' : 'Connecting...'}
+                      </span>
+                    </div>
+                    <div className="space-y-3">
+                      <CameraSelect label="Device" darkMode={settings.enableDarkMode}>
+                        <select
+                          value={cameraConstraints.deviceId ?? ''}
+                          onChange={(e) => updateCameraConstraints({ deviceId: e.target.value || undefined })}
+                          className="w-full bg-transparent focus:outline-none"
+                        >
+                          <option value="">Default camera</option>
+                          {videoDevices.map(device => (
+                            <option key={device.deviceId} value={device.deviceId}>{device.label}</option>
+                          ))}
+                        </select>
+                      </CameraSelect>
+                      <div className="grid grid-cols-2 gap-3">
+                        <CameraSelect label="Resolution" darkMode={settings.enableDarkMode}>
+                          <select
+                            value={`${cameraConstraints.width}x${cameraConstraints.height}`}
+                            onChange={(e) => {
+                              const preset = RESOLUTION_PRESETS.find(p => `${p.width}x${p.height}` === e.target.value);
+                              if (preset) updateCameraConstraints({ width: preset.width, height: preset.height });
+                            }}
+                            className="w-full bg-transparent focus:outline-none"
+                          >
+                            {RESOLUTION_PRESETS.map(preset => (
+                              <option key={preset.label} value={`${preset.width}x${preset.height}`}>{preset.label}</option>
+                            ))}
+                          </select>
+                        </CameraSelect>
+                        <CameraSelect label="Frame rate" darkMode={settings.enableDarkMode}>
+                          <select
+                            value={cameraConstraints.frameRate}
+                            onChange={(e) => updateCameraConstraints({ frameRate: Number(e.target.value) })}
+                            className="w-full bg-transparent focus:outline-none"
+                          >
+                            {FRAME_RATE_OPTIONS.map(rate => (
+                              <option key={rate} value={rate}>{rate} fps</option>
+                            ))}
+                          </select>
+                        </CameraSelect>
                       </div>
-                      <div className="flex justify-between">
-                        <span className={settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600'}>Detections:</span>
-                        <span className="font-medium">{totalDetections}</span>
+                    </div>
+                  </div>
+                )}
+
+                {/* Empty-Lot Baseline */}
+                {regionsApplied && regions.length > 0 && (
+                  <div className={`rounded-xl p-6 ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} shadow-xl`}>
+                    <div className="flex items-center justify-between mb-4">
+                      <div className="flex items-center gap-2">
+                        <Aperture className="w-5 h-5 text-blue-500" />
+                        <h2 className="text-lg font-bold">Empty-Lot Baseline</h2>
                       </div>
+                      <span className="text-xs text-gray-400">
+                        {baselineCount}/{regions.length} spaces
+                      </span>
+                    </div>
+                    <p className={`text-xs mb-4 ${settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                      Spaces with a baseline are scored by how much they differ from their empty appearance.
+                      {!activeProfile && ' Save a lot profile to keep baselines between sessions.'}
+                    </p>
+                    <div className="flex gap-2 mb-3">
+                      <button
+                        onClick={captureBackground}
+                        disabled={isCapturingBackground}
+                        className="flex-1 px-3 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+                      >
+                        {isCapturingBackground ? 'Capturing...' : 'Capture Empty Lot'}
+                      </button>
+                      <button
+                        onClick={clearBackground}
+                        disabled={baselineCount === 0}
+                        title="Clear baselines"
+                        className={`px-3 py-2 rounded-lg transition-colors disabled:opacity-50 ${
+                          settings.enableDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+                        }`}
+                      >
+                        <Trash2 size={16} />
+                      </button>
                     </div>
+                    <label className="flex items-center gap-2 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={learnBackground}
+                        onChange={(e) => setLearnBackground(e.target.checked)}
+                        className="rounded"
+                      />
+                      Keep learning from empty spaces
+                    </label>
                   </div>
                 )}
-              </div>
 
-              {/* Recent Movements */}
-              {vehicleMovements.length > 0 && (
+                {regionsApplied && regions.length > 0 && (
+                  <AlertRulesPanel
+                    rules={alertRules}
+                    onRulesChange={setAlertRules}
+                    regions={regions}
+                    audioEnabled={audioEnabled}
+                    onAudioEnabledChange={setAudioEnabled}
+                    recentAlerts={recentAlerts}
+                  />
+                )}
+
+                <WebhookPanel
+                  config={webhookConfig}
+                  onConfigChange={setWebhookConfig}
+                  status={webhookStatus}
+                  origin={{ lotId: activeProfile?.id ?? null, lotName: activeProfile?.name ?? 'Unsaved lot' }}
+                  onClearQueue={() => webhookClientRef.current?.clearQueue()}
+                />
+
+                <MqttPanel
+                  config={mqttConfig}
+                  onConfigChange={setMqttConfig}
+                  status={mqttStatus}
+                  origin={{ lotId: activeProfile?.id ?? null, lotName: activeProfile?.name ?? 'Unsaved lot' }}
+                />
+
+                {/* Live Status Card */}
                 <div className={`rounded-xl p-6 ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} shadow-xl`}>
-                  <div className="flex items-center gap-2 mb-4">
-                    <Car className="w-5 h-5 text-orange-500" />
-                    <h2 className="text-lg font-bold">Recent Movements</h2>
-                  </div>
-                  <div className="space-y-2">
-                    {vehicleMovements.slice(-5).map((movement, index) => (
-                      <div
-                        key={index}
-                        className={`p-3 rounded-lg text-sm ${
-                          movement.action === 'entered'
-                            ? 'bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300'
-                            : 'bg-green-100 dark:bg-green-900/20 text-green-700 dark:text-green-300'
+                  <div className="flex items-center justify-between mb-6">
+                    <h2 className="text-lg font-bold">Live Status</h2>
+                    <div className="flex items-center gap-2">
+                      <a
+                        href={statusPagePath(activeProfile?.id)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className={`p-2 rounded-lg transition-colors ${
+                          settings.enableDarkMode
+                            ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                            : 'bg-gray-200 hover:bg-gray-300 text-gray-700'
+                        }`}
+                        title="Open the availability display for a screen at the lot entrance"
+                      >
+                        <Tv size={16} />
+                      </a>
+                      <button
+                        onClick={() => setShowCanvas(!showCanvas)}
+                        className={`p-2 rounded-lg transition-colors ${
+                          showCanvas
+                            ? 'bg-blue-500 text-white'
+                            : settings.enableDarkMode
+                            ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                            : 'bg-gray-200 hover:bg-gray-300 text-gray-700'
                         }`}
                       >
-                        <div className="flex items-center justify-between mb-1">
-                          <div className="flex items-center gap-2 font-medium">
-                            {movement.action === 'entered' ? <ArrowRight size={14} /> : <ArrowLeft size={14} />}
-                            <span>P{movement.spaceId + 1}</span>
-                            <span>{movement.action === 'entered' ? 'ENTERED' : 'EXITED'}</span>
+                        {showCanvas ? <Eye size={16} /> : <EyeOff size={16} />}
+                      </button>
+                    </div>
+                  </div>
+
+                  {showCanvas && regionsApplied && regions.length > 0 && (
+                    <div className="mb-6">
+                      <ParkingSpaceCanvas
+                        spaces={detectionResults?.spaces || createInitialSpaces(regions)}
+                        width={320}
+                        height={240}
+                        showLabels={canvasSettings.showLabels}
+                        showConfidence={canvasSettings.showConfidence}
+                        animateChanges={canvasSettings.animateChanges}
+                      />
+                    </div>
+                  )}
+
+                  {/* Stats Grid */}
+                  <div className="grid grid-cols-2 gap-4 mb-6">
+                    <div className={`p-4 rounded-lg ${settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                      <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Total Spaces</div>
+                      <div className="text-2xl font-bold">{detectionResults?.total || 0}</div>
+                    </div>
+                    <div className={`p-4 rounded-lg ${settings.enableDarkMode ? 'bg-red-900/20 border border-red-800' : 'bg-red-50 border border-red-200'}`}>
+                      <div className="text-sm text-red-600 dark:text-red-400 mb-1">Occupied</div>
+                      <div className="text-2xl font-bold text-red-600 dark:text-red-400">{detectionResults?.occupied || 0}</div>
+                    </div>
+                    <div className={`p-4 rounded-lg ${settings.enableDarkMode ? 'bg-green-900/20 border border-green-800' : 'bg-green-50 border border-green-200'}`}>
+                      <div className="text-sm text-green-600 dark:text-green-400 mb-1">Available</div>
+                      <div className="text-2xl font-bold text-green-600 dark:text-green-400">{detectionResults?.available || 0}</div>
+                    </div>
+                    <div className={`p-4 rounded-lg ${settings.enableDarkMode ? 'bg-blue-900/20 border border-blue-800' : 'bg-blue-50 border border-blue-200'}`}>
+                      <div className="text-sm text-blue-600 dark:text-blue-400 mb-1">Occupancy</div>
+                      <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">
+                        {Math.round(((detectionResults?.occupied || 0) / (detectionResults?.total || 1)) * 100)}%
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Zone Counts */}
+                  {hasZones(regions) && (
+                    <div className={`p-4 rounded-lg mb-6 ${settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                      <h3 className="font-semibold text-sm mb-3">By Zone</h3>
+                      <div className="space-y-2 text-sm">
+                        {countByZone(detectionResults?.spaces || createInitialSpaces(regions)).map(count => (
+                          <div key={count.zone} className="flex items-center justify-between gap-2">
+                            <span className="truncate">{count.zone}</span>
+                            <span className="font-medium tabular-nums">
+                              <span className="text-green-600 dark:text-green-400">{count.available}</span>
+                              <span className={settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600'}> / {count.total} free</span>
+                            </span>
                           </div>
-                          <span className="text-xs opacity-75">
-                            {new Date(movement.timestamp).toLocaleTimeString()}
-                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Performance Metrics */}
+                  {isStreaming && (
+                    <div className={`p-4 rounded-lg ${settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                      <div className="flex items-center gap-2 mb-3">
+                        <Activity className="w-4 h-4 text-blue-500" />
+                        <h3 className="font-semibold text-sm">Performance</h3>
+                      </div>
+                      <div className="space-y-2 text-sm">
+                        <div className="flex justify-between">
+                          <span className={settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600'}>FPS:</span>
+                          <span className="font-medium">{performanceMetrics.fps.toFixed(1)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className={settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600'}>Processing:</span>
+                          <span className="font-medium">{performanceMetrics.processingTime.toFixed(0)}ms</span>
                         </div>
-                        <div className="text-xs opacity-75">
-                          {movement.vehicleType && <span>{movement.vehicleType} • </span>}
-                          <span>{Math.round(movement.confidence * 100)}% confidence</span>
-                          {movement.duration && <span> • {Math.round(movement.duration / 60000)}min</span>}
+                        <div className="flex justify-between">
+                          <span className={settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600'}>Avg. confidence:</span>
+                          <span className="font-medium">{performanceMetrics.avgConfidence.toFixed(1)}%</span>
                         </div>
+                        <div className="flex justify-between">
+                          <span className={settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600'}>Detections:</span>
+                          <span className="font-medium">{totalDetections}</span>
+                        </div>
+                        {pipelineMode && (
+                          <div className="flex justify-between">
+                            <span className={settings.enableDarkMode ? 'text-gray-400' : 'text-gray-600'}>Pipeline:</span>
+                            <span className="font-medium">{pipelineMode === 'worker' ? 'Web Worker' : 'Main thread'}</span>
+                          </div>
+                        )}
                       </div>
-                    ))}
-                  </div>
+                    </div>
+                  )}
                 </div>
-              )}
 
-              {/* History */}
-              {detectionHistory.length > 0 && (
-                <div className={`rounded-xl p-6 ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} shadow-xl`}>
-                  <div className="flex items-center gap-2 mb-4">
-                    <BarChart3 className="w-5 h-5 text-blue-500" />
-                    <h2 className="text-lg font-bold">Detection History</h2>
+                {/* Recent Movements */}
+                {vehicleMovements.length > 0 && (
+                  <div className={`rounded-xl p-6 ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} shadow-xl`}>
+                    <div className="flex items-center gap-2 mb-4">
+                      <Car className="w-5 h-5 text-orange-500" />
+                      <h2 className="text-lg font-bold">Recent Movements</h2>
+                    </div>
+                    <div className="space-y-2">
+                      {vehicleMovements.slice(-5).map((movement, index) => (
+                        <div
+                          key={index}
+                          className={`p-3 rounded-lg text-sm ${
+                            movement.action === 'entered'
+                              ? 'bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+                              : 'bg-green-100 dark:bg-green-900/20 text-green-700 dark:text-green-300'
+                          }`}
+                        >
+                          <div className="flex items-center justify-between mb-1">
+                            <div className="flex items-center gap-2 font-medium">
+                              {movement.action === 'entered' ? <ArrowRight size={14} /> : <ArrowLeft size={14} />}
+                              <span>{recordLabel(movement)}</span>
+                              <span>{movement.action === 'entered' ? 'ENTERED' : 'EXITED'}</span>
+                            </div>
+                            <span className="text-xs opacity-75">
+                              {new Date(movement.timestamp).toLocaleTimeString()}
+                            </span>
+                          </div>
+                          <div className="text-xs opacity-75">
+                            {movement.vehicleType && <span>{movement.vehicleType} • </span>}
+                            <span>{Math.round(movement.confidence * 100)}% confidence</span>
+                            {movement.duration && <span> • {Math.round(movement.duration / 60000)}min</span>}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
                   </div>
-                  <div className="space-y-2 max-h-60 overflow-y-auto">
-                    {detectionHistory.slice(-10).reverse().map((record, index) => (
-                      <div
-                        key={index}
-                        className={`p-3 rounded-lg text-sm ${settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-50'}`}
-                      >
-                        <div className="flex justify-between items-center">
-                          <span className="text-xs text-gray-500 dark:text-gray-400">
-                            {new Date(record.timestamp * 1000).toLocaleTimeString()}
-                          </span>
-                          <div className="flex items-center gap-3 text-xs">
-                            <span className="text-red-500">Occ: {record.occupied}</span>
-                            <span className="text-green-500">Avail: {record.available}</span>
+                )}
+
+                {/* History */}
+                {detectionHistory.length > 0 && (
+                  <div className={`rounded-xl p-6 ${settings.enableDarkMode ? 'bg-gray-800' : 'bg-white'} shadow-xl`}>
+                    <div className="flex items-center gap-2 mb-4">
+                      <BarChart3 className="w-5 h-5 text-blue-500" />
+                      <h2 className="text-lg font-bold">Detection History</h2>
+                    </div>
+                    <div className="space-y-2 max-h-60 overflow-y-auto">
+                      {detectionHistory.slice(-10).reverse().map((record, index) => (
+                        <div
+                          key={index}
+                          className={`p-3 rounded-lg text-sm ${settings.enableDarkMode ? 'bg-gray-700' : 'bg-gray-50'}`}
+                        >
+                          <div className="flex justify-between items-center">
+                            <span className="text-xs text-gray-500 dark:text-gray-400">
+                              {new Date(record.timestamp * 1000).toLocaleTimeString()}
+                            </span>
+                            <div className="flex items-center gap-3 text-xs">
+                              <span className="text-red-500">Occ: {record.occupied}</span>
+                              <span className="text-green-500">Avail: {record.available}</span>
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    ))}
+                      ))}
+                    </div>
                   </div>
-                </div>
-              )}
-            </div>
-          )}
-        </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
       </div>
+
+      {showCalibration && (
+        <CalibrationWizard
+          regions={regions}
+          detectionOptions={{
+            ...settings,
+            configOverrides: activeProfile?.configOverrides,
+            backgroundModel
+          }}
+          captureFrame={captureFrame}
+          onApply={applyCalibration}
+          onClose={() => setShowCalibration(false)}
+        />
+      )}
+
+      {showCsvExport && (
+        <CsvExportDialog
+          getData={getCsvExportData}
+          fileNamePrefix="parking-detection"
+          onClose={() => setShowCsvExport(false)}
+        />
+      )}
     </div>
   );
 };
 
+const CameraSelect: React.FC<{ label: string; darkMode: boolean; children: React.ReactNode }> = ({ label, darkMode, children }) => (
+  <label className="block text-sm">
+    <span className={`block mb-1 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>{label}</span>
+    <div className={`rounded-lg border px-2 py-1.5 ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}>
+      {children}
+    </div>
+  </label>
+);
+
 export default LiveDetection;
@@ -0,0 +1,170 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, ArrowRight, ArrowUp } from 'lucide-react';
+import {
+  LiveStatusSnapshot,
+  StatusDirection,
+  StatusTheme,
+  groupStatusZones,
+  parseStatusPageOptions,
+  readLiveStatus,
+  statusLotId,
+  subscribeLiveStatus,
+  subscribeMqttLiveStatus
+} from '../utils/lotStatus';
+
+type Availability = 'available' | 'low' | 'full';
+
+interface ThemeStyle {
+  page: string;
+  muted: string;
+  card: string;
+  colors: Record<Availability, string>;
+}
+
+const THEMES: Record<StatusTheme, ThemeStyle> = {
+  dark: {
+    page: 'bg-gray-950 text-white',
+    muted: 'text-gray-400',
+    card: 'bg-gray-900 border border-gray-800',
+    colors: { available: 'text-green-400', low: 'text-amber-400', full: 'text-red-500' }
+  },
+  light: {
+    page: 'bg-gray-100 text-gray-900',
+    muted: 'text-gray-500',
+    card: 'bg-white border border-gray-200 shadow-lg',
+    colors: { available: 'text-green-600', low: 'text-amber-500', full: 'text-red-600' }
+  },
+  contrast: {
+    page: 'bg-black text-white',
+    muted: 'text-white',
+    card: 'bg-black border-4 border-white',
+    colors: { available: 'text-green-400', low: 'text-yellow-300', full: 'text-red-500' }
+  }
+};
+
+const ARROWS: Record<StatusDirection, React.ElementType> = {
+  left: ArrowLeft,
+  ahead: ArrowUp,
+  right: ArrowRight
+};
+
+// Fewer than this share of spaces free shows as nearly full
+const LOW_AVAILABILITY = 0.1;
+
+const availability = (free: number, total: number): Availability =>
+  free === 0 ? 'full' : free / total < LOW_AVAILABILITY ? 'low' : 'available';
+
+const LotStatus: React.FC = () => {
+  const { lotId: lotIdParam } = useParams();
+  const [searchParams] = useSearchParams();
+  const lotId = statusLotId(lotIdParam);
+  const options = useMemo(() => parseStatusPageOptions(searchParams), [searchParams]);
+  const [snapshot, setSnapshot] = useState<LiveStatusSnapshot | null>(() => options.mqtt ? null : readLiveStatus(lotId));
+  const [feedError, setFeedError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (options.mqtt) {
+      setSnapshot(null);
+      return subscribeMqttLiveStatus(options.mqtt, lotId, setSnapshot, setFeedError);
+    }
+
+    setSnapshot(readLiveStatus(lotId));
+    const unsubscribe = subscribeLiveStatus(lotId, setSnapshot);
+    // Re-read on an interval too, in case a broadcast was missed while the screen slept
+    const refresh = setInterval(() => setSnapshot(readLiveStatus(lotId)), options.refreshSeconds * 1000);
+    return () => {
+      unsubscribe();
+      clearInterval(refresh);
+    };
+  }, [lotId, options.refreshSeconds, options.mqtt]);
+
+  useEffect(() => {
+    const clock = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(clock);
+  }, []);
+
+  const title = options.title || snapshot?.lotName || 'Parking';
+  useEffect(() => {
+    document.title = `${title} · Availability`;
+  }, [title]);
+
+  const theme = THEMES[options.theme];
+  const isStale = !snapshot || !snapshot.isRunning || now - snapshot.updatedAt > options.staleSeconds * 1000;
+  const total = snapshot?.spaces.length ?? 0;
+  const free = snapshot ? snapshot.spaces.filter(space => !space.isOccupied).length : 0;
+  const zones = snapshot && options.showZones ? groupStatusZones(snapshot.spaces, options.mirror) : [];
+  const overall = availability(free, total);
+
+  return (
+    <div className={`fixed inset-0 flex flex-col cursor-none select-none overflow-hidden ${theme.page}`}>
+      <header className="flex items-center justify-between px-[4vw] pt-[3vh]">
+        <h1 className="text-[4vw] font-bold leading-tight truncate">{title}</h1>
+        <div className={`text-[3vw] font-mono tabular-nums ${theme.muted}`}>
+          {new Date(now).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </div>
+      </header>
+
+      {isStale || total === 0 ? (
+        <main className="flex-1 flex flex-col items-center justify-center text-center px-[4vw]">
+          <div className="text-[6vw] font-bold">Availability unavailable</div>
+          <div className={`text-[2.5vw] mt-[2vh] ${theme.muted}`}>
+            {feedError
+              ? `Cannot reach the broker: ${feedError}`
+              : !snapshot && options.mqtt
+              ? `Waiting for lot "${lotId}" from ${new URL(options.mqtt.url).host}`
+              : !snapshot
+              ? `Waiting for live detection on lot "${lotId}" in this browser`
+              : !snapshot.isRunning
+              ? 'Detection is paused'
+              : `No update since ${new Date(snapshot.updatedAt).toLocaleTimeString()}`}
+          </div>
+          {!snapshot && !options.mqtt && (
+            <div className={`text-[1.8vw] mt-[2vh] ${theme.muted}`}>
+              Detection must run in another tab of this browser. To show a lot detected on
+              another machine, add ?mqtt=wss://your-broker to this page's address.
+            </div>
+          )}
+        </main>
+      ) : (
+        <main className="flex-1 flex flex-col justify-center gap-[4vh] px-[4vw]">
+          <div className="text-center">
+            <div className={`text-[18vw] font-black leading-none tabular-nums ${theme.colors[overall]}`}>
+              {overall === 'full' ? 'FULL' : free}
+            </div>
+            <div className={`text-[3.5vw] font-semibold ${theme.muted}`}>
+              {overall === 'full' ? `All ${total} spaces occupied` : `of ${total} spaces free`}
+            </div>
+          </div>
+
+          {zones.length > 1 && (
+            <div className="grid gap-[2vw]" style={{ gridTemplateColumns: `repeat(${zones.length}, minmax(0, 1fr))` }}>
+              {zones.map(zone => {
+                const Arrow = ARROWS[zone.direction];
+                const state = availability(zone.free, zone.total);
+                return (
+                  <div key={zone.id} className={`rounded-[2vw] p-[2vw] flex items-center justify-center gap-[2vw] ${theme.card}`}>
+                    <Arrow className={`w-[8vw] h-[8vw] ${theme.colors[state]}`} strokeWidth={3} />
+                    <div>
+                      <div className={`text-[7vw] font-black leading-none tabular-nums ${theme.colors[state]}`}>
+                        {state === 'full' ? 'FULL' : zone.free}
+                      </div>
+                      <div className={`text-[2vw] ${theme.muted}`}>{zone.name}</div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </main>
+      )}
+
+      <footer className={`px-[4vw] pb-[2vh] text-[1.5vw] ${theme.muted}`}>
+        {snapshot && `Updated ${new Date(snapshot.updatedAt).toLocaleTimeString()}`}
+      </footer>
+    </div>
+  );
+};
+
+export default LotStatus;
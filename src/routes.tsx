@@ -4,6 +4,7 @@ import LiveDetection from './pages/LiveDetection';
 import ImageUpload from './pages/ImageUpload';
 import Settings from './pages/Settings';
 import About from './pages/About';
+import LotStatus from './pages/LotStatus';
 import Layout from './components/layout/Layout';
 
 export const routes = [
@@ -62,6 +63,11 @@ export const router = createBrowserRouter(
         },
       ],
     },
+    {
+      // Kiosk display for a screen at the lot entrance, rendered without the app chrome
+      path: '/status/:lotId?',
+      element: <LotStatus />,
+    },
   ],
   {
     future: {
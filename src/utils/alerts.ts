@@ -0,0 +1,206 @@
+// Occupancy alerts raised from consecutive detection results. Each rule has
+// its own cooldown so a space flickering between states, or a lot hovering
+// around its threshold, does not fire a burst of alerts.
+
+export type AlertRuleKind = 'space-freed' | 'lot-full' | 'space-changed';
+
+export interface AlertRule {
+  id: string;
+  kind: AlertRuleKind;
+  enabled: boolean;
+  cooldownSeconds: number;
+  threshold: number;                  // Percent occupied, lot-full only
+  regionIds: string[];                // Watched spaces; empty means every space
+  sound: boolean;
+  desktop: boolean;
+}
+
+export interface AlertEvent {
+  ruleId: string;
+  kind: AlertRuleKind;
+  title: string;
+  body: string;
+  timestamp: number;
+}
+
+export interface AlertSpace {
+  regionId: string;
+  label: string;
+  isOccupied: boolean;
+}
+
+// Per-rule memory between evaluations
+export interface AlertState {
+  lastFired: Record<string, number>;
+  wasAboveThreshold: Record<string, boolean>;
+}
+
+export const ALERT_RULE_LABELS: Record<AlertRuleKind, string> = {
+  'space-freed': 'Space becomes free',
+  'lot-full': 'Lot reaches threshold',
+  'space-changed': 'Watched space changes'
+};
+
+const STORAGE_KEY = 'parksense-alert-rules';
+
+export function createAlertRule(kind: AlertRuleKind): AlertRule {
+  return {
+    id: `alert-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    kind,
+    enabled: true,
+    cooldownSeconds: kind === 'lot-full' ? 300 : 60,
+    threshold: 90,
+    regionIds: [],
+    sound: true,
+    desktop: false
+  };
+}
+
+export function createAlertState(): AlertState {
+  return { lastFired: {}, wasAboveThreshold: {} };
+}
+
+export function loadAlertRules(): AlertRule[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [createAlertRule('space-freed'), createAlertRule('lot-full')];
+  } catch {
+    return [];
+  }
+}
+
+export function saveAlertRules(rules: AlertRule[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  } catch (error) {
+    console.warn('Failed to save alert rules to localStorage:', error);
+  }
+}
+
+const watches = (rule: AlertRule, regionId: string) =>
+  rule.regionIds.length === 0 || rule.regionIds.includes(regionId);
+
+const labelList = (spaces: AlertSpace[]) => spaces.map(space => space.label).join(', ');
+
+// Compares two consecutive results; mutates `state` for the rules that fire.
+// The first result after a start only primes threshold tracking.
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  spaces: AlertSpace[],
+  previousSpaces: AlertSpace[],
+  state: AlertState,
+  now = Date.now()
+): AlertEvent[] {
+  const events: AlertEvent[] = [];
+  const previousById = new Map(previousSpaces.map(space => [space.regionId, space]));
+  const changed = spaces.filter(space => {
+    const previous = previousById.get(space.regionId);
+    return previous !== undefined && previous.isOccupied !== space.isOccupied;
+  });
+  const occupied = spaces.filter(space => space.isOccupied).length;
+  const rate = spaces.length > 0 ? (occupied / spaces.length) * 100 : 0;
+
+  rules.forEach(rule => {
+    if (!rule.enabled) return;
+
+    let event: Omit<AlertEvent, 'ruleId' | 'kind' | 'timestamp'> | null = null;
+    switch (rule.kind) {
+      case 'space-freed': {
+        const freed = changed.filter(space => !space.isOccupied && watches(rule, space.regionId));
+        if (freed.length > 0) {
+          event = {
+            title: freed.length === 1 ? `${freed[0].label} is free` : `${freed.length} spaces are free`,
+            body: `${labelList(freed)} became available · ${spaces.length - occupied} of ${spaces.length} free`
+          };
+        }
+        break;
+      }
+      case 'lot-full': {
+        const isAbove = rate >= rule.threshold;
+        const wasAbove = state.wasAboveThreshold[rule.id];
+        state.wasAboveThreshold[rule.id] = isAbove;
+        if (isAbove && wasAbove === false) {
+          event = {
+            title: `Lot is ${Math.round(rate)}% full`,
+            body: `${occupied} of ${spaces.length} spaces occupied, at or above the ${rule.threshold}% threshold`
+          };
+        }
+        break;
+      }
+      case 'space-changed': {
+        const watched = changed.filter(space => rule.regionIds.includes(space.regionId));
+        if (watched.length > 0) {
+          event = {
+            title: watched.length === 1
+              ? `${watched[0].label} is now ${watched[0].isOccupied ? 'occupied' : 'free'}`
+              : `${watched.length} watched spaces changed`,
+            body: watched.map(space => `${space.label}: ${space.isOccupied ? 'occupied' : 'free'}`).join(', ')
+          };
+        }
+        break;
+      }
+    }
+
+    if (!event) return;
+    const lastFired = state.lastFired[rule.id];
+    if (lastFired !== undefined && now - lastFired < rule.cooldownSeconds * 1000) return;
+
+    state.lastFired[rule.id] = now;
+    events.push({ ...event, ruleId: rule.id, kind: rule.kind, timestamp: now });
+  });
+
+  return events;
+}
+
+let audioContext: AudioContext | null = null;
+
+// Short synthesized chimes: rising for a freed space, low double beep for a full lot
+const TONES: Record<AlertRuleKind, number[]> = {
+  'space-freed': [660, 880],
+  'lot-full': [440, 440],
+  'space-changed': [587]
+};
+
+export function playAlertSound(kind: AlertRuleKind) {
+  try {
+    if (!audioContext) audioContext = new AudioContext();
+    const ctx = audioContext;
+    if (ctx.state === 'suspended') ctx.resume().catch(() => undefined);
+
+    TONES[kind].forEach((frequency, i) => {
+      const start = ctx.currentTime + i * 0.18;
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(0.25, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.16);
+      oscillator.connect(gain).connect(ctx.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.17);
+    });
+  } catch (error) {
+    console.warn('Failed to play alert sound:', error);
+  }
+}
+
+export function notificationsSupported(): boolean {
+  return typeof Notification !== 'undefined';
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!notificationsSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+}
+
+export function showDesktopNotification(event: AlertEvent) {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  try {
+    // One tag per rule so a new alert replaces the previous one instead of stacking
+    new Notification(event.title, { body: event.body, tag: event.ruleId });
+  } catch (error) {
+    console.warn('Failed to show notification:', error);
+  }
+}
@@ -0,0 +1,191 @@
+import type { VehicleMovement } from './occupancyStore';
+import { recordLabel } from './spaceLabels';
+
+// Records the detection view as WebM: each animation frame composites the
+// source video, the overlay canvas, a stats header and movement toasts onto an
+// offscreen canvas whose captureStream() feeds a MediaRecorder.
+
+const MAX_OUTPUT_WIDTH = 1920;
+const FRAME_RATE = 30;
+const VIDEO_BITS_PER_SECOND = 5000000;
+const MIME_TYPE_CANDIDATES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+const FONT = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+
+export interface RecordingStats {
+  lotName?: string;
+  occupied: number;
+  available: number;
+}
+
+export interface AnnotatedRecordingOptions {
+  source: HTMLVideoElement;
+  getOverlay: () => HTMLCanvasElement | null;   // null while overlays are hidden
+  getStats: () => RecordingStats | null;
+  getMovements: () => VehicleMovement[];
+  onError?: (error: Error) => void;
+}
+
+export interface AnnotatedRecording {
+  mimeType: string;
+  startedAt: number;
+  stop: () => Promise<Blob>;
+}
+
+export function isRecordingSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined' &&
+    typeof HTMLCanvasElement.prototype.captureStream === 'function' &&
+    MIME_TYPE_CANDIDATES.some(type => MediaRecorder.isTypeSupported(type));
+}
+
+// Where an object-contain element actually shows its content, in CSS pixels
+function containedRect(element: HTMLVideoElement) {
+  const rect = element.getBoundingClientRect();
+  const videoAspect = element.videoWidth / element.videoHeight;
+  const containerAspect = rect.width / rect.height;
+  if (videoAspect > containerAspect) {
+    const height = rect.width / videoAspect;
+    return { x: 0, y: (rect.height - height) / 2, width: rect.width, height, containerWidth: rect.width };
+  }
+  const width = rect.height * videoAspect;
+  return { x: (rect.width - width) / 2, y: 0, width, height: rect.height, containerWidth: rect.width };
+}
+
+function drawStatsHeader(ctx: CanvasRenderingContext2D, width: number, scale: number, stats: RecordingStats | null) {
+  const height = 40 * scale;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.textBaseline = 'middle';
+  ctx.font = `bold ${15 * scale}px ${FONT}`;
+  ctx.textAlign = 'left';
+  ctx.fillStyle = '#ef4444';
+  ctx.beginPath();
+  ctx.arc(16 * scale, height / 2, 5 * scale, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = 'white';
+  ctx.fillText(stats?.lotName || 'Divya Drishti', 28 * scale, height / 2);
+
+  const parts = [new Date().toLocaleString()];
+  if (stats) {
+    const total = stats.occupied + stats.available;
+    parts.unshift(
+      `Available ${stats.available}`,
+      `Occupied ${stats.occupied}`,
+      `${total > 0 ? Math.round((stats.occupied / total) * 100) : 0}%`
+    );
+  }
+  ctx.font = `${14 * scale}px ${FONT}`;
+  ctx.textAlign = 'right';
+  ctx.fillText(parts.join('   ·   '), width - 14 * scale, height / 2);
+}
+
+function drawMovementToasts(ctx: CanvasRenderingContext2D, width: number, scale: number, movements: VehicleMovement[]) {
+  const toastWidth = 220 * scale;
+  const toastHeight = 30 * scale;
+  const x = width - toastWidth - 14 * scale;
+
+  movements.slice(-5).forEach((movement, i) => {
+    const y = (52 + i * 38) * scale;
+    ctx.fillStyle = movement.action === 'entered' ? 'rgba(239, 68, 68, 0.9)' : 'rgba(34, 197, 94, 0.9)';
+    ctx.fillRect(x, y, toastWidth, toastHeight);
+
+    ctx.fillStyle = 'white';
+    ctx.font = `bold ${13 * scale}px ${FONT}`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    const verb = movement.action === 'entered' ? 'occupied' : 'vacated';
+    const vehicle = movement.vehicleType ? ` (${movement.vehicleType})` : '';
+    ctx.fillText(`${recordLabel(movement)} ${verb}${vehicle}`, x + 10 * scale, y + toastHeight / 2);
+  });
+}
+
+export function startAnnotatedRecording(options: AnnotatedRecordingOptions): AnnotatedRecording {
+  const { source } = options;
+  if (!isRecordingSupported()) {
+    throw new Error('Video recording is not supported in this browser');
+  }
+  if (source.videoWidth === 0 || source.videoHeight === 0) {
+    throw new Error('No video frames available to record');
+  }
+
+  const outputWidth = Math.min(source.videoWidth, MAX_OUTPUT_WIDTH);
+  const outputHeight = Math.round(outputWidth * (source.videoHeight / source.videoWidth));
+  const canvas = document.createElement('canvas');
+  canvas.width = outputWidth;
+  canvas.height = outputHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to create recording canvas');
+  }
+
+  // Overlay text is sized for a ~1000px wide view; keep it legible at any output size
+  const scale = Math.max(1, outputWidth / 1000);
+
+  const drawFrame = () => {
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, outputWidth, outputHeight);
+    if (source.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      ctx.drawImage(source, 0, 0, outputWidth, outputHeight);
+    }
+
+    // The overlay canvas spans the letterboxed container; crop it to the video area
+    const overlay = options.getOverlay();
+    if (overlay && overlay.width > 0 && source.videoWidth > 0) {
+      const area = containedRect(source);
+      const ratio = overlay.width / (area.containerWidth || overlay.width);
+      ctx.drawImage(
+        overlay,
+        area.x * ratio, area.y * ratio, area.width * ratio, area.height * ratio,
+        0, 0, outputWidth, outputHeight
+      );
+    }
+
+    drawStatsHeader(ctx, outputWidth, scale, options.getStats());
+    drawMovementToasts(ctx, outputWidth, scale, options.getMovements());
+  };
+
+  const mimeType = MIME_TYPE_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type)) as string;
+  const stream = canvas.captureStream(FRAME_RATE);
+  const chunks: Blob[] = [];
+  let recorder: MediaRecorder;
+  drawFrame();
+  try {
+    recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onerror = () => {
+      options.onError?.(new Error('Recording failed'));
+    };
+    recorder.start(1000);
+  } catch (err) {
+    stream.getTracks().forEach(track => track.stop());
+    throw err;
+  }
+
+  // A timer rather than requestAnimationFrame, which stops in background tabs
+  // and would freeze the recording while the operator looks elsewhere
+  const frameTimer = setInterval(drawFrame, 1000 / FRAME_RATE);
+
+  const cleanup = () => {
+    clearInterval(frameTimer);
+    stream.getTracks().forEach(track => track.stop());
+  };
+
+  return {
+    mimeType,
+    startedAt: Date.now(),
+    stop: () => new Promise<Blob>((resolve) => {
+      if (recorder.state === 'inactive') {
+        cleanup();
+        resolve(new Blob(chunks, { type: 'video/webm' }));
+        return;
+      }
+      recorder.onstop = () => {
+        cleanup();
+        resolve(new Blob(chunks, { type: 'video/webm' }));
+      };
+      recorder.stop();
+    })
+  };
+}
@@ -0,0 +1,125 @@
+// Per-space empty-lot baselines. Occupancy is scored as how far a space has
+// drifted from its own empty appearance, so painted markings or textured
+// asphalt that are always there stop reading as vehicles.
+
+export const BASELINE_THUMBNAIL_SIZE = 16;
+
+// Step of the approximate running median, as a fraction of each value's range.
+// Small enough that a car parked for a few minutes barely moves the baseline.
+const MEDIAN_STEP = 0.02;
+
+export interface SpaceFeatureVector {
+  edgeDensity: number;
+  textureComplexity: number;
+  colorVariance: number;
+  brightness: number;
+}
+
+export interface SpaceBaseline {
+  regionId: string;
+  features: SpaceFeatureVector;
+  thumbnail: number[]; // Contrast-normalised grayscale, BASELINE_THUMBNAIL_SIZE² values
+  samples: number;
+  updatedAt: number;
+}
+
+// Baselines keyed by Region.id
+export type BackgroundModel = Record<string, SpaceBaseline>;
+
+// Downsample the masked pixels into a small grayscale grid, then normalise to
+// zero mean and unit variance so global lighting changes cancel out.
+export function computeThumbnail(imageData: ImageData, mask?: Uint8Array): number[] {
+  const size = BASELINE_THUMBNAIL_SIZE;
+  const sums = new Float64Array(size * size);
+  const counts = new Uint32Array(size * size);
+  const { width, height, data } = imageData;
+
+  for (let y = 0; y < height; y++) {
+    const cellY = Math.min(size - 1, Math.floor((y / height) * size));
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x;
+      if (mask && !mask[pixel]) continue;
+      const cell = cellY * size + Math.min(size - 1, Math.floor((x / width) * size));
+      const idx = pixel * 4;
+      sums[cell] += 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
+      counts[cell]++;
+    }
+  }
+
+  let mean = 0;
+  let filled = 0;
+  const cells = Array.from(sums, (sum, i) => {
+    if (counts[i] === 0) return NaN;
+    filled++;
+    mean += sum / counts[i];
+    return sum / counts[i];
+  });
+  mean = filled > 0 ? mean / filled : 0;
+
+  const variance = cells.reduce((acc, v) => Number.isNaN(v) ? acc : acc + (v - mean) ** 2, 0) / Math.max(1, filled);
+  const std = Math.sqrt(variance) || 1;
+
+  // Cells outside the polygon stay at 0 so they never contribute a difference
+  return cells.map(v => Number.isNaN(v) ? 0 : (v - mean) / std);
+}
+
+export function createBaseline(regionId: string, features: SpaceFeatureVector, thumbnail: number[]): SpaceBaseline {
+  return {
+    regionId,
+    features: { ...features },
+    thumbnail: [...thumbnail],
+    samples: 1,
+    updatedAt: Date.now()
+  };
+}
+
+// Approximate running median: every sample nudges the estimate one small step
+// towards itself, which tracks the median without keeping any history.
+const stepTowards = (current: number, sample: number, step: number) =>
+  sample > current ? Math.min(sample, current + step) : Math.max(sample, current - step);
+
+export function updateBaseline(baseline: SpaceBaseline, features: SpaceFeatureVector, thumbnail: number[]): SpaceBaseline {
+  const nextFeatures = { ...baseline.features };
+  (Object.keys(nextFeatures) as (keyof SpaceFeatureVector)[]).forEach(key => {
+    nextFeatures[key] = stepTowards(baseline.features[key], features[key], MEDIAN_STEP);
+  });
+
+  return {
+    ...baseline,
+    features: nextFeatures,
+    // Normalised thumbnail values span roughly -3..3
+    thumbnail: baseline.thumbnail.map((value, i) => stepTowards(value, thumbnail[i] ?? value, MEDIAN_STEP * 6)),
+    samples: baseline.samples + 1,
+    updatedAt: Date.now()
+  };
+}
+
+// 0 when the space looks like its empty baseline, approaching 1 as it departs
+// from it. Appearance (thumbnail) carries most of the weight; texture-type
+// features back it up.
+export function scoreDeviation(baseline: SpaceBaseline, features: SpaceFeatureVector, thumbnail: number[]): number {
+  let thumbnailDiff = 0;
+  let compared = 0;
+  baseline.thumbnail.forEach((value, i) => {
+    if (value === 0 && thumbnail[i] === 0) return;
+    thumbnailDiff += Math.abs(value - (thumbnail[i] ?? 0));
+    compared++;
+  });
+  // Mean absolute difference of two unit-variance signals tops out around 1.6
+  const appearance = compared > 0 ? Math.min(1, thumbnailDiff / compared / 1.2) : 0;
+
+  const relative = (current: number, reference: number) =>
+    Math.min(1, Math.abs(current - reference) / Math.max(reference, 0.02));
+  const texture = (
+    relative(features.edgeDensity, baseline.features.edgeDensity) +
+    relative(features.textureComplexity, baseline.features.textureComplexity) +
+    relative(features.colorVariance, baseline.features.colorVariance)
+  ) / 3;
+
+  return 0.7 * appearance + 0.3 * texture;
+}
+
+// Drop baselines whose region no longer exists in the layout
+export function pruneBackgroundModel(model: BackgroundModel, regionIds: string[]): BackgroundModel {
+  return Object.fromEntries(Object.entries(model).filter(([id]) => regionIds.includes(id)));
+}
@@ -0,0 +1,177 @@
+import { DetectionOptions, ParkingDetector, Region } from './parkingDetection';
+import { TimestampFormat, formatTimestamp, toCSV } from './csvExport';
+import { createZip, dataUrlToBytes } from './zip';
+import { spaceLabel } from './spaceLabels';
+import { readAsDataUrl } from './fileReading';
+
+// Runs one region layout over a folder of snapshots. Each image is scored on
+// its own: the detector is reset between images so temporal smoothing and
+// motion history from one snapshot never leak into the next.
+
+export const MAX_BATCH_SIZE = 200;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+export type BatchItemStatus = 'queued' | 'processing' | 'done' | 'error' | 'cancelled';
+
+export interface BatchSpaceResult {
+  regionId: string;
+  isOccupied: boolean;
+  confidence: number;
+  vehicleType?: string;
+}
+
+export interface BatchItemResult {
+  total: number;
+  occupied: number;
+  available: number;
+  processingTime: number;
+  spaces: BatchSpaceResult[];
+  annotatedImage?: string;            // JPEG data URL
+}
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  result?: BatchItemResult;
+  error?: string;
+}
+
+export interface BatchOptions {
+  regions: Region[];
+  detectionOptions?: Partial<DetectionOptions>;
+  signal?: AbortSignal;
+  onItemUpdate: (item: BatchItem) => void;
+}
+
+export function createBatchItems(files: File[]): { items: BatchItem[]; rejected: string[] } {
+  const rejected: string[] = [];
+  const items = files
+    .filter(file => {
+      if (!file.type.startsWith('image/')) {
+        rejected.push(`${file.name}: not an image`);
+        return false;
+      }
+      if (file.size > MAX_IMAGE_BYTES) {
+        rejected.push(`${file.name}: larger than 10MB`);
+        return false;
+      }
+      return true;
+    })
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+    .map((file, i) => ({ id: `batch-${Date.now()}-${i}`, file, status: 'queued' as const }));
+
+  return { items, rejected };
+}
+
+// Processes queued items in order; items already done are left alone so a
+// cancelled batch can be resumed. Stops early when the signal aborts.
+export async function processBatch(items: BatchItem[], options: BatchOptions): Promise<void> {
+  const detector = new ParkingDetector(options.detectionOptions, {
+    showDebugInfo: true,
+    useMotionDetection: false,
+    useTemporalSmoothing: false,
+    skipFastFrames: false
+  });
+
+  try {
+    for (const item of items) {
+      if (item.status === 'done') continue;
+      if (options.signal?.aborted) {
+        options.onItemUpdate({ ...item, status: 'cancelled' });
+        continue;
+      }
+
+      options.onItemUpdate({ ...item, status: 'processing', error: undefined });
+      try {
+        detector.reset();
+        const image = await readAsDataUrl(item.file);
+        const result = await detector.detect(image, options.regions);
+        options.onItemUpdate({
+          ...item,
+          status: 'done',
+          result: {
+            total: result.total,
+            occupied: result.occupied,
+            available: result.available,
+            processingTime: result.processingTime ?? 0,
+            spaces: result.spaces.map(space => ({
+              regionId: space.region.id,
+              isOccupied: space.isOccupied,
+              confidence: space.confidence,
+              vehicleType: space.vehicleType
+            })),
+            annotatedImage: result.image
+          }
+        });
+      } catch (err) {
+        console.warn(`Batch processing failed for ${item.file.name}:`, err);
+        options.onItemUpdate({
+          ...item,
+          status: 'error',
+          error: err instanceof Error ? err.message : 'Detection failed'
+        });
+      }
+    }
+  } finally {
+    detector.dispose();
+  }
+}
+
+// One row per image with a state column per space, in layout order
+export function batchResultsCSV(items: BatchItem[], regions: Region[], format: TimestampFormat): string {
+  const header = [
+    'file', 'file_modified', 'status', 'total', 'occupied', 'available', 'occupancy_pct', 'processing_ms',
+    ...regions.map((region, i) => spaceLabel(region, i))
+  ];
+
+  const rows = items.map(item => {
+    const result = item.result;
+    const states = regions.map(region => {
+      const space = result?.spaces.find(s => s.regionId === region.id);
+      return space ? (space.isOccupied ? 'occupied' : 'empty') : '';
+    });
+    return [
+      item.file.name,
+      formatTimestamp(item.file.lastModified, format),
+      item.status === 'error' ? `error: ${item.error ?? ''}` : item.status,
+      result?.total,
+      result?.occupied,
+      result?.available,
+      result && result.total > 0 ? ((result.occupied / result.total) * 100).toFixed(1) : '',
+      result ? Math.round(result.processingTime) : '',
+      ...states
+    ];
+  });
+
+  return toCSV(header, rows);
+}
+
+type AnnotatedBatchItem = BatchItem & { result: BatchItemResult & { annotatedImage: string } };
+
+const hasAnnotatedImage = (item: BatchItem): item is AnnotatedBatchItem => Boolean(item.result?.annotatedImage);
+
+// Annotated images plus the combined CSV in a single archive
+export function batchResultsZip(items: BatchItem[], regions: Region[], format: TimestampFormat): Blob {
+  const encoder = new TextEncoder();
+  const usedNames = new Set<string>();
+
+  const images = items
+    .filter(hasAnnotatedImage)
+    .map(item => {
+      const base = item.file.name.replace(/\.[^.]+$/, '') || 'image';
+      let name = `annotated/${base}.jpg`;
+      for (let n = 2; usedNames.has(name); n++) name = `annotated/${base}-${n}.jpg`;
+      usedNames.add(name);
+      return {
+        name,
+        data: dataUrlToBytes(item.result.annotatedImage),
+        modified: new Date(item.file.lastModified)
+      };
+    });
+
+  return createZip([
+    ...images,
+    { name: 'results.csv', data: encoder.encode(batchResultsCSV(items, regions, format)) }
+  ]);
+}
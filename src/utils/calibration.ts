@@ -0,0 +1,172 @@
+import {
+  DetectionConfig,
+  DetectionOptions,
+  ParkingDetector,
+  ParkingSpace,
+  Region,
+  resolveConfig,
+  scoreOccupancy
+} from './parkingDetection';
+
+// A sample frame with the operator's occupied/empty call for each space
+export interface CalibrationFrame {
+  id: string;
+  image: string;                       // Data URL
+  labels: Record<string, boolean>;     // Region id -> occupied
+}
+
+export interface CalibrationSample {
+  features: ParkingSpace['features'];
+  occupied: boolean;
+}
+
+export interface CalibrationScore {
+  correct: number;
+  total: number;
+  accuracy: number;                    // 0-1
+}
+
+export interface CalibrationResult {
+  overrides: Partial<DetectionConfig>;
+  before: CalibrationScore;
+  after: CalibrationScore;
+}
+
+type TunableKey =
+  | 'OCCUPANCY_THRESHOLD'
+  | 'SHADOW_THRESHOLD'
+  | 'EDGE_DENSITY_THRESHOLD'
+  | 'TEXTURE_COMPLEXITY_THRESHOLD'
+  | 'COLOR_VARIANCE_THRESHOLD'
+  | 'BACKGROUND_DEVIATION_THRESHOLD'
+  | 'COVERAGE_WEIGHT'
+  | 'TEXTURE_WEIGHT'
+  | 'EDGE_WEIGHT'
+  | 'COLOR_WEIGHT';
+
+// Candidate values tried for each tunable; thresholds and weights share a 0.05 grid
+const grid = (from: number, to: number) =>
+  Array.from({ length: Math.round((to - from) / 0.05) + 1 }, (_, i) => Math.round((from + i * 0.05) * 100) / 100);
+
+const SEARCH_SPACE: Record<TunableKey, number[]> = {
+  OCCUPANCY_THRESHOLD: grid(0.1, 0.9),
+  SHADOW_THRESHOLD: grid(0, 0.8),
+  EDGE_DENSITY_THRESHOLD: grid(0, 0.6),
+  TEXTURE_COMPLEXITY_THRESHOLD: grid(0, 0.6),
+  COLOR_VARIANCE_THRESHOLD: grid(0, 0.6),
+  BACKGROUND_DEVIATION_THRESHOLD: grid(0.05, 0.8),
+  COVERAGE_WEIGHT: grid(0, 0.6),
+  TEXTURE_WEIGHT: grid(0, 0.5),
+  EDGE_WEIGHT: grid(0, 0.5),
+  COLOR_WEIGHT: grid(0, 0.4)
+};
+
+const MAX_SEARCH_PASSES = 6;
+
+// Run every labelled frame through a detector with verification, smoothing and
+// motion turned off, so the samples carry only the heuristic features that the
+// tunables act on.
+export async function collectCalibrationSamples(
+  frames: CalibrationFrame[],
+  regions: Region[],
+  options: Partial<DetectionOptions> = {}
+): Promise<CalibrationSample[]> {
+  const detector = new ParkingDetector({ ...options, captureBackground: false, learnBackground: false }, {
+    showDebugInfo: false,
+    useMotionDetection: false,
+    useAdaptiveVerification: false,
+    useModelVerification: false,
+    useTemporalSmoothing: false
+  });
+
+  try {
+    const samples: CalibrationSample[] = [];
+    for (const frame of frames) {
+      detector.reset();
+      const result = await detector.detect(frame.image, regions, []);
+      result.spaces.forEach(space => {
+        const occupied = frame.labels[space.region.id];
+        if (occupied === undefined) return;
+        samples.push({ features: space.features, occupied });
+      });
+    }
+    return samples;
+  } finally {
+    detector.dispose();
+  }
+}
+
+export function evaluateConfig(
+  samples: CalibrationSample[],
+  config: DetectionConfig,
+  compensateLighting: boolean
+): CalibrationScore {
+  const correct = samples.filter(sample =>
+    scoreOccupancy(sample.features, config, compensateLighting).isOccupied === sample.occupied
+  ).length;
+  return { correct, total: samples.length, accuracy: samples.length > 0 ? correct / samples.length : 0 };
+}
+
+// Mean distance of each score from its threshold on the correct side; used to
+// break ties between configs that classify the samples equally well.
+function decisionMargin(samples: CalibrationSample[], config: DetectionConfig, compensateLighting: boolean): number {
+  if (samples.length === 0) return 0;
+  const total = samples.reduce((sum, sample) => {
+    const { score, threshold } = scoreOccupancy(sample.features, config, compensateLighting);
+    return sum + (sample.occupied ? score - threshold : threshold - score);
+  }, 0);
+  return total / samples.length;
+}
+
+// Coordinate search over the tunables: sweep each one across its grid while
+// holding the rest, keep the best value, and repeat until a full pass changes
+// nothing. The sample sets are small, so this finishes in milliseconds.
+export function calibrate(
+  samples: CalibrationSample[],
+  options: DetectionOptions
+): CalibrationResult {
+  if (samples.length === 0) {
+    throw new Error('Label at least one space before calibrating');
+  }
+
+  const compensateLighting = options.enableWeatherResistance;
+  const configFor = (overrides: Partial<DetectionConfig>) =>
+    resolveConfig({ ...options, configOverrides: overrides });
+  const rank = (overrides: Partial<DetectionConfig>) => {
+    const config = configFor(overrides);
+    return {
+      correct: evaluateConfig(samples, config, compensateLighting).correct,
+      margin: decisionMargin(samples, config, compensateLighting)
+    };
+  };
+
+  const startOverrides = { ...options.configOverrides };
+  const before = evaluateConfig(samples, configFor(startOverrides), compensateLighting);
+
+  const overrides: Partial<DetectionConfig> = { ...startOverrides };
+  let best = rank(overrides);
+
+  for (let pass = 0; pass < MAX_SEARCH_PASSES; pass++) {
+    let improved = false;
+
+    (Object.keys(SEARCH_SPACE) as TunableKey[]).forEach(key => {
+      SEARCH_SPACE[key].forEach(value => {
+        const candidate = { ...overrides, [key]: value };
+        const ranked = rank(candidate);
+        if (ranked.correct > best.correct || (ranked.correct === best.correct && ranked.margin > best.margin + 1e-6)) {
+          best = ranked;
+          overrides[key] = value;
+          improved = true;
+        }
+      });
+    });
+
+    if (!improved) break;
+  }
+
+  return {
+    overrides,
+    before,
+    after: evaluateConfig(samples, configFor(overrides), compensateLighting)
+  };
+}
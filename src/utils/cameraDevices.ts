@@ -0,0 +1,63 @@
+export interface VideoInputDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface CameraConstraints {
+  deviceId?: string; // Unset means the browser's default camera
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+export const RESOLUTION_PRESETS = [
+  { label: '640 × 480', width: 640, height: 480 },
+  { label: '1280 × 720 (HD)', width: 1280, height: 720 },
+  { label: '1920 × 1080 (Full HD)', width: 1920, height: 1080 }
+];
+
+export const FRAME_RATE_OPTIONS = [10, 15, 24, 30, 60];
+
+export const DEFAULT_CAMERA_CONSTRAINTS: CameraConstraints = {
+  width: 1280,
+  height: 720,
+  frameRate: 30
+};
+
+// Device labels stay empty until the user has granted camera permission once,
+// so fall back to a numbered name.
+export async function listVideoInputDevices(): Promise<VideoInputDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) {
+    throw new Error('Camera enumeration is not supported in this browser');
+  }
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'videoinput')
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || `Camera ${index + 1}`
+    }));
+}
+
+// Resolution and frame rate are requested as ideals so cameras that cannot
+// match them still open; a chosen device is required exactly.
+export function buildVideoConstraints(constraints: CameraConstraints, preferRearCamera = false): MediaTrackConstraints {
+  return {
+    width: { ideal: constraints.width },
+    height: { ideal: constraints.height },
+    frameRate: { ideal: constraints.frameRate },
+    ...(constraints.deviceId
+      ? { deviceId: { exact: constraints.deviceId } }
+      : { facingMode: preferRearCamera ? 'environment' : undefined })
+  };
+}
+
+// Calls onChange whenever a camera is plugged in or removed
+export function watchVideoInputDevices(onChange: () => void): () => void {
+  const mediaDevices = navigator.mediaDevices;
+  if (!mediaDevices?.addEventListener) return () => undefined;
+
+  mediaDevices.addEventListener('devicechange', onChange);
+  return () => mediaDevices.removeEventListener('devicechange', onChange);
+}
@@ -0,0 +1,220 @@
+import { OccupancySample, SpaceOccupancyHistory, VehicleMovement, spaceKey } from './occupancyStore';
+import { recordLabel } from './spaceLabels';
+
+// Tabular exports for operations staff. Files open directly in Excel: UTF-8
+// with a byte-order mark, CRLF line endings and RFC 4180 quoting.
+
+export type TimestampFormat = 'iso' | 'local';
+
+export interface TimeRange {
+  from: number;                       // ms since epoch, inclusive
+  to: number;
+}
+
+// Lot names distinguish spaces when several lots are exported together
+export interface MovementRecord extends VehicleMovement {
+  lotName?: string;
+}
+
+export interface SpaceHistoryRecord extends SpaceOccupancyHistory {
+  lotName?: string;
+}
+
+export interface SampleRecord extends OccupancySample {
+  lotName?: string;
+}
+
+export interface CsvExportData {
+  movements: MovementRecord[];
+  spaceHistory: SpaceHistoryRecord[];
+  samples: SampleRecord[];
+}
+
+export const BUCKET_SIZE_OPTIONS = [
+  { label: '1 minute', minutes: 1 },
+  { label: '5 minutes', minutes: 5 },
+  { label: '15 minutes', minutes: 15 },
+  { label: '1 hour', minutes: 60 }
+];
+
+type Cell = string | number | null | undefined;
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+// Local time without a locale-specific layout, so spreadsheets parse it as a date
+export function formatTimestamp(timestamp: number, format: TimestampFormat): string {
+  const date = new Date(timestamp);
+  if (format === 'iso') return date.toISOString();
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function escapeCell(cell: Cell): string {
+  if (cell === null || cell === undefined) return '';
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCSV(header: string[], rows: Cell[][]): string {
+  return '\uFEFF' + [header, ...rows].map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+}
+
+const inRange = (timestamp: number | undefined, range?: TimeRange) =>
+  timestamp !== undefined && (!range || (timestamp >= range.from && timestamp <= range.to));
+
+const lastEntered = (record: SpaceOccupancyHistory) => record.lastEnteredAt ?? record.enterTime;
+
+const minutes = (ms: number | undefined) => ms === undefined ? '' : (ms / 60000).toFixed(1);
+
+export function movementsCSV(movements: MovementRecord[], format: TimestampFormat, range?: TimeRange): string {
+  const rows = movements
+    .filter(movement => inRange(movement.timestamp, range))
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(movement => [
+      formatTimestamp(movement.timestamp, format),
+      movement.lotName,
+      movement.camera,
+      recordLabel(movement),
+      movement.zone,
+      movement.action,
+      movement.vehicleType,
+      Math.round(movement.confidence * 100),
+      movement.action === 'exited' ? minutes(movement.duration) : ''
+    ]);
+
+  return toCSV(
+    ['timestamp', 'lot', 'camera', 'space', 'zone', 'action', 'vehicle_type', 'confidence_pct', 'duration_min'],
+    rows
+  );
+}
+
+// One row per space. History records are cumulative, so a range keeps the
+// spaces that saw activity inside it; entries and exits are recounted from the
+// movement log for that range.
+export function spaceSummaryCSV(
+  history: SpaceHistoryRecord[],
+  movements: MovementRecord[],
+  format: TimestampFormat,
+  range?: TimeRange
+): string {
+  const merged = new Map<string, SpaceHistoryRecord>();
+  history.forEach(record => {
+    const key = `${record.lotName ?? ''}#${spaceKey(record)}`;
+    const existing = merged.get(key);
+    // The newest record carries the current label and zone
+    merged.set(key, existing ? {
+      ...existing,
+      camera: record.camera ?? existing.camera,
+      label: record.label ?? existing.label,
+      zone: record.zone ?? existing.zone,
+      enterTime: Math.max(existing.enterTime ?? 0, record.enterTime ?? 0) || undefined,
+      lastEnteredAt: Math.max(lastEntered(existing) ?? 0, lastEntered(record) ?? 0) || undefined,
+      exitTime: Math.max(existing.exitTime ?? 0, record.exitTime ?? 0) || undefined,
+      totalOccupiedTime: existing.totalOccupiedTime + record.totalOccupiedTime,
+      occupancyCount: existing.occupancyCount + record.occupancyCount
+    } : { ...record });
+  });
+
+  const rangedMovements = movements.filter(movement => inRange(movement.timestamp, range));
+  const rows = Array.from(merged.values())
+    .filter(record => !range || inRange(lastEntered(record), range) || inRange(record.exitTime, range))
+    .sort((a, b) =>
+      (a.lotName ?? '').localeCompare(b.lotName ?? '') ||
+      (a.feedId ?? '').localeCompare(b.feedId ?? '') ||
+      a.spaceId - b.spaceId)
+    .map(record => {
+      const spaceMovements = rangedMovements.filter(movement =>
+        spaceKey(movement) === spaceKey(record) && (movement.lotName ?? '') === (record.lotName ?? ''));
+      const entries = spaceMovements.filter(movement => movement.action === 'entered').length;
+      const exits = spaceMovements.filter(movement => movement.action === 'exited').length;
+      const enteredAt = lastEntered(record);
+      return [
+        record.lotName,
+        record.camera,
+        recordLabel(record),
+        record.zone,
+        record.occupancyCount,
+        minutes(record.totalOccupiedTime),
+        record.occupancyCount > 0 ? minutes(record.totalOccupiedTime / record.occupancyCount) : '',
+        entries,
+        exits,
+        enteredAt ? formatTimestamp(enteredAt, format) : '',
+        record.exitTime ? formatTimestamp(record.exitTime, format) : ''
+      ];
+    });
+
+  return toCSV(
+    ['lot', 'camera', 'space', 'zone', 'occupancy_count', 'total_occupied_min', 'avg_stay_min', 'entries_in_range', 'exits_in_range', 'last_entered', 'last_exited'],
+    rows
+  );
+}
+
+// Samples averaged into fixed wall-clock buckets aligned to the bucket size,
+// one row per lot and bucket
+export function occupancyBucketsCSV(
+  samples: SampleRecord[],
+  bucketMinutes: number,
+  format: TimestampFormat,
+  range?: TimeRange
+): string {
+  const bucketMs = bucketMinutes * 60000;
+  const buckets = new Map<string, { lotName?: string; start: number; samples: SampleRecord[] }>();
+  samples
+    .filter(sample => inRange(sample.timestamp, range))
+    .forEach(sample => {
+      const start = Math.floor(sample.timestamp / bucketMs) * bucketMs;
+      const key = `${sample.lotName ?? ''}#${start}`;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.samples.push(sample);
+      else buckets.set(key, { lotName: sample.lotName, start, samples: [sample] });
+    });
+
+  const rows = Array.from(buckets.values())
+    .sort((a, b) => a.start - b.start || (a.lotName ?? '').localeCompare(b.lotName ?? ''))
+    .map(({ lotName, start, samples: bucket }) => {
+      const avgOccupied = bucket.reduce((sum, s) => sum + s.occupied, 0) / bucket.length;
+      const avgAvailable = bucket.reduce((sum, s) => sum + s.available, 0) / bucket.length;
+      const total = avgOccupied + avgAvailable;
+      return [
+        lotName,
+        formatTimestamp(start, format),
+        formatTimestamp(start + bucketMs, format),
+        bucket.length,
+        avgOccupied.toFixed(2),
+        avgAvailable.toFixed(2),
+        total > 0 ? ((avgOccupied / total) * 100).toFixed(1) : '',
+        Math.max(...bucket.map(s => s.occupied)),
+        Math.min(...bucket.map(s => s.occupied))
+      ];
+    });
+
+  return toCSV(
+    ['lot', 'bucket_start', 'bucket_end', 'samples', 'avg_occupied', 'avg_available', 'occupancy_pct', 'peak_occupied', 'min_occupied'],
+    rows
+  );
+}
+
+// Earliest and latest timestamp across everything exportable, or null when empty
+export function dataExtent(data: CsvExportData): TimeRange | null {
+  const timestamps = [
+    ...data.movements.map(m => m.timestamp),
+    ...data.samples.map(s => s.timestamp),
+    ...data.spaceHistory.flatMap(h => [lastEntered(h), h.exitTime].filter((t): t is number => t !== undefined))
+  ];
+  if (timestamps.length === 0) return null;
+  return { from: Math.min(...timestamps), to: Math.max(...timestamps) };
+}
+
+export function downloadCSV(content: string, fileName: string) {
+  const blob = new Blob([content], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
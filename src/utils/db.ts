@@ -0,0 +1,76 @@
+const DB_NAME = 'divya-drishti';
+const DB_VERSION = 3;
+
+// Object stores and their key paths. Bump DB_VERSION when adding a store.
+const STORES = {
+  lotProfiles: 'id',
+  sessions: 'id',
+  webhookQueue: 'id'
+} as const;
+
+export type StoreName = keyof typeof STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not supported in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.entries(STORES).forEach(([name, keyPath]) => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath });
+        }
+      });
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error ?? new Error('Failed to open database'));
+    };
+  });
+
+  return dbPromise;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  return promisifyRequest(action(transaction.objectStore(storeName)));
+}
+
+export function getAll<T>(storeName: StoreName): Promise<T[]> {
+  return withStore(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+}
+
+export function getOne<T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore(storeName, 'readonly', store => store.get(key) as IDBRequest<T | undefined>);
+}
+
+export async function putOne<T>(storeName: StoreName, value: T): Promise<void> {
+  await withStore(storeName, 'readwrite', store => store.put(value));
+}
+
+export async function deleteOne(storeName: StoreName, key: IDBValidKey): Promise<void> {
+  await withStore(storeName, 'readwrite', store => store.delete(key));
+}
@@ -0,0 +1,190 @@
+import type {
+  DetectionOptions,
+  DetectionResult,
+  DetectorSettings,
+  ParkingDetector,
+  ParkingSpace,
+  Region
+} from './parkingDetection';
+import type { DetectionWorkerRequest, DetectionWorkerResponse } from '../workers/detectionProtocol';
+
+export type DetectionMode = 'worker' | 'main-thread';
+
+export interface DetectionClient {
+  ready: Promise<DetectionMode>;
+  getMode: () => DetectionMode;
+  getFallbackReason: () => string | null;
+  detect: (
+    source: HTMLVideoElement | HTMLImageElement,
+    regions: Region[],
+    previousSpaces: ParkingSpace[],
+    options: Partial<DetectionOptions>,
+    channel?: string,
+    settings?: Partial<DetectorSettings>  // Used when the channel's detector is created
+  ) => Promise<DetectionResult>;
+  release: (channel: string) => void;
+  dispose: () => void;
+}
+
+const WORKER_INIT_TIMEOUT = 5000;
+const WORKER_DISPOSE_TIMEOUT = 1000;
+const DEFAULT_CHANNEL = 'default';
+
+type PendingRequest = {
+  resolve: (response: DetectionWorkerResponse) => void;
+  reject: (error: Error) => void;
+};
+
+// Runs detection in detection.worker when the browser supports OffscreenCanvas
+// and WebGL inside workers, otherwise on the main thread. The main-thread
+// detector is only imported on fallback, so worker mode never loads models here.
+// One client can serve several feeds: each channel gets its own detector, so
+// frame history stays per camera while the models are loaded once.
+export function createDetectionClient(): DetectionClient {
+  let mode: DetectionMode = 'main-thread';
+  let fallbackReason: string | null = null;
+  let worker: Worker | null = null;
+  let nextRequestId = 1;
+  const localDetectors = new Map<string, ParkingDetector>();
+  const pending = new Map<number, PendingRequest>();
+
+  const rejectPending = (reason: string) => {
+    const requests = Array.from(pending.values());
+    pending.clear();
+    requests.forEach(request => request.reject(new Error(reason)));
+  };
+
+  const fallBackToMainThread = (reason: string) => {
+    if (worker) {
+      worker.terminate();
+      worker = null;
+    }
+    mode = 'main-thread';
+    fallbackReason = reason;
+    rejectPending(reason);
+    console.warn(`Detection worker unavailable, using main thread: ${reason}`);
+  };
+
+  const send = (message: DetectionWorkerRequest, transfer: Transferable[] = []) =>
+    new Promise<DetectionWorkerResponse>((resolve, reject) => {
+      if (!worker) {
+        reject(new Error('Detection worker is not running'));
+        return;
+      }
+      pending.set(message.requestId, { resolve, reject });
+      worker.postMessage(message, transfer);
+    });
+
+  const startWorker = async (): Promise<DetectionMode> => {
+    if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined' || typeof createImageBitmap !== 'function') {
+      fallBackToMainThread('Web Workers with OffscreenCanvas are not supported in this browser');
+      return mode;
+    }
+
+    try {
+      worker = new Worker(new URL('../workers/detection.worker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+      fallBackToMainThread(`Failed to start detection worker: ${error instanceof Error ? error.message : String(error)}`);
+      return mode;
+    }
+
+    worker.onmessage = (event: MessageEvent<DetectionWorkerResponse>) => {
+      const request = pending.get(event.data.requestId);
+      if (!request) return;
+      pending.delete(event.data.requestId);
+      request.resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      fallBackToMainThread(event.message || 'Detection worker crashed');
+    };
+
+    const timeout = new Promise<null>(resolve => setTimeout(() => resolve(null), WORKER_INIT_TIMEOUT));
+    const response = await Promise.race([
+      send({ type: 'init', requestId: nextRequestId++ }).catch(() => null),
+      timeout
+    ]);
+
+    if (!response || response.type !== 'ready') {
+      fallBackToMainThread('Detection worker did not respond');
+    } else if (!response.supported) {
+      fallBackToMainThread(response.reason);
+    } else {
+      mode = 'worker';
+    }
+    return mode;
+  };
+
+  const ready = startWorker();
+
+  const detect: DetectionClient['detect'] = async (source, regions, previousSpaces, options, channel = DEFAULT_CHANNEL, settings) => {
+    await ready;
+
+    if (mode === 'worker' && worker) {
+      const frame = await createImageBitmap(source);
+      const response = await send({
+        type: 'detect',
+        requestId: nextRequestId++,
+        channel,
+        frame,
+        regions,
+        previousSpaces,
+        options,
+        settings
+      }, [frame]);
+
+      if (response.type === 'result') return response.result;
+      if (response.type === 'error') throw new Error(response.message);
+      throw new Error(`Unexpected detection worker response: ${response.type}`);
+    }
+
+    const { ParkingDetector } = await import('./parkingDetection');
+    let localDetector = localDetectors.get(channel);
+    if (!localDetector) {
+      localDetector = new ParkingDetector({}, settings);
+      localDetectors.set(channel, localDetector);
+    }
+    return localDetector.detect(source, regions, previousSpaces, options);
+  };
+
+  // Drops a feed's detector and frame history once the feed is gone
+  const release = (channel: string) => {
+    localDetectors.get(channel)?.dispose();
+    localDetectors.delete(channel);
+    if (worker && mode === 'worker') {
+      send({ type: 'release', requestId: nextRequestId++, channel }).catch(() => undefined);
+    }
+  };
+
+  // Lets the worker release its models, but terminates it regardless once the
+  // reply arrives or the timeout passes, so an unresponsive worker cannot leak
+  const dispose = () => {
+    if (worker) {
+      const activeWorker = worker;
+      worker = null;
+      const timeoutId = setTimeout(() => activeWorker.terminate(), WORKER_DISPOSE_TIMEOUT);
+      activeWorker.onmessage = (event: MessageEvent<DetectionWorkerResponse>) => {
+        if (event.data.type !== 'disposed') return;
+        clearTimeout(timeoutId);
+        activeWorker.terminate();
+      };
+      activeWorker.onerror = () => {
+        clearTimeout(timeoutId);
+        activeWorker.terminate();
+      };
+      activeWorker.postMessage({ type: 'dispose', requestId: nextRequestId++ });
+    }
+    rejectPending('Detection client was disposed');
+    localDetectors.forEach(detector => detector.dispose());
+    localDetectors.clear();
+  };
+
+  return {
+    ready,
+    getMode: () => mode,
+    getFallbackReason: () => fallbackReason,
+    detect,
+    release,
+    dispose
+  };
+}
@@ -0,0 +1,270 @@
+import { toCSV } from './csvExport';
+import type { Region } from './parkingDetection';
+import { spaceLabel } from './spaceLabels';
+
+// Ground truth for a video: for every space, which stretches of video time it
+// was really occupied or empty. Times are seconds from the start of the video.
+
+export const GROUND_TRUTH_SCHEMA = 'divya-drishti/ground-truth';
+export const GROUND_TRUTH_VERSION = 1;
+
+export interface GroundTruthInterval {
+  start: number;
+  end: number;
+  occupied: boolean;
+}
+
+export interface SpaceAnnotation {
+  regionId: string;
+  label: string;
+  intervals: GroundTruthInterval[];   // Contiguous and covering 0..duration
+}
+
+export interface GroundTruth {
+  schema: typeof GROUND_TRUTH_SCHEMA;
+  version: number;
+  videoName: string;
+  duration: number;
+  spaces: SpaceAnnotation[];
+}
+
+// One replayed detection, stamped with the video time of the analysed frame
+export interface EvaluationSample {
+  time: number;
+  processingTime: number;             // Milliseconds
+  predictions: Record<string, boolean>; // Region id -> predicted occupied
+}
+
+export interface EvaluationMetrics {
+  regionId: string | null;            // null for the overall row
+  label: string;
+  truePositive: number;
+  falsePositive: number;
+  trueNegative: number;
+  falseNegative: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  accuracy: number;
+  transitions: number;                // True state changes in the annotation
+  detectedTransitions: number;        // ...that detection followed before the next change
+  meanLatency: number | null;         // Seconds from a true change to the detector agreeing
+}
+
+export interface EvaluationReport {
+  videoName: string;
+  generatedAt: string;
+  sampleCount: number;
+  meanProcessingTime: number;         // Milliseconds
+  overall: EvaluationMetrics;
+  spaces: EvaluationMetrics[];
+}
+
+export function createGroundTruth(videoName: string, duration: number, regions: Region[]): GroundTruth {
+  return {
+    schema: GROUND_TRUTH_SCHEMA,
+    version: GROUND_TRUTH_VERSION,
+    videoName,
+    duration,
+    spaces: regions.map((region, index) => ({
+      regionId: region.id,
+      label: spaceLabel(region, index),
+      intervals: [{ start: 0, end: duration, occupied: false }]
+    }))
+  };
+}
+
+// Fit an imported annotation to the current layout: spaces are matched by
+// region id, and any space the file does not cover starts out all-empty.
+export function alignGroundTruth(groundTruth: GroundTruth, regions: Region[], duration: number): GroundTruth {
+  const fresh = createGroundTruth(groundTruth.videoName, duration, regions);
+  return {
+    ...fresh,
+    spaces: fresh.spaces.map(space => {
+      const imported = groundTruth.spaces.find(s => s.regionId === space.regionId);
+      return imported ? { ...imported, label: space.label } : space;
+    })
+  };
+}
+
+function mergeIntervals(intervals: GroundTruthInterval[]): GroundTruthInterval[] {
+  return intervals
+    .filter(interval => interval.end > interval.start)
+    .reduce<GroundTruthInterval[]>((merged, interval) => {
+      const last = merged[merged.length - 1];
+      if (last && last.occupied === interval.occupied) {
+        last.end = interval.end;
+      } else {
+        merged.push({ ...interval });
+      }
+      return merged;
+    }, []);
+}
+
+// Set a space's state from `time` up to the next annotated change, the way an
+// annotator scrubbing through the video would mark "a car arrives here".
+export function markStateFrom(annotation: SpaceAnnotation, time: number, occupied: boolean): SpaceAnnotation {
+  const intervals = annotation.intervals.flatMap(interval => {
+    if (time < interval.start || time >= interval.end) return [interval];
+    return [
+      { start: interval.start, end: time, occupied: interval.occupied },
+      { start: time, end: interval.end, occupied }
+    ];
+  });
+  return { ...annotation, intervals: mergeIntervals(intervals) };
+}
+
+// Remove the change at the start of intervals[index], extending the previous state over it
+export function removeTransition(annotation: SpaceAnnotation, index: number): SpaceAnnotation {
+  if (index <= 0 || index >= annotation.intervals.length) return annotation;
+  const intervals = annotation.intervals.map((interval, i) =>
+    i === index ? { ...interval, occupied: annotation.intervals[index - 1].occupied } : interval
+  );
+  return { ...annotation, intervals: mergeIntervals(intervals) };
+}
+
+export function stateAt(intervals: GroundTruthInterval[], time: number): boolean | undefined {
+  const match = intervals.find((interval, i) =>
+    time >= interval.start && (time < interval.end || (i === intervals.length - 1 && time <= interval.end))
+  );
+  return match?.occupied;
+}
+
+const ratio = (numerator: number, denominator: number) => denominator > 0 ? numerator / denominator : 0;
+
+function buildMetrics(
+  regionId: string | null,
+  label: string,
+  counts: Pick<EvaluationMetrics, 'truePositive' | 'falsePositive' | 'trueNegative' | 'falseNegative'>,
+  latencies: number[],
+  transitions: number
+): EvaluationMetrics {
+  const { truePositive, falsePositive, trueNegative, falseNegative } = counts;
+  const precision = ratio(truePositive, truePositive + falsePositive);
+  const recall = ratio(truePositive, truePositive + falseNegative);
+  return {
+    regionId,
+    label,
+    ...counts,
+    precision,
+    recall,
+    f1: ratio(2 * precision * recall, precision + recall),
+    accuracy: ratio(truePositive + trueNegative, truePositive + falsePositive + trueNegative + falseNegative),
+    transitions,
+    detectedTransitions: latencies.length,
+    meanLatency: latencies.length > 0 ? latencies.reduce((a, b) => a + b, 0) / latencies.length : null
+  };
+}
+
+export function evaluateDetections(groundTruth: GroundTruth, samples: EvaluationSample[]): EvaluationReport {
+  const ordered = [...samples].sort((a, b) => a.time - b.time);
+  const totals = { truePositive: 0, falsePositive: 0, trueNegative: 0, falseNegative: 0 };
+  const allLatencies: number[] = [];
+  let allTransitions = 0;
+
+  const spaces = groundTruth.spaces.map(annotation => {
+    const counts = { truePositive: 0, falsePositive: 0, trueNegative: 0, falseNegative: 0 };
+    const scored = ordered.filter(sample => sample.predictions[annotation.regionId] !== undefined);
+
+    scored.forEach(sample => {
+      const actual = stateAt(annotation.intervals, sample.time);
+      if (actual === undefined) return;
+      const predicted = sample.predictions[annotation.regionId];
+      if (predicted && actual) counts.truePositive++;
+      else if (predicted) counts.falsePositive++;
+      else if (actual) counts.falseNegative++;
+      else counts.trueNegative++;
+    });
+
+    // Each interval after the first starts with a true state change; latency is
+    // how long until the detector first reports the new state, as long as that
+    // happens before the state changes again.
+    const latencies: number[] = [];
+    annotation.intervals.slice(1).forEach(interval => {
+      const caught = scored.find(sample =>
+        sample.time >= interval.start &&
+        sample.time < interval.end &&
+        sample.predictions[annotation.regionId] === interval.occupied
+      );
+      if (caught) latencies.push(caught.time - interval.start);
+    });
+    const transitions = Math.max(0, annotation.intervals.length - 1);
+
+    (Object.keys(totals) as (keyof typeof totals)[]).forEach(key => totals[key] += counts[key]);
+    allLatencies.push(...latencies);
+    allTransitions += transitions;
+
+    return buildMetrics(annotation.regionId, annotation.label, counts, latencies, transitions);
+  });
+
+  return {
+    videoName: groundTruth.videoName,
+    generatedAt: new Date().toISOString(),
+    sampleCount: ordered.length,
+    meanProcessingTime: ratio(ordered.reduce((sum, s) => sum + s.processingTime, 0), ordered.length),
+    overall: buildMetrics(null, 'Overall', totals, allLatencies, allTransitions),
+    spaces
+  };
+}
+
+export function exportReportJSON(report: EvaluationReport, groundTruth: GroundTruth): string {
+  return JSON.stringify({ report, groundTruth }, null, 2);
+}
+
+export function exportReportCSV(report: EvaluationReport): string {
+  const header = [
+    'space', 'region_id', 'true_positive', 'false_positive', 'true_negative', 'false_negative',
+    'precision', 'recall', 'f1', 'accuracy', 'transitions', 'detected_transitions', 'mean_latency_s'
+  ];
+  const rows = [...report.spaces, report.overall].map(m => [
+    m.label,
+    m.regionId,
+    m.truePositive,
+    m.falsePositive,
+    m.trueNegative,
+    m.falseNegative,
+    m.precision.toFixed(4),
+    m.recall.toFixed(4),
+    m.f1.toFixed(4),
+    m.accuracy.toFixed(4),
+    m.transitions,
+    m.detectedTransitions,
+    m.meanLatency === null ? '' : m.meanLatency.toFixed(2)
+  ]);
+  return toCSV(header, rows);
+}
+
+export function parseGroundTruth(text: string): GroundTruth {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Ground truth file is not valid JSON');
+  }
+
+  const candidate = data as Partial<GroundTruth>;
+  if (candidate?.schema !== GROUND_TRUTH_SCHEMA || !Array.isArray(candidate.spaces)) {
+    throw new Error('Not a ground truth file');
+  }
+  if (typeof candidate.version !== 'number' || candidate.version > GROUND_TRUTH_VERSION) {
+    throw new Error(`Unsupported ground truth version ${candidate.version}`);
+  }
+
+  const spaces = candidate.spaces.filter((space): space is SpaceAnnotation =>
+    typeof space?.regionId === 'string' &&
+    Array.isArray(space.intervals) &&
+    space.intervals.every(i => Number.isFinite(i.start) && Number.isFinite(i.end) && typeof i.occupied === 'boolean')
+  );
+
+  return {
+    schema: GROUND_TRUTH_SCHEMA,
+    version: GROUND_TRUTH_VERSION,
+    videoName: String(candidate.videoName ?? ''),
+    duration: Number(candidate.duration) || 0,
+    spaces: spaces.map(space => ({
+      regionId: space.regionId,
+      label: String(space.label ?? space.regionId),
+      intervals: mergeIntervals([...space.intervals].sort((a, b) => a.start - b.start))
+    }))
+  };
+}
@@ -0,0 +1,8 @@
+// Shared by the importers that hand still images to the detector as data URLs
+
+export const readAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(new Error(`Failed to read ${file.name}`));
+  reader.readAsDataURL(file);
+});
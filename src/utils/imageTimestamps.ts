@@ -0,0 +1,150 @@
+// Capture times for still images: EXIF DateTimeOriginal when the camera wrote
+// one, otherwise a date-time embedded in the file name, otherwise the file's
+// modification time.
+
+export type TimestampSource = 'exif' | 'filename' | 'modified';
+
+export interface ImageTimestamp {
+  timestamp: number;                  // ms since epoch
+  source: TimestampSource;
+}
+
+const EXIF_SCAN_BYTES = 256 * 1024;   // EXIF lives in APP1, near the start of the file
+
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+
+function validDate(year: number, month: number, day: number, hour: number, minute: number, second: number) {
+  return year >= 1970 && year <= 2100 && month >= 1 && month <= 12 && day >= 1 && day <= 31 &&
+    hour <= 23 && minute <= 59 && second <= 59;
+}
+
+// "YYYY:MM:DD HH:MM:SS", with an optional "+HH:MM" offset; local time without one
+function parseExifDate(value: string, offset?: string): number | null {
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+  if (!validDate(year, month, day, hour, minute, second)) return null;
+
+  const offsetMatch = offset?.match(/^([+-])(\d{2}):(\d{2})/);
+  if (offsetMatch) {
+    const sign = offsetMatch[1] === '-' ? -1 : 1;
+    const offsetMinutes = sign * (Number(offsetMatch[2]) * 60 + Number(offsetMatch[3]));
+    return Date.UTC(year, month - 1, day, hour, minute, second) - offsetMinutes * 60000;
+  }
+  return new Date(year, month - 1, day, hour, minute, second).getTime();
+}
+
+function readAscii(view: DataView, offset: number, length: number): string {
+  let text = '';
+  for (let i = 0; i < length && offset + i < view.byteLength; i++) {
+    const code = view.getUint8(offset + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text;
+}
+
+// ASCII tags of one IFD, keyed by tag id; the Exif sub-IFD pointer is kept as its offset
+function readIfd(view: DataView, tiffStart: number, ifdOffset: number, little: boolean): Map<number, string | number> {
+  const tags = new Map<number, string | number>();
+  const start = tiffStart + ifdOffset;
+  if (start + 2 > view.byteLength) return tags;
+
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const length = view.getUint32(entry + 4, little);
+
+    if (tag === TAG_EXIF_IFD) {
+      tags.set(tag, view.getUint32(entry + 8, little));
+    } else if (type === 2) {
+      const valueOffset = length > 4 ? tiffStart + view.getUint32(entry + 8, little) : entry + 8;
+      tags.set(tag, readAscii(view, valueOffset, length));
+    }
+  }
+  return tags;
+}
+
+function parseExif(view: DataView): number | null {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;   // Not a JPEG
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const size = view.getUint16(offset + 2);
+    if ((marker & 0xff00) !== 0xff00) return null;
+
+    // APP1 segment starting "Exif\0\0"
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+      const tiffStart = offset + 10;
+      const little = view.getUint16(tiffStart) === 0x4949;
+      const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+
+      const exifOffset = ifd0.get(TAG_EXIF_IFD);
+      const exifIfd = typeof exifOffset === 'number'
+        ? readIfd(view, tiffStart, exifOffset, little)
+        : new Map<number, string | number>();
+
+      const original = exifIfd.get(TAG_DATE_TIME_ORIGINAL);
+      const offsetTime = exifIfd.get(TAG_OFFSET_TIME_ORIGINAL);
+      if (typeof original === 'string') {
+        const parsed = parseExifDate(original, typeof offsetTime === 'string' ? offsetTime : undefined);
+        if (parsed !== null) return parsed;
+      }
+      const modified = ifd0.get(TAG_DATE_TIME);
+      return typeof modified === 'string' ? parseExifDate(modified) : null;
+    }
+
+    // Start of scan: image data follows, no more metadata
+    if (marker === 0xffda) return null;
+    offset += 2 + size;
+  }
+  return null;
+}
+
+export async function readExifTimestamp(file: File): Promise<number | null> {
+  try {
+    const buffer = await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer();
+    return parseExif(new DataView(buffer));
+  } catch (err) {
+    console.warn(`Failed to read EXIF from ${file.name}:`, err);
+    return null;
+  }
+}
+
+// IMG_20240512_143000.jpg, cam1-2024-05-12_14-30-00.jpg, 20240512T143000.jpg,
+// or a 10/13-digit Unix timestamp. Dates without a zone are local time.
+export function parseFilenameTimestamp(name: string): number | null {
+  const dateTime = name.match(/(\d{4})[-_.]?(\d{2})[-_.]?(\d{2})[T_\- ]?(\d{2})[-_.:h]?(\d{2})[-_.:m]?(\d{2})/);
+  if (dateTime) {
+    const [year, month, day, hour, minute, second] = dateTime.slice(1).map(Number);
+    if (validDate(year, month, day, hour, minute, second)) {
+      return new Date(year, month - 1, day, hour, minute, second).getTime();
+    }
+  }
+
+  const epoch = name.match(/(?:^|\D)(1\d{9}|1\d{12})(?:\D|$)/);
+  if (epoch) {
+    const value = Number(epoch[1]);
+    return epoch[1].length === 10 ? value * 1000 : value;
+  }
+
+  return null;
+}
+
+export async function resolveImageTimestamp(file: File): Promise<ImageTimestamp> {
+  const exif = await readExifTimestamp(file);
+  if (exif !== null) return { timestamp: exif, source: 'exif' };
+
+  const fromName = parseFilenameTimestamp(file.name);
+  if (fromName !== null) return { timestamp: fromName, source: 'filename' };
+
+  return { timestamp: file.lastModified, source: 'modified' };
+}
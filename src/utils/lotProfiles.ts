@@ -0,0 +1,85 @@
+import type { DetectionConfig, Region } from './parkingDetection';
+import type { BackgroundModel } from './backgroundModel';
+import { deleteOne, getAll, getOne, putOne } from './db';
+
+export type CameraSource =
+  | { kind: 'webcam'; deviceId?: string; width?: number; height?: number; frameRate?: number }
+  | { kind: 'video'; fileName?: string }
+  | { kind: 'image' };
+
+export interface LotProfile {
+  id: string;
+  name: string;
+  referenceImage: string | null;   // Data URL of the frame the regions were drawn on
+  regions: Region[];               // Normalized (0-1) coordinates
+  configOverrides: Partial<DetectionConfig>;
+  cameraSource: CameraSource;
+  backgroundModel?: BackgroundModel; // Empty-lot baselines for the regions above
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type LotProfileSnapshot = Pick<LotProfile, 'referenceImage' | 'regions' | 'configOverrides' | 'cameraSource' | 'backgroundModel'>;
+
+const STORE = 'lotProfiles';
+
+function generateId(): string {
+  return `lot-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function listLotProfiles(): Promise<LotProfile[]> {
+  const profiles = await getAll<LotProfile>(STORE);
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getLotProfile(id: string): Promise<LotProfile | undefined> {
+  return getOne<LotProfile>(STORE, id);
+}
+
+export async function createLotProfile(name: string, snapshot: LotProfileSnapshot): Promise<LotProfile> {
+  const now = Date.now();
+  const profile: LotProfile = {
+    ...snapshot,
+    id: generateId(),
+    name: name.trim() || 'Untitled lot',
+    createdAt: now,
+    updatedAt: now
+  };
+  await putOne(STORE, profile);
+  return profile;
+}
+
+export async function updateLotProfile(
+  id: string,
+  changes: Partial<Omit<LotProfile, 'id' | 'createdAt'>>
+): Promise<LotProfile> {
+  const existing = await getLotProfile(id);
+  if (!existing) {
+    throw new Error(`Lot profile ${id} not found`);
+  }
+  const updated: LotProfile = { ...existing, ...changes, id, updatedAt: Date.now() };
+  await putOne(STORE, updated);
+  return updated;
+}
+
+export function renameLotProfile(id: string, name: string): Promise<LotProfile> {
+  return updateLotProfile(id, { name: name.trim() || 'Untitled lot' });
+}
+
+export async function duplicateLotProfile(id: string, name?: string): Promise<LotProfile> {
+  const existing = await getLotProfile(id);
+  if (!existing) {
+    throw new Error(`Lot profile ${id} not found`);
+  }
+  return createLotProfile(name ?? `${existing.name} (copy)`, {
+    referenceImage: existing.referenceImage,
+    regions: existing.regions.map(region => ({ ...region, points: region.points.map(p => ({ ...p })) })),
+    configOverrides: { ...existing.configOverrides },
+    cameraSource: { ...existing.cameraSource },
+    backgroundModel: existing.backgroundModel && { ...existing.backgroundModel }
+  });
+}
+
+export function deleteLotProfile(id: string): Promise<void> {
+  return deleteOne(STORE, id);
+}
@@ -0,0 +1,338 @@
+import type { ParkingSpace } from './parkingDetection';
+import { spaceLabel, spaceZone } from './spaceLabels';
+import { EVENT_SCHEMA, OccupancyEvent, regionCentre } from './occupancyEvents';
+import { connectMqtt, isValidBrokerUrl, MqttConnection } from './mqtt';
+import { lotTopicFor } from './mqttPublisher';
+
+// Live availability shared with the kiosk status page (/status/:lotId).
+// LiveDetection writes the latest result to localStorage and announces it on a
+// BroadcastChannel; the status page picks it up instantly and re-reads it on
+// its refresh interval. Both only reach windows of the same browser profile on
+// the same machine. A screen driven by another machine follows the retained
+// MQTT summary instead: /status/:lotId?mqtt=wss://broker:8884/mqtt
+
+export interface LiveStatusSpace {
+  regionId: string;
+  label: string;
+  zone?: string;
+  isOccupied: boolean;
+  x: number;                          // Region centre, normalized image space
+  y: number;
+}
+
+export interface LiveStatusSnapshot {
+  lotId: string;
+  lotName: string;
+  updatedAt: number;
+  isRunning: boolean;
+  spaces: LiveStatusSpace[];
+}
+
+export type StatusDirection = 'left' | 'ahead' | 'right';
+
+export interface StatusZone {
+  id: string;
+  name: string;
+  direction: StatusDirection;
+  free: number;
+  total: number;
+}
+
+export type StatusTheme = 'dark' | 'light' | 'contrast';
+
+export interface StatusPageOptions {
+  theme: StatusTheme;
+  refreshSeconds: number;
+  staleSeconds: number;               // Older snapshots show as unavailable
+  mirror: boolean;                    // Camera faces drivers, so its left is their right
+  showZones: boolean;
+  title: string | null;
+  mqtt: StatusMqttSource | null;      // Follow a broker instead of this browser's detection
+}
+
+export interface StatusMqttSource {
+  url: string;
+  topic: string | null;               // Topic prefix the publisher uses; null derives lot/<lotId>
+  username?: string;
+  password?: string;
+}
+
+export const DEFAULT_STATUS_LOT_ID = 'default';
+
+const STORAGE_PREFIX = 'parksense-status-';
+const CHANNEL_NAME = 'parksense-status';
+
+export function statusLotId(lotId: string | null | undefined): string {
+  return lotId || DEFAULT_STATUS_LOT_ID;
+}
+
+export function statusPagePath(lotId: string | null | undefined): string {
+  return `/status/${encodeURIComponent(statusLotId(lotId))}`;
+}
+
+export function createLiveStatusSnapshot(
+  spaces: ParkingSpace[],
+  lot: { lotId: string | null; lotName: string },
+  isRunning: boolean
+): LiveStatusSnapshot {
+  return {
+    lotId: statusLotId(lot.lotId),
+    lotName: lot.lotName,
+    updatedAt: Date.now(),
+    isRunning,
+    spaces: spaces.map(space => ({
+      regionId: space.region.id,
+      label: spaceLabel(space.region, space.id),
+      zone: spaceZone(space.region),
+      isOccupied: space.isOccupied,
+      ...regionCentre(space.region.points)
+    }))
+  };
+}
+
+let channel: BroadcastChannel | null = null;
+
+const getChannel = () => {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+};
+
+export function publishLiveStatus(snapshot: LiveStatusSnapshot) {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + snapshot.lotId, JSON.stringify(snapshot));
+  } catch (error) {
+    console.warn('Failed to save live status to localStorage:', error);
+  }
+  getChannel()?.postMessage(snapshot);
+}
+
+export function readLiveStatus(lotId: string): LiveStatusSnapshot | null {
+  try {
+    const saved = localStorage.getItem(STORAGE_PREFIX + lotId);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function subscribeLiveStatus(lotId: string, onSnapshot: (snapshot: LiveStatusSnapshot) => void): () => void {
+  const handleMessage = (event: MessageEvent<LiveStatusSnapshot>) => {
+    if (event.data?.lotId === lotId) onSnapshot(event.data);
+  };
+  // Fallback for browsers without BroadcastChannel; fires in other windows only
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_PREFIX + lotId || !event.newValue) return;
+    try {
+      onSnapshot(JSON.parse(event.newValue));
+    } catch {
+      // Ignore a partially written value; the next refresh reads it again
+    }
+  };
+
+  const listener = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+  listener?.addEventListener('message', handleMessage);
+  window.addEventListener('storage', handleStorage);
+
+  return () => {
+    listener?.close();
+    window.removeEventListener('storage', handleStorage);
+  };
+}
+
+// Summaries from publishers that predate space centres place every space ahead
+export function snapshotFromSummary(event: OccupancyEvent, lotId: string): LiveStatusSnapshot | null {
+  if (event?.schema !== EVENT_SCHEMA || event.type !== 'lot.summary' || !Array.isArray(event.data?.spaces)) return null;
+  const updatedAt = Date.parse(event.timestamp);
+  return {
+    lotId,
+    lotName: event.lotName,
+    updatedAt: Number.isFinite(updatedAt) ? updatedAt : Date.now(),
+    isRunning: true,
+    spaces: event.data.spaces.map(space => ({
+      regionId: space.regionId,
+      label: space.label,
+      zone: space.zone,
+      isOccupied: space.state === 'occupied',
+      x: space.centre?.x ?? 0.5,
+      y: space.centre?.y ?? 0.5
+    }))
+  };
+}
+
+const MQTT_KEEPALIVE_SECONDS = 30;
+const MQTT_BASE_RETRY_DELAY = 1000;
+const MQTT_MAX_RETRY_DELAY = 60 * 1000;
+
+// Follows <topic>/summary and the publisher's retained <topic>/status, so an
+// "offline" publisher shows as paused. Reconnects with backoff until the
+// returned function is called; onError receives null once connected again.
+export function subscribeMqttLiveStatus(
+  source: StatusMqttSource,
+  lotId: string,
+  onSnapshot: (snapshot: LiveStatusSnapshot) => void,
+  onError: (error: string | null) => void
+): () => void {
+  const topic = source.topic || lotTopicFor(lotId);
+  let connection: MqttConnection | null = null;
+  let stopped = false;
+  let attempts = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let latest: LiveStatusSnapshot | null = null;
+  let online = true;
+
+  const emit = () => {
+    if (latest && !stopped) onSnapshot({ ...latest, isRunning: online });
+  };
+
+  const scheduleReconnect = () => {
+    if (stopped) return;
+    attempts += 1;
+    const delay = Math.min(MQTT_MAX_RETRY_DELAY, MQTT_BASE_RETRY_DELAY * 2 ** (attempts - 1));
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = async () => {
+    try {
+      const conn = await connectMqtt({
+        url: source.url,
+        clientId: `divya-drishti-status-${Math.random().toString(36).slice(2, 10)}`,
+        username: source.username,
+        password: source.password,
+        keepaliveSeconds: MQTT_KEEPALIVE_SECONDS
+      });
+      if (stopped) {
+        conn.disconnect();
+        return;
+      }
+      connection = conn;
+      conn.onClose(reason => {
+        connection = null;
+        onError(reason);
+        scheduleReconnect();
+      });
+
+      await conn.subscribe(`${topic}/status`, (_, payload) => {
+        online = payload !== 'offline';
+        emit();
+      });
+      await conn.subscribe(`${topic}/summary`, (_, payload) => {
+        try {
+          const snapshot = snapshotFromSummary(JSON.parse(payload), lotId);
+          if (!snapshot) return;
+          latest = snapshot;
+          emit();
+        } catch {
+          // Ignore anything on the topic that is not a summary event
+        }
+      });
+      attempts = 0;
+      onError(null);
+    } catch (err) {
+      if (stopped) return;
+      onError(err instanceof Error ? err.message : 'Failed to connect to broker');
+      // A refused subscription leaves the connection open, so close it before retrying
+      if (connection) {
+        connection.disconnect();
+        connection = null;
+      }
+      // A connection lost mid-subscribe has already scheduled its retry
+      if (!retryTimer) scheduleReconnect();
+    }
+  };
+
+  connect();
+
+  return () => {
+    stopped = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    connection?.disconnect();
+    connection = null;
+  };
+}
+
+const DIRECTION_ORDER: StatusDirection[] = ['left', 'ahead', 'right'];
+
+const directionOf = (x: number, mirror: boolean): StatusDirection =>
+  x < 1 / 3 ? (mirror ? 'right' : 'left') : x > 2 / 3 ? (mirror ? 'left' : 'right') : 'ahead';
+
+const byDirection = (a: StatusZone, b: StatusZone) =>
+  DIRECTION_ORDER.indexOf(a.direction) - DIRECTION_ORDER.indexOf(b.direction);
+
+// Uses the zones named in the layout when there are any, pointing drivers
+// towards where each zone sits in the camera view. Otherwise the view is
+// split into thirds.
+export function groupStatusZones(spaces: LiveStatusSpace[], mirror = false): StatusZone[] {
+  if (spaces.some(space => space.zone)) {
+    const named = new Map<string, LiveStatusSpace[]>();
+    spaces.forEach(space => {
+      if (!space.zone) return;
+      named.set(space.zone, [...(named.get(space.zone) || []), space]);
+    });
+    return Array.from(named.entries())
+      .map(([name, members]) => ({
+        id: name,
+        name,
+        direction: directionOf(members.reduce((sum, space) => sum + space.x, 0) / members.length, mirror),
+        free: members.filter(space => !space.isOccupied).length,
+        total: members.length
+      }))
+      .sort((a, b) => byDirection(a, b) || a.name.localeCompare(b.name, undefined, { numeric: true }));
+  }
+
+  const sections: { id: string; direction: StatusDirection; test: (x: number) => boolean }[] = [
+    { id: 'left', direction: mirror ? 'right' : 'left', test: x => x < 1 / 3 },
+    { id: 'centre', direction: 'ahead', test: x => x >= 1 / 3 && x <= 2 / 3 },
+    { id: 'right', direction: mirror ? 'left' : 'right', test: x => x > 2 / 3 }
+  ];
+  const names: Record<StatusDirection, string> = { left: 'Left', ahead: 'Ahead', right: 'Right' };
+
+  return sections
+    .map(section => {
+      const members = spaces.filter(space => section.test(space.x));
+      return {
+        id: section.id,
+        name: names[section.direction],
+        direction: section.direction,
+        free: members.filter(space => !space.isOccupied).length,
+        total: members.length
+      };
+    })
+    .filter(zone => zone.total > 0)
+    // Listed in the order a driver sees them
+    .sort(byDirection);
+}
+
+const clampNumber = (value: string | null, fallback: number, min: number, max: number) => {
+  const parsed = Number(value);
+  return value !== null && Number.isFinite(parsed) ? Math.min(max, Math.max(min, parsed)) : fallback;
+};
+
+const flag = (value: string | null, fallback: boolean) =>
+  value === null ? fallback : ['1', 'true', 'yes', 'on'].includes(value.toLowerCase());
+
+// e.g. /status/lot-abc?theme=contrast&refresh=10&mirror=1&title=North%20Entrance
+// MQTT: mqtt=<ws(s) url>, optionally topic=lot/abc, username= and password=
+export function parseStatusPageOptions(params: URLSearchParams): StatusPageOptions {
+  const theme = params.get('theme');
+  const refreshSeconds = clampNumber(params.get('refresh'), 5, 1, 300);
+  const mqttUrl = params.get('mqtt');
+  return {
+    theme: theme === 'light' || theme === 'contrast' ? theme : 'dark',
+    refreshSeconds,
+    staleSeconds: clampNumber(params.get('stale'), Math.max(60, refreshSeconds * 3), 5, 3600),
+    mirror: flag(params.get('mirror'), false),
+    showZones: flag(params.get('zones'), true),
+    title: params.get('title'),
+    mqtt: mqttUrl && isValidBrokerUrl(mqttUrl) ? {
+      url: mqttUrl,
+      topic: params.get('topic'),
+      username: params.get('username') || undefined,
+      password: params.get('password') || undefined
+    } : null
+  };
+}
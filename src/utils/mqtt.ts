@@ -0,0 +1,335 @@
+// Minimal MQTT 3.1.1 client over WebSockets, enough to publish to a broker
+// and follow a few topics: CONNECT with credentials and a last-will message,
+// PUBLISH at QoS 0 or 1, SUBSCRIBE to exact topics or + and # filters,
+// keepalive pings and a clean DISCONNECT.
+
+export type MqttQos = 0 | 1;
+
+export interface MqttWill {
+  topic: string;
+  payload: string;
+  qos: MqttQos;
+  retain: boolean;
+}
+
+export interface MqttConnectOptions {
+  url: string;                        // ws:// or wss:// broker endpoint
+  clientId: string;
+  username?: string;
+  password?: string;
+  keepaliveSeconds: number;
+  will?: MqttWill;
+  connectTimeout?: number;            // ms
+}
+
+export interface MqttPublishOptions {
+  qos?: MqttQos;
+  retain?: boolean;
+}
+
+export type MqttMessageHandler = (topic: string, payload: string, retained: boolean) => void;
+
+export interface MqttConnection {
+  publish: (topic: string, payload: string, options?: MqttPublishOptions) => Promise<void>;
+  // Resolves once the broker grants the subscription; retained messages follow
+  subscribe: (filter: string, onMessage: MqttMessageHandler, qos?: MqttQos) => Promise<void>;
+  // Ends the session cleanly; the broker discards the will message
+  disconnect: () => void;
+  // Called once when the connection ends for any reason other than disconnect()
+  onClose: (handler: (reason: string) => void) => void;
+}
+
+const PACKET = {
+  CONNECT: 1,
+  CONNACK: 2,
+  PUBLISH: 3,
+  PUBACK: 4,
+  SUBSCRIBE: 8,
+  SUBACK: 9,
+  PINGREQ: 12,
+  PINGRESP: 13,
+  DISCONNECT: 14
+};
+
+const CONNACK_ERRORS: Record<number, string> = {
+  1: 'Broker does not support MQTT 3.1.1',
+  2: 'Client ID rejected by broker',
+  3: 'Broker unavailable',
+  4: 'Bad username or password',
+  5: 'Not authorized'
+};
+
+const DEFAULT_CONNECT_TIMEOUT = 10000;
+const SUBACK_FAILURE = 0x80;
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function encodeLength(length: number): number[] {
+  const bytes: number[] = [];
+  do {
+    let byte = length % 128;
+    length = Math.floor(length / 128);
+    if (length > 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (length > 0);
+  return bytes;
+}
+
+type Bytes = Uint8Array | number[];
+
+// Copies into one buffer; spreading a large payload into arguments overflows the call stack
+function concatBytes(parts: Bytes[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+function encodeString(value: string | Uint8Array): Uint8Array {
+  const bytes = typeof value === 'string' ? encoder.encode(value) : value;
+  return concatBytes([[bytes.length >> 8, bytes.length & 0xff], bytes]);
+}
+
+function packet(type: number, flags: number, body: Bytes[]): Uint8Array {
+  const length = body.reduce((sum, part) => sum + part.length, 0);
+  return concatBytes([[(type << 4) | flags, ...encodeLength(length)], ...body]);
+}
+
+function connectPacket(options: MqttConnectOptions): Uint8Array {
+  const { will, username, password } = options;
+  let flags = 0x02;                   // Clean session
+  if (will) flags |= 0x04 | (will.qos << 3) | (will.retain ? 0x20 : 0);
+  if (username) flags |= 0x80;
+  if (username && password) flags |= 0x40;
+
+  const body: Bytes[] = [
+    encodeString('MQTT'),
+    [
+      4,                              // Protocol level 3.1.1
+      flags,
+      options.keepaliveSeconds >> 8,
+      options.keepaliveSeconds & 0xff
+    ],
+    encodeString(options.clientId)
+  ];
+  if (will) body.push(encodeString(will.topic), encodeString(will.payload));
+  if (username) body.push(encodeString(username));
+  if (username && password) body.push(encodeString(password));
+
+  return packet(PACKET.CONNECT, 0, body);
+}
+
+function publishPacket(topic: string, payload: string, qos: MqttQos, retain: boolean, packetId: number): Uint8Array {
+  const body: Bytes[] = [encodeString(topic)];
+  if (qos > 0) body.push([packetId >> 8, packetId & 0xff]);
+  body.push(encoder.encode(payload));
+  return packet(PACKET.PUBLISH, (qos << 1) | (retain ? 1 : 0), body);
+}
+
+function subscribePacket(filter: string, qos: MqttQos, packetId: number): Uint8Array {
+  return packet(PACKET.SUBSCRIBE, 0x02, [[packetId >> 8, packetId & 0xff], encodeString(filter), [qos]]);
+}
+
+export function topicMatches(filter: string, topic: string): boolean {
+  const filterLevels = filter.split('/');
+  const topicLevels = topic.split('/');
+  for (let i = 0; i < filterLevels.length; i++) {
+    if (filterLevels[i] === '#') return true;
+    if (i >= topicLevels.length) return false;
+    if (filterLevels[i] !== '+' && filterLevels[i] !== topicLevels[i]) return false;
+  }
+  return filterLevels.length === topicLevels.length;
+}
+
+// Splits a byte stream into whole packets; WebSocket frames need not align with them
+function createPacketReader(onPacket: (type: number, flags: number, body: Uint8Array) => void) {
+  let buffer = new Uint8Array(0);
+
+  return (chunk: Uint8Array) => {
+    const merged = new Uint8Array(buffer.length + chunk.length);
+    merged.set(buffer);
+    merged.set(chunk, buffer.length);
+    buffer = merged;
+
+    while (buffer.length >= 2) {
+      let length = 0;
+      let multiplier = 1;
+      let offset = 1;
+      let byte: number;
+      do {
+        if (offset >= buffer.length) return;
+        byte = buffer[offset++];
+        length += (byte & 0x7f) * multiplier;
+        multiplier *= 128;
+      } while (byte & 0x80);
+
+      if (buffer.length < offset + length) return;
+      onPacket(buffer[0] >> 4, buffer[0] & 0x0f, buffer.slice(offset, offset + length));
+      buffer = buffer.slice(offset + length);
+    }
+  };
+}
+
+export function isValidBrokerUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'ws:' || parsed.protocol === 'wss:';
+  } catch {
+    return false;
+  }
+}
+
+export function connectMqtt(options: MqttConnectOptions): Promise<MqttConnection> {
+  return new Promise((resolve, reject) => {
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(options.url, 'mqtt');
+    } catch (err) {
+      reject(err instanceof Error ? err : new Error('Invalid broker URL'));
+      return;
+    }
+    socket.binaryType = 'arraybuffer';
+
+    let connected = false;
+    let closed = false;
+    let nextPacketId = 1;
+    let pingTimer: ReturnType<typeof setInterval> | null = null;
+    let awaitingPong = false;
+    let closeHandler: ((reason: string) => void) | null = null;
+    const pendingAcks = new Map<number, { resolve: () => void; reject: (error: Error) => void }>();
+    const subscriptions: { filter: string; onMessage: MqttMessageHandler }[] = [];
+
+    const takePacketId = () => {
+      const packetId = nextPacketId;
+      nextPacketId = nextPacketId >= 0xffff ? 1 : nextPacketId + 1;
+      return packetId;
+    };
+
+    const connectTimer = setTimeout(() => fail('Timed out connecting to broker'), options.connectTimeout ?? DEFAULT_CONNECT_TIMEOUT);
+
+    const send = (data: Uint8Array) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(data);
+    };
+
+    function fail(reason: string) {
+      if (closed) return;
+      closed = true;
+      clearTimeout(connectTimer);
+      if (pingTimer) clearInterval(pingTimer);
+      pendingAcks.forEach(ack => ack.reject(new Error(reason)));
+      pendingAcks.clear();
+      socket.close();
+
+      if (connected) closeHandler?.(reason);
+      else reject(new Error(reason));
+    }
+
+    const readPacket = createPacketReader((type, flags, body) => {
+      switch (type) {
+        case PACKET.CONNACK: {
+          const returnCode = body[1];
+          if (returnCode !== 0) {
+            fail(CONNACK_ERRORS[returnCode] || `Connection refused (code ${returnCode})`);
+            return;
+          }
+          connected = true;
+          clearTimeout(connectTimer);
+          if (options.keepaliveSeconds > 0) {
+            pingTimer = setInterval(() => {
+              // No answer to the previous ping within a keepalive period
+              if (awaitingPong) {
+                fail('Broker stopped responding');
+                return;
+              }
+              awaitingPong = true;
+              send(packet(PACKET.PINGREQ, 0, []));
+            }, options.keepaliveSeconds * 1000);
+          }
+          resolve(connection);
+          break;
+        }
+        case PACKET.PUBACK: {
+          const packetId = (body[0] << 8) | body[1];
+          pendingAcks.get(packetId)?.resolve();
+          pendingAcks.delete(packetId);
+          break;
+        }
+        case PACKET.SUBACK: {
+          const packetId = (body[0] << 8) | body[1];
+          const ack = pendingAcks.get(packetId);
+          pendingAcks.delete(packetId);
+          if (body[2] === SUBACK_FAILURE) ack?.reject(new Error('Subscription refused by broker'));
+          else ack?.resolve();
+          break;
+        }
+        case PACKET.PUBLISH: {
+          const qos = (flags >> 1) & 0x03;
+          const topicLength = (body[0] << 8) | body[1];
+          const topic = decoder.decode(body.slice(2, 2 + topicLength));
+          let offset = 2 + topicLength;
+          if (qos > 0) {
+            send(packet(PACKET.PUBACK, 0, [body.slice(offset, offset + 2)]));
+            offset += 2;
+          }
+          const payload = decoder.decode(body.slice(offset));
+          subscriptions
+            .filter(subscription => topicMatches(subscription.filter, topic))
+            .forEach(subscription => subscription.onMessage(topic, payload, (flags & 0x01) === 1));
+          break;
+        }
+        case PACKET.PINGRESP:
+          awaitingPong = false;
+          break;
+      }
+    });
+
+    socket.onopen = () => send(connectPacket(options));
+    socket.onmessage = (event) => {
+      if (event.data instanceof ArrayBuffer) readPacket(new Uint8Array(event.data));
+    };
+    socket.onerror = () => fail('WebSocket error, check the broker URL and that it accepts MQTT over WebSockets');
+    socket.onclose = (event) => fail(event.reason || `Connection closed (code ${event.code})`);
+
+    const connection: MqttConnection = {
+      publish: (topic, payload, { qos = 0, retain = false } = {}) => {
+        if (closed) return Promise.reject(new Error('Not connected to broker'));
+        if (qos === 0) {
+          send(publishPacket(topic, payload, 0, retain, 0));
+          return Promise.resolve();
+        }
+
+        const packetId = takePacketId();
+        return new Promise<void>((resolveAck, rejectAck) => {
+          pendingAcks.set(packetId, { resolve: resolveAck, reject: rejectAck });
+          send(publishPacket(topic, payload, qos, retain, packetId));
+        });
+      },
+      subscribe: (filter, onMessage, qos = 0) => {
+        if (closed) return Promise.reject(new Error('Not connected to broker'));
+        // Registered first, as retained messages can arrive right behind the SUBACK
+        const subscription = { filter, onMessage };
+        subscriptions.push(subscription);
+        const packetId = takePacketId();
+        return new Promise<void>((resolveAck, rejectAck) => {
+          pendingAcks.set(packetId, { resolve: resolveAck, reject: rejectAck });
+          send(subscribePacket(filter, qos, packetId));
+        }).catch(err => {
+          subscriptions.splice(subscriptions.indexOf(subscription), 1);
+          throw err;
+        });
+      },
+      disconnect: () => {
+        if (closed) return;
+        send(packet(PACKET.DISCONNECT, 0, []));
+        closeHandler = null;
+        fail('Disconnected');
+      },
+      onClose: (handler) => {
+        closeHandler = handler;
+      }
+    };
+  });
+}
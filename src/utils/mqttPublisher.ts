@@ -0,0 +1,261 @@
+import type { ParkingSpace } from './parkingDetection';
+import { EventOrigin, lotSummaryEvent, spaceStatePayload } from './occupancyEvents';
+import { MqttConnection, MqttQos, connectMqtt, isValidBrokerUrl } from './mqtt';
+
+// Publishes occupancy to an MQTT broker for guidance systems:
+//
+//   lot/<id>/space/<n>/state   "occupied" | "free", retained, n = 1-based space number
+//   lot/<id>/summary           lot.summary event JSON, retained
+//   lot/<id>/status            "online" | "offline", retained; "offline" is also the last will
+//
+// Space topics are published when a space changes and again after every
+// (re)connect, so the retained values always match the latest result. The
+// will is bound to one lot's topics, so changing lot needs a restart.
+
+export interface MqttConfig {
+  enabled: boolean;
+  url: string;
+  username: string;
+  password: string;
+  lotId: string;                      // Topic id; blank uses the lot profile id
+  qos: MqttQos;
+  summaryIntervalSeconds: number;
+}
+
+export type MqttConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error';
+
+export interface MqttStatus {
+  state: MqttConnectionState;
+  error: string | null;
+  connectedAt: number | null;
+  published: number;
+  nextRetryAt: number | null;
+}
+
+export interface MqttPublisher {
+  start: () => void;
+  stop: () => void;
+  publish: (spaces: ParkingSpace[]) => void;
+  dispose: () => void;
+}
+
+export const DEFAULT_MQTT_CONFIG: MqttConfig = {
+  enabled: false,
+  url: 'ws://localhost:9001',
+  username: '',
+  password: '',
+  lotId: '',
+  qos: 0,
+  summaryIntervalSeconds: 30
+};
+
+const STORAGE_KEY = 'parksense-mqtt';
+const KEEPALIVE_SECONDS = 30;
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 60 * 1000;
+
+export function loadMqttConfig(): MqttConfig {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_MQTT_CONFIG, ...JSON.parse(saved) } : DEFAULT_MQTT_CONFIG;
+  } catch {
+    return DEFAULT_MQTT_CONFIG;
+  }
+}
+
+export function saveMqttConfig(config: MqttConfig) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.warn('Failed to save MQTT settings to localStorage:', error);
+  }
+}
+
+// MQTT topic levels cannot contain wildcards or separators
+const topicSegment = (value: string) => value.trim().replace(/[#+/\s]+/g, '-') || 'default';
+
+export function lotTopicFor(lotId: string | null | undefined): string {
+  return `lot/${topicSegment(lotId || '')}`;
+}
+
+export function lotTopic(config: MqttConfig, origin: EventOrigin): string {
+  return lotTopicFor(config.lotId || origin.lotId);
+}
+
+export function isValidMqttConfig(config: MqttConfig): boolean {
+  return isValidBrokerUrl(config.url);
+}
+
+export function createMqttPublisher(
+  getConfig: () => MqttConfig,
+  getOrigin: () => EventOrigin,
+  onStatus: (status: MqttStatus) => void
+): MqttPublisher {
+  let connection: MqttConnection | null = null;
+  let running = false;
+  let disposed = false;
+  let attempts = 0;
+  let generation = 0;                 // Bumped on stop so a connect in flight is discarded
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let connectedTopic: string | null = null;
+  let latest: ParkingSpace[] | null = null;
+  let publishedStates = new Map<number, string>();
+  let lastSummaryAt = 0;
+  const status: MqttStatus = {
+    state: 'disconnected',
+    error: null,
+    connectedAt: null,
+    published: 0,
+    nextRetryAt: null
+  };
+
+  const emit = () => {
+    if (!disposed) onStatus({ ...status });
+  };
+
+  const send = (topic: string, payload: string, qos = getConfig().qos) => {
+    if (!connection) return;
+    connection.publish(topic, payload, { qos, retain: true })
+      .then(() => {
+        status.published += 1;
+        emit();
+      })
+      .catch(err => console.warn(`MQTT publish to ${topic} failed:`, err));
+  };
+
+  const publishLatest = (force: boolean) => {
+    if (!connection || !connectedTopic || !latest) return;
+    const spaces = latest;
+    const config = getConfig();
+    const now = Date.now();
+    let changed = false;
+
+    const current = new Map(spaces.map(space => [space.id + 1, spaceStatePayload(space).state as string]));
+    current.forEach((state, number) => {
+      if (!force && publishedStates.get(number) === state) return;
+      send(`${connectedTopic}/space/${number}/state`, state);
+      changed = true;
+    });
+    // An empty retained message deletes the topic for spaces removed from the layout
+    publishedStates.forEach((_, number) => {
+      if (current.has(number)) return;
+      send(`${connectedTopic}/space/${number}/state`, '');
+      changed = true;
+    });
+    publishedStates = current;
+
+    if (force || changed || now - lastSummaryAt >= config.summaryIntervalSeconds * 1000) {
+      lastSummaryAt = now;
+      send(`${connectedTopic}/summary`, JSON.stringify(lotSummaryEvent(spaces, getOrigin(), now)));
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (!running || disposed) return;
+    attempts += 1;
+    const delay = Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** (attempts - 1));
+    status.nextRetryAt = Date.now() + delay;
+    emit();
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      status.nextRetryAt = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = async () => {
+    const config = getConfig();
+    if (!running || disposed || !isValidMqttConfig(config)) return;
+    const attempt = generation;
+    const topic = lotTopic(config, getOrigin());
+
+    status.state = 'connecting';
+    emit();
+
+    try {
+      const conn = await connectMqtt({
+        url: config.url,
+        clientId: `divya-drishti-${Math.random().toString(36).slice(2, 10)}`,
+        username: config.username || undefined,
+        password: config.password || undefined,
+        keepaliveSeconds: KEEPALIVE_SECONDS,
+        will: { topic: `${topic}/status`, payload: 'offline', qos: config.qos, retain: true }
+      });
+      if (attempt !== generation || disposed) {
+        conn.disconnect();
+        return;
+      }
+
+      connection = conn;
+      connectedTopic = topic;
+      attempts = 0;
+      status.state = 'connected';
+      status.error = null;
+      status.connectedAt = Date.now();
+      emit();
+
+      conn.onClose(reason => {
+        connection = null;
+        connectedTopic = null;
+        status.state = 'error';
+        status.error = reason;
+        status.connectedAt = null;
+        emit();
+        scheduleReconnect();
+      });
+
+      send(`${topic}/status`, 'online');
+      publishLatest(true);
+    } catch (err) {
+      if (attempt !== generation) return;
+      status.state = 'error';
+      status.error = err instanceof Error ? err.message : 'Failed to connect to broker';
+      emit();
+      scheduleReconnect();
+    }
+  };
+
+  const closeConnection = () => {
+    generation += 1;
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+    if (connection && connectedTopic) {
+      // A clean disconnect suppresses the will, so announce it ourselves
+      send(`${connectedTopic}/status`, 'offline', 0);
+      connection.disconnect();
+    }
+    connection = null;
+    connectedTopic = null;
+    publishedStates = new Map();
+    status.state = 'disconnected';
+    status.connectedAt = null;
+    status.nextRetryAt = null;
+  };
+
+  return {
+    start: () => {
+      if (running || disposed) return;
+      running = true;
+      attempts = 0;
+      status.error = null;
+      connect();
+    },
+    stop: () => {
+      running = false;
+      closeConnection();
+      status.error = null;
+      emit();
+    },
+    publish: (spaces) => {
+      latest = spaces;
+      publishLatest(false);
+    },
+    dispose: () => {
+      running = false;
+      closeConnection();
+      disposed = true;
+    }
+  };
+}
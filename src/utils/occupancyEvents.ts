@@ -0,0 +1,126 @@
+import type { ParkingSpace, Point, SpaceAttribute } from './parkingDetection';
+import { ZoneCount, countByZone, spaceLabel, spaceZone } from './spaceLabels';
+
+// Wire format shared by the outbound integrations. Consumers should check
+// `schema` and `version` and ignore event types they do not know.
+
+export const EVENT_SCHEMA = 'divya-drishti/event';
+export const EVENT_VERSION = 1;
+
+export type SpaceStateName = 'occupied' | 'free';
+
+export interface SpaceStatePayload {
+  spaceId: number;
+  label: string;
+  regionId: string;
+  zone?: string;
+  attributes?: SpaceAttribute[];
+  centre?: Point;                     // Region centre, normalized image space
+  state: SpaceStateName;
+  confidence: number;
+  vehicleType?: string;
+}
+
+export interface SpaceChangedPayload extends SpaceStatePayload {
+  previousState: SpaceStateName;
+}
+
+export interface LotSummaryPayload {
+  total: number;
+  occupied: number;
+  available: number;
+  occupancyRate: number;              // 0-100
+  zones: ZoneCount[];
+  spaces: SpaceStatePayload[];
+}
+
+export type OccupancyEvent =
+  | EventEnvelope<'space.state_changed', SpaceChangedPayload>
+  | EventEnvelope<'lot.summary', LotSummaryPayload>
+  | EventEnvelope<'test', { message: string }>;
+
+export interface EventEnvelope<T extends string, D> {
+  schema: typeof EVENT_SCHEMA;
+  version: typeof EVENT_VERSION;
+  id: string;
+  type: T;
+  lotId: string | null;
+  lotName: string;
+  timestamp: string;                  // ISO 8601
+  data: D;
+}
+
+export interface EventOrigin {
+  lotId: string | null;
+  lotName: string;
+}
+
+export const regionCentre = (points: Point[]): Point => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / Math.max(1, points.length),
+  y: points.reduce((sum, p) => sum + p.y, 0) / Math.max(1, points.length)
+});
+
+const eventId = () => `evt-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+function envelope<T extends string, D>(type: T, origin: EventOrigin, data: D, timestamp: number): EventEnvelope<T, D> {
+  return {
+    schema: EVENT_SCHEMA,
+    version: EVENT_VERSION,
+    id: eventId(),
+    type,
+    lotId: origin.lotId,
+    lotName: origin.lotName,
+    timestamp: new Date(timestamp).toISOString(),
+    data
+  };
+}
+
+export function spaceStatePayload(space: ParkingSpace): SpaceStatePayload {
+  return {
+    spaceId: space.id,
+    label: spaceLabel(space.region, space.id),
+    regionId: space.region.id,
+    zone: spaceZone(space.region),
+    attributes: space.region.attributes?.length ? space.region.attributes : undefined,
+    centre: regionCentre(space.region.points),
+    state: space.isOccupied ? 'occupied' : 'free',
+    confidence: Math.round(space.confidence * 1000) / 1000,
+    vehicleType: space.vehicleType
+  };
+}
+
+export function spaceChangeEvents(
+  spaces: ParkingSpace[],
+  previousSpaces: ParkingSpace[],
+  origin: EventOrigin,
+  timestamp = Date.now()
+): OccupancyEvent[] {
+  return spaces.flatMap(space => {
+    const previous = previousSpaces.find(p => p.id === space.id);
+    if (!previous || previous.isOccupied === space.isOccupied) return [];
+    return [envelope('space.state_changed', origin, {
+      ...spaceStatePayload(space),
+      previousState: previous.isOccupied ? 'occupied' as const : 'free' as const
+    }, timestamp)];
+  });
+}
+
+export function lotSummaryPayload(spaces: ParkingSpace[]): LotSummaryPayload {
+  const occupied = spaces.filter(space => space.isOccupied).length;
+  return {
+    total: spaces.length,
+    occupied,
+    available: spaces.length - occupied,
+    occupancyRate: spaces.length > 0 ? Math.round((occupied / spaces.length) * 1000) / 10 : 0,
+    zones: countByZone(spaces),
+    spaces: spaces.map(spaceStatePayload)
+  };
+}
+
+export function lotSummaryEvent(spaces: ParkingSpace[], origin: EventOrigin, timestamp = Date.now()): OccupancyEvent {
+  return envelope('lot.summary', origin, lotSummaryPayload(spaces), timestamp);
+}
+
+export function testEvent(origin: EventOrigin): OccupancyEvent {
+  return envelope('test', origin, { message: 'Test event from Divya Drishti' }, Date.now());
+}
@@ -0,0 +1,261 @@
+import { deleteOne, getAll, putOne } from './db';
+import type { Region } from './parkingDetection';
+import { spaceLabel, spaceZone } from './spaceLabels';
+
+export interface VehicleMovement {
+  spaceId: number;
+  label?: string;    // Space label and zone when recorded; older sessions have neither
+  zone?: string;
+  timestamp: number;
+  action: 'entered' | 'exited';
+  confidence: number;
+  vehicleType?: string;
+  duration?: number;
+  camera?: string; // Feed name when recorded from the multi-camera grid
+  feedId?: string; // Space ids restart at 0 on every feed, so the grid records its feed id too
+}
+
+export interface SpaceOccupancyHistory {
+  spaceId: number;
+  feedId?: string;
+  camera?: string;
+  label?: string;
+  zone?: string;
+  enterTime?: number;       // Start of the current stay; cleared when the space empties
+  lastEnteredAt?: number;   // Kept after exits; older sessions only have enterTime
+  exitTime?: number;
+  totalOccupiedTime: number;
+  occupancyCount: number;
+}
+
+// Identifies a space within a session, including which camera saw it
+export function spaceKey(record: { spaceId: number; feedId?: string }): string {
+  return record.feedId ? `${record.feedId}#${record.spaceId}` : String(record.spaceId);
+}
+
+export interface OccupancySample {
+  timestamp: number; // ms since epoch
+  occupied: number;
+  available: number;
+}
+
+export interface DetectionSession {
+  id: string;
+  lotId: string | null;
+  lotName: string;
+  source: 'webcam' | 'video' | 'multi-camera' | 'time-lapse';
+  startedAt: number;
+  endedAt: number;
+  totalSpaces: number;
+  samples: OccupancySample[];
+  movements: VehicleMovement[];
+  spaceHistory: SpaceOccupancyHistory[];
+}
+
+export interface DateRange {
+  from: number;
+  to: number;
+}
+
+export interface DashboardSummary {
+  totalSpaces: number;
+  occupied: number;
+  available: number;
+  averageOccupancyRate: number;              // 0-100, over all samples in range
+  hourlyOccupancy: (number | null)[];        // 24 buckets by hour of day, 0-100
+  movements: VehicleMovement[];              // Newest first
+  sessionCount: number;
+}
+
+const STORE = 'sessions';
+
+export function createSession(params: {
+  lotId: string | null;
+  lotName: string;
+  source: DetectionSession['source'];
+  totalSpaces: number;
+}): DetectionSession {
+  const now = Date.now();
+  return {
+    ...params,
+    id: `session-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    startedAt: now,
+    endedAt: now,
+    samples: [],
+    movements: [],
+    spaceHistory: []
+  };
+}
+
+export function recordSample(session: DetectionSession, sample: OccupancySample) {
+  session.samples.push(sample);
+  session.endedAt = Math.max(session.endedAt, sample.timestamp);
+}
+
+export function recordMovements(session: DetectionSession, movements: VehicleMovement[]) {
+  session.movements.push(...movements);
+}
+
+// The subset of a detected space that movement tracking reads
+export interface SpaceState {
+  id: number;
+  region?: Pick<Region, 'label' | 'zone'>;
+  isOccupied: boolean;
+  confidence: number;
+  vehicleType?: string;
+}
+
+// Occupancy changes between two consecutive results, timed at `timestamp`
+export function detectMovements(
+  newSpaces: SpaceState[],
+  previousSpaces: SpaceState[],
+  history: Map<number, SpaceOccupancyHistory>,
+  timestamp: number
+): VehicleMovement[] {
+  const movements: VehicleMovement[] = [];
+
+  newSpaces.forEach(space => {
+    const previousSpace = previousSpaces.find(p => p.id === space.id);
+    if (!previousSpace || previousSpace.isOccupied === space.isOccupied) return;
+
+    let duration: number | undefined;
+    if (!space.isOccupied) {
+      const enterTime = history.get(space.id)?.enterTime;
+      if (enterTime) duration = timestamp - enterTime;
+    }
+
+    movements.push({
+      spaceId: space.id,
+      label: spaceLabel(space.region, space.id),
+      zone: spaceZone(space.region),
+      timestamp,
+      action: space.isOccupied ? 'entered' : 'exited',
+      confidence: space.confidence,
+      vehicleType: space.vehicleType,
+      duration
+    });
+  });
+
+  return movements;
+}
+
+// Folds movements into per-space occupancy history, returning a new map
+export function applyMovements(
+  history: Map<number, SpaceOccupancyHistory>,
+  movements: VehicleMovement[]
+): Map<number, SpaceOccupancyHistory> {
+  const next = new Map(history);
+
+  movements.forEach(movement => {
+    const existing = { ...(next.get(movement.spaceId) || {
+      spaceId: movement.spaceId,
+      totalOccupiedTime: 0,
+      occupancyCount: 0
+    }) };
+    if (movement.feedId) existing.feedId = movement.feedId;
+    if (movement.camera) existing.camera = movement.camera;
+    if (movement.label) existing.label = movement.label;
+    if (movement.zone) existing.zone = movement.zone;
+
+    if (movement.action === 'entered') {
+      existing.enterTime = movement.timestamp;
+      existing.lastEnteredAt = movement.timestamp;
+      existing.occupancyCount += 1;
+    } else if (existing.enterTime) {
+      existing.totalOccupiedTime += movement.timestamp - existing.enterTime;
+      existing.exitTime = movement.timestamp;
+      delete existing.enterTime;
+    }
+
+    next.set(movement.spaceId, existing);
+  });
+
+  return next;
+}
+
+export async function saveSession(session: DetectionSession): Promise<void> {
+  // Skip sessions that never produced a detection
+  if (session.samples.length === 0) return;
+  await putOne(STORE, session);
+}
+
+export function listSessions(): Promise<DetectionSession[]> {
+  return getAll<DetectionSession>(STORE);
+}
+
+export function deleteSession(id: string): Promise<void> {
+  return deleteOne(STORE, id);
+}
+
+export function filterSessions(
+  sessions: DetectionSession[],
+  lotId: string | null | 'all',
+  range: DateRange
+): DetectionSession[] {
+  return sessions.filter(session =>
+    (lotId === 'all' || session.lotId === lotId) &&
+    session.endedAt >= range.from &&
+    session.startedAt <= range.to
+  );
+}
+
+export function summarizeSessions(sessions: DetectionSession[], range: DateRange): DashboardSummary {
+  const hourlySums = Array(24).fill(0);
+  const hourlyCounts = Array(24).fill(0);
+  let rateSum = 0;
+  let rateCount = 0;
+
+  // Latest state per lot; unsaved lots are keyed by session so they are counted separately
+  const latestByLot = new Map<string, { sample: OccupancySample; totalSpaces: number }>();
+  const movements: VehicleMovement[] = [];
+
+  sessions.forEach(session => {
+    const lotKey = session.lotId ?? session.id;
+
+    session.samples.forEach(sample => {
+      if (sample.timestamp < range.from || sample.timestamp > range.to) return;
+
+      const total = sample.occupied + sample.available;
+      if (total > 0) {
+        const rate = (sample.occupied / total) * 100;
+        const hour = new Date(sample.timestamp).getHours();
+        hourlySums[hour] += rate;
+        hourlyCounts[hour]++;
+        rateSum += rate;
+        rateCount++;
+      }
+
+      const latest = latestByLot.get(lotKey);
+      if (!latest || sample.timestamp > latest.sample.timestamp) {
+        latestByLot.set(lotKey, { sample, totalSpaces: session.totalSpaces });
+      }
+    });
+
+    session.movements.forEach(movement => {
+      if (movement.timestamp >= range.from && movement.timestamp <= range.to) {
+        movements.push(movement);
+      }
+    });
+  });
+
+  let totalSpaces = 0;
+  let occupied = 0;
+  let available = 0;
+  latestByLot.forEach(({ sample, totalSpaces: spaces }) => {
+    totalSpaces += spaces;
+    occupied += sample.occupied;
+    available += sample.available;
+  });
+
+  return {
+    totalSpaces,
+    occupied,
+    available,
+    averageOccupancyRate: rateCount > 0 ? rateSum / rateCount : 0,
+    hourlyOccupancy: hourlySums.map((sum, hour) =>
+      hourlyCounts[hour] > 0 ? Math.round((sum / hourlyCounts[hour]) * 10) / 10 : null
+    ),
+    movements: movements.sort((a, b) => b.timestamp - a.timestamp),
+    sessionCount: sessions.length
+  };
+}
@@ -2,6 +2,15 @@ import * as tf from '@tensorflow/tfjs';
 import * as cocoSsd from '@tensorflow-models/coco-ssd';
 import * as mobilenet from '@tensorflow-models/mobilenet';
 import '@tensorflow/tfjs-backend-webgl';
+import {
+  BackgroundModel,
+  SpaceBaseline,
+  SpaceFeatureVector,
+  computeThumbnail,
+  createBaseline,
+  scoreDeviation,
+  updateBaseline
+} from './backgroundModel';
 
 const CONFIG = {
   MIN_CONSECUTIVE_FRAMES: 3,              // Frames needed for stable state change (reduced for faster response)
@@ -20,21 +29,33 @@ const CONFIG = {
   TARGET_SIZE: [720, 1280],              // Target processing resolution
   STABILIZATION_FACTOR: 0.75,             // Temporal smoothing factor
   CONFIDENCE_BOOST: 1.2,                  // Boost factor for AI model confidence
-  MIN_AREA_COVERAGE: 0.25                 // Minimum area coverage to consider occupied
+  MIN_AREA_COVERAGE: 0.25,                // Minimum area coverage to consider occupied
+  BACKGROUND_DEVIATION_THRESHOLD: 0.35,   // Deviation from the empty-lot baseline that counts as occupied
+  BACKGROUND_LEARN_CONFIDENCE: 0.8,       // Only spaces judged empty this confidently update their baseline
+  COVERAGE_WEIGHT: 0.35,                  // Occupancy score weight for thresholded pixel coverage
+  TEXTURE_WEIGHT: 0.25,                   // Occupancy score weight for texture presence
+  EDGE_WEIGHT: 0.25,                      // Occupancy score weight for edge presence
+  COLOR_WEIGHT: 0.10,                     // Occupancy score weight for color variation
+  MOTION_WEIGHT: 0.05                     // Occupancy score weight for motion
 };
 
-interface Point {
+export interface Point {
   x: number;
   y: number;
 }
 
-interface Region {
+export type SpaceAttribute = 'accessible' | 'ev' | 'reserved' | 'motorcycle';
+
+export interface Region {
   id: string;
   points: Point[];
   type: 'rectangle' | 'quadrilateral';
+  label?: string;                         // Human label such as "B-14"; P<n> by position when unset
+  zone?: string;                          // Zone or row the space belongs to
+  attributes?: SpaceAttribute[];
 }
 
-interface ParkingSpace {
+export interface ParkingSpace {
   id: number;
   region: Region;
   isOccupied: boolean;
@@ -53,6 +74,7 @@ interface ParkingSpace {
     motionScore: number;
     shadowScore: number;
     stabilityScore: number;
+    backgroundDeviation?: number;         // Set when the space has an empty-lot baseline
   };
 }
 
@@ -63,20 +85,89 @@ let modelLoadingPromise: Promise<void> | null = null;
 let modelLoadAttempts = 0;
 const MAX_MODEL_LOAD_ATTEMPTS = 3;
 
-let frameCount = 0;
-let lastFrameTime = Date.now();
-let previousFrame: tf.Tensor3D | null = null;
-let previousSpaces: ParkingSpace[] = [];
+export interface DetectorSettings {
+  showDebugInfo: boolean;
+  useMotionDetection: boolean;
+  useAdvancedFeatures: boolean;
+  useModelVerification: boolean;
+  useTemporalSmoothing: boolean;
+  useAdaptiveVerification: boolean;
+  skipFastFrames: boolean;                // Drop frames arriving faster than 30fps; off for offline analysis
+}
 
-const settings = {
+const DEFAULT_DETECTOR_SETTINGS: DetectorSettings = {
   showDebugInfo: false,
   useMotionDetection: true,
   useAdvancedFeatures: true,
   useModelVerification: true,
   useTemporalSmoothing: true,
-  useAdaptiveVerification: true
+  useAdaptiveVerification: true,
+  skipFastFrames: true
+};
+
+export interface DetectionResult {
+  total: number;
+  occupied: number;
+  available: number;
+  spaces: ParkingSpace[];
+  image?: string;
+  processingTime?: number;
+  backgroundModel?: BackgroundModel;      // Present when this frame captured or learned baselines
+}
+
+// Anything detectParkingSpaces can read a frame from. Workers only ever see ImageBitmap.
+export type DetectionImageSource = string | HTMLVideoElement | HTMLImageElement | ImageBitmap;
+
+// DOM element classes do not exist inside workers, so guard every instanceof check
+const isVideoElement = (source: unknown): source is HTMLVideoElement =>
+  typeof HTMLVideoElement !== 'undefined' && source instanceof HTMLVideoElement;
+
+const isImageElement = (source: unknown): source is HTMLImageElement =>
+  typeof HTMLImageElement !== 'undefined' && source instanceof HTMLImageElement;
+
+const hasDocument = typeof document !== 'undefined';
+
+// Detection options exposed on the Settings page
+export interface DetectionOptions {
+  detectionThreshold: number;
+  enableWeatherResistance: boolean;
+  ignoreHumans: boolean;
+  ignoreAnimals: boolean;
+  configOverrides?: Partial<DetectionConfig>;
+  backgroundModel?: BackgroundModel;      // Per-space empty-lot baselines, keyed by region id
+  captureBackground?: boolean;            // Treat this frame as the empty lot and record every space
+  learnBackground?: boolean;              // Keep refining baselines from spaces that read as empty
+}
+
+export type DetectionConfig = typeof CONFIG;
+
+// Stock values, before per-lot overrides or the threshold slider apply
+export const DEFAULT_CONFIG: Readonly<DetectionConfig> = CONFIG;
+
+const DEFAULT_DETECTION_OPTIONS: DetectionOptions = {
+  detectionThreshold: 0.7,
+  enableWeatherResistance: true,
+  ignoreHumans: true,
+  ignoreAnimals: true
 };
 
+const HUMAN_CLASSES = ['person'];
+const ANIMAL_CLASSES = ['bird', 'cat', 'dog', 'horse', 'sheep', 'cow', 'elephant', 'bear', 'zebra', 'giraffe'];
+
+// Derive the effective CONFIG from the user's detection options.
+// Per-lot overrides replace the stock values, then the threshold slider shifts
+// them; the default threshold (0.7) leaves them unchanged.
+export function resolveConfig(options: DetectionOptions): DetectionConfig {
+  const base = { ...CONFIG, ...options.configOverrides };
+  const offset = options.detectionThreshold - DEFAULT_DETECTION_OPTIONS.detectionThreshold;
+  return {
+    ...base,
+    OCCUPANCY_THRESHOLD: Math.min(0.95, Math.max(0.05, base.OCCUPANCY_THRESHOLD + offset)),
+    MIN_VEHICLE_CONFIDENCE: Math.min(0.95, Math.max(0.05, base.MIN_VEHICLE_CONFIDENCE + offset)),
+    BACKGROUND_DEVIATION_THRESHOLD: Math.min(0.95, Math.max(0.05, base.BACKGROUND_DEVIATION_THRESHOLD + offset))
+  };
+}
+
 async function initializeTensorFlow(): Promise<boolean> {
   try {
     console.log('Initializing TensorFlow.js...');
@@ -245,7 +336,7 @@ async function ensureVideoReady(videoElement: HTMLVideoElement): Promise<HTMLVid
   });
 }
 
-function adaptiveThreshold(tensor: tf.Tensor3D, blockSize = 15, C = 10): tf.Tensor3D {
+export function adaptiveThreshold(tensor: tf.Tensor3D, blockSize = 15, C = 10): tf.Tensor3D {
   return tf.tidy(() => {
     const grayscale = tensor.shape[2] === 1 ? tensor : tf.image.rgbToGrayscale(tensor);
     const blurred = tf.avgPool(grayscale, [3, 3], 1, 'same');
@@ -284,7 +375,7 @@ function medianBlur(tensor: tf.Tensor3D, kernelSize = 3): tf.Tensor3D {
   });
 }
 
-function dilate(tensor: tf.Tensor3D, kernelSize = 3): tf.Tensor3D {
+export function dilate(tensor: tf.Tensor3D, kernelSize = 3): tf.Tensor3D {
   return tf.tidy(() => {
     const batched = tensor.expandDims(0);
     const dilated = tf.maxPool(batched, [kernelSize, kernelSize], [1, 1], 'same');
@@ -292,7 +383,7 @@ function dilate(tensor: tf.Tensor3D, kernelSize = 3): tf.Tensor3D {
   });
 }
 
-function enhanceContrast(tensor: tf.Tensor3D): tf.Tensor3D {
+export function enhanceContrast(tensor: tf.Tensor3D): tf.Tensor3D {
   return tf.tidy(() => {
     const grayscale = tensor.shape[2] === 1 ? tensor : tf.image.rgbToGrayscale(tensor);
     const { mean, variance } = tf.moments(grayscale);
@@ -315,22 +406,234 @@ function calculateMotionScore(currentFrame: tf.Tensor3D, previousFrame: tf.Tenso
   });
 }
 
-function countNonZeroPixels(imageData: ImageData): number {
+// 1 for pixels inside a region's polygon, 0 outside, laid out row-major over
+// the region's bounding-box ImageData. Feature functions treat a missing mask
+// as "every pixel counts".
+type PixelMask = Uint8Array;
+
+interface RegionPixels {
+  imageData: ImageData;
+  mask: PixelMask;
+  area: number; // Number of pixels inside the polygon
+}
+
+// Scanline fill of a polygon given in canvas pixels. Pixel centres are tested,
+// so the mask matches what a non-antialiased canvas fill would cover.
+function createPolygonMask(points: Point[], originX: number, originY: number, width: number, height: number): { mask: PixelMask; area: number } {
+  const mask = new Uint8Array(width * height);
+  let area = 0;
+
+  for (let row = 0; row < height; row++) {
+    const y = originY + row + 0.5;
+    const crossings: number[] = [];
+
+    for (let i = 0; i < points.length; i++) {
+      const a = points[i];
+      const b = points[(i + 1) % points.length];
+      if ((a.y <= y && b.y > y) || (b.y <= y && a.y > y)) {
+        crossings.push(a.x + ((y - a.y) / (b.y - a.y)) * (b.x - a.x));
+      }
+    }
+    crossings.sort((a, b) => a - b);
+
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      const start = Math.max(0, Math.ceil(crossings[i] - originX - 0.5));
+      const end = Math.min(width - 1, Math.ceil(crossings[i + 1] - originX - 0.5) - 1);
+      for (let col = start; col <= end; col++) {
+        mask[row * width + col] = 1;
+        area++;
+      }
+    }
+  }
+
+  return { mask, area };
+}
+
+function extractRegionPixels(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  region: Region,
+  canvasWidth: number,
+  canvasHeight: number
+): RegionPixels {
+  const bounds = getRegionBounds(region);
+  const x = Math.max(0, Math.floor(bounds.minX));
+  const y = Math.max(0, Math.floor(bounds.minY));
+  const width = Math.max(1, Math.min(canvasWidth, Math.ceil(bounds.maxX)) - x);
+  const height = Math.max(1, Math.min(canvasHeight, Math.ceil(bounds.maxY)) - y);
+
+  const imageData = ctx.getImageData(x, y, width, height);
+  const { mask, area } = createPolygonMask(region.points, x, y, width, height);
+
+  // Degenerate polygons (e.g. all points on a line) fall back to the bounding box
+  if (area === 0) {
+    return { imageData, mask: mask.fill(1), area: width * height };
+  }
+  return { imageData, mask, area };
+}
+
+// Quadrilateral spaces seen from a high camera are trapezoids in the image.
+// They are warped into a canonical top-down rectangle with a homography so
+// features and model crops see the space without perspective distortion.
+
+const MIN_RECTIFIED_SIZE = 10;
+
+function isQuadrilateral(region: Region): boolean {
+  return region.type === 'quadrilateral' && region.points.length === 4;
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+// Reorder four corners as top-left, top-right, bottom-right, bottom-left
+// (clockwise in image coordinates) regardless of the order they were drawn in.
+function orderQuadCorners(points: Point[]): Point[] {
+  const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const clockwise = [...points].sort((a, b) =>
+    Math.atan2(a.y - cy, a.x - cx) - Math.atan2(b.y - cy, b.x - cx)
+  );
+  const start = clockwise.reduce((best, p, i) =>
+    p.x + p.y < clockwise[best].x + clockwise[best].y ? i : best, 0);
+  return [...clockwise.slice(start), ...clockwise.slice(0, start)];
+}
+
+// Solve for the 8 coefficients of the projective transform mapping each
+// from[i] onto to[i], in the [a0, a1, a2, b0, b1, b2, c0, c1] layout used by
+// tf.image.transform. Returns null for degenerate (collinear) corners.
+function solveHomography(from: Point[], to: Point[]): number[] | null {
+  const A: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    A.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    A.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  // Gaussian elimination with partial pivoting on the 8x9 augmented matrix
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(A[row][col]) > Math.abs(A[pivot][col])) pivot = row;
+    }
+    if (Math.abs(A[pivot][col]) < 1e-10) return null;
+    [A[col], A[pivot]] = [A[pivot], A[col]];
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = A[row][col] / A[col][col];
+      for (let k = col; k < 9; k++) A[row][k] -= factor * A[col][k];
+    }
+  }
+
+  return A.map((row, i) => row[8] / A[i][i]);
+}
+
+// Output size follows the quad's average side lengths so the rectified crop
+// keeps roughly the same pixel count as the original region.
+function getRectifiedSize(corners: Point[]) {
+  const [tl, tr, br, bl] = corners;
+  return {
+    width: Math.max(MIN_RECTIFIED_SIZE, Math.round((distance(tl, tr) + distance(bl, br)) / 2)),
+    height: Math.max(MIN_RECTIFIED_SIZE, Math.round((distance(tl, bl) + distance(tr, br)) / 2))
+  };
+}
+
+// Warp a quadrilateral (in tensor pixel coordinates) to a top-down rectangle.
+// The caller owns the returned tensor.
+function rectifyQuadrilateral(imageTensor: tf.Tensor3D, points: Point[]): tf.Tensor3D | null {
+  const corners = orderQuadCorners(points);
+  const { width, height } = getRectifiedSize(corners);
+  const rectangle: Point[] = [
+    { x: 0, y: 0 },
+    { x: width - 1, y: 0 },
+    { x: width - 1, y: height - 1 },
+    { x: 0, y: height - 1 }
+  ];
+
+  // tf.image.transform maps output pixels back to input pixels
+  const coefficients = solveHomography(rectangle, corners);
+  if (!coefficients) return null;
+
+  return tf.tidy(() => {
+    const batch = imageTensor.expandDims(0) as tf.Tensor4D;
+    const transform = tf.tensor2d([coefficients], [1, 8]);
+    const warped = tf.image.transform(batch, transform, 'bilinear', 'constant', 0, [height, width]);
+    return warped.squeeze([0]) as tf.Tensor3D;
+  });
+}
+
+function tensorToImageData(tensor: tf.Tensor3D): ImageData {
+  const [height, width] = tensor.shape;
+  const rgb = tf.tidy(() => tf.clipByValue(tf.mul(tensor, 255), 0, 255)).dataSync();
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0, j = 0; i < rgb.length; i += 3, j += 4) {
+    rgba[j] = rgb[i];
+    rgba[j + 1] = rgb[i + 1];
+    rgba[j + 2] = rgb[i + 2];
+    rgba[j + 3] = 255;
+  }
+  return new ImageData(rgba, width, height);
+}
+
+function extractRectifiedPixels(imageTensor: tf.Tensor3D, points: Point[]): RegionPixels | null {
+  const rectified = rectifyQuadrilateral(imageTensor, points);
+  if (!rectified) return null;
+  try {
+    const imageData = tensorToImageData(rectified);
+    const area = imageData.width * imageData.height;
+    return { imageData, mask: new Uint8Array(area).fill(1), area };
+  } finally {
+    rectified.dispose();
+  }
+}
+
+// 0 for a space seen straight on (a true rectangle), rising towards 1 as
+// opposite sides diverge in length and corners move away from right angles.
+function calculatePerspectiveScore(points: Point[]): number {
+  if (points.length !== 4) return 0;
+  const [tl, tr, br, bl] = orderQuadCorners(points);
+
+  const sideRatio = (a: number, b: number) => Math.max(a, b) > 0 ? Math.min(a, b) / Math.max(a, b) : 1;
+  const foreshortening = 1 - sideRatio(distance(tl, tr), distance(bl, br)) * sideRatio(distance(tl, bl), distance(tr, br));
+
+  const corners = [tl, tr, br, bl];
+  const skew = corners.reduce((sum, corner, i) => {
+    const prev = corners[(i + 3) % 4];
+    const next = corners[(i + 1) % 4];
+    const ax = prev.x - corner.x, ay = prev.y - corner.y;
+    const bx = next.x - corner.x, by = next.y - corner.y;
+    const lengths = Math.hypot(ax, ay) * Math.hypot(bx, by);
+    return sum + (lengths > 0 ? Math.abs((ax * bx + ay * by) / lengths) : 0);
+  }, 0) / 4;
+
+  return Math.min(1, Math.max(0, 0.5 * foreshortening + 0.5 * skew));
+}
+
+function maskedPixelCount(imageData: ImageData, mask?: PixelMask): number {
+  if (!mask) return imageData.width * imageData.height;
+  let count = 0;
+  for (let i = 0; i < mask.length; i++) count += mask[i];
+  return count;
+}
+
+function countNonZeroPixels(imageData: ImageData, mask?: PixelMask): number {
   const data = imageData.data;
   let count = 0;
   for (let i = 0; i < data.length; i += 4) {
+    if (mask && !mask[i >> 2]) continue;
     if (data[i] > 25 || data[i + 1] > 25 || data[i + 2] > 25) count++;
   }
   return count;
 }
 
-function calculateColorVariance(imageData: ImageData): number {
+function calculateColorVariance(imageData: ImageData, mask?: PixelMask): number {
   const data = imageData.data;
   let sumR = 0, sumG = 0, sumB = 0;
   let sumR2 = 0, sumG2 = 0, sumB2 = 0;
-  const pixelCount = imageData.width * imageData.height;
+  const pixelCount = maskedPixelCount(imageData, mask);
+  if (pixelCount === 0) return 0;
 
   for (let i = 0; i < data.length; i += 4) {
+    if (mask && !mask[i >> 2]) continue;
     sumR += data[i];
     sumG += data[i + 1];
     sumB += data[i + 2];
@@ -358,10 +661,52 @@ function calculateShadowScore(imageData: ImageData): number {
   return (edgeScore + textureScore + colorScore) / 3;
 }
 
-function calculateDynamicThreshold(imageData: ImageData): number {
-  const brightness = calculateBrightness(imageData);
-  const colorVariance = calculateColorVariance(imageData);
-  return CONFIG.OCCUPANCY_THRESHOLD * (1 + (0.5 - brightness)) * (1 + colorVariance);
+function calculateDynamicThreshold(brightness: number, colorVariance: number, config: DetectionConfig, compensateLighting: boolean): number {
+  if (!compensateLighting) return config.OCCUPANCY_THRESHOLD;
+  return config.OCCUPANCY_THRESHOLD * (1 + (0.5 - brightness)) * (1 + colorVariance);
+}
+
+export interface OccupancyDecision {
+  score: number;
+  threshold: number;
+  isShadow: boolean;
+  isOccupied: boolean;
+}
+
+// The heuristic occupancy decision for one space, from its extracted features
+// alone. Kept separate from detect() so calibration can replay labelled
+// samples against candidate configs without touching pixels again.
+export function scoreOccupancy(
+  features: ParkingSpace['features'],
+  config: DetectionConfig,
+  compensateLighting: boolean
+): OccupancyDecision {
+  // Enhanced decision logic with better sensitivity
+  const isShadow = features.shadowScore < config.SHADOW_THRESHOLD;
+  const hasMotion = features.motionScore > config.MOTION_INFLUENCE * features.stabilityScore;
+  const hasTexture = features.textureComplexity > config.TEXTURE_COMPLEXITY_THRESHOLD;
+  const hasEdges = features.edgeDensity > config.EDGE_DENSITY_THRESHOLD;
+  const hasColorVariation = features.colorVariance > config.COLOR_VARIANCE_THRESHOLD;
+  const motion = hasMotion ? config.MOTION_WEIGHT : 0;
+
+  // With an empty-lot baseline the space is scored by how far it has
+  // moved from that; otherwise fall back to the multi-factor score.
+  if (features.backgroundDeviation !== undefined) {
+    const score = features.backgroundDeviation + motion;
+    const threshold = config.BACKGROUND_DEVIATION_THRESHOLD;
+    return { score, threshold, isShadow, isOccupied: !isShadow && score > threshold };
+  }
+
+  const score =
+    (features.heatmapScore * config.COVERAGE_WEIGHT) +           // Pixel coverage
+    (hasTexture ? config.TEXTURE_WEIGHT : 0) +                   // Texture presence
+    (hasEdges ? config.EDGE_WEIGHT : 0) +                        // Edge detection
+    (hasColorVariation ? config.COLOR_WEIGHT : 0) +              // Color variance
+    motion;                                                      // Motion detection
+  const threshold = calculateDynamicThreshold(features.brightness, features.colorVariance, config, compensateLighting);
+
+  // Improved decision logic - not shadow means likely vehicle
+  return { score, threshold, isShadow, isOccupied: !isShadow && score > threshold };
 }
 
 function getRegionBounds(region: Region) {
@@ -377,13 +722,17 @@ function getRegionBounds(region: Region) {
   };
 }
 
-function calculateBrightness(imageData: ImageData): number {
+function calculateBrightness(imageData: ImageData, mask?: PixelMask): number {
   const data = imageData.data;
+  const pixelCount = maskedPixelCount(imageData, mask);
+  if (pixelCount === 0) return 0;
+
   let brightness = 0;
   for (let i = 0; i < data.length; i += 4) {
+    if (mask && !mask[i >> 2]) continue;
     brightness += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
   }
-  return brightness / (imageData.width * imageData.height * 255);
+  return brightness / (pixelCount * 255);
 }
 
 function calculateEdgeDensity(imageData: ImageData): number {
@@ -393,7 +742,11 @@ function calculateEdgeDensity(imageData: ImageData): number {
   return strength / (imageData.width * imageData.height * 255);
 }
 
-function detectEdges(imageData: ImageData): number[][] {
+// Sobel magnitude for each pixel inside the mask; pixels outside it, and the
+// crop's outermost rows and columns, stay 0. The 3x3 window reads the crop as
+// it is, so pixels along the polygon border also pick up gradients from just
+// outside the space, such as a painted line or a car in the next bay.
+function detectEdges(imageData: ImageData, mask?: PixelMask): number[][] {
   const { width, height, data } = imageData;
   const sobelX = [[-1, 0, 1], [-2, 0, 2], [-1, 0, 1]];
   const sobelY = [[-1, -2, -1], [0, 0, 0], [1, 2, 1]];
@@ -401,6 +754,7 @@ function detectEdges(imageData: ImageData): number[][] {
 
   for (let y = 1; y < height - 1; y++) {
     for (let x = 1; x < width - 1; x++) {
+      if (mask && !mask[y * width + x]) continue;
       let gx = 0, gy = 0;
       for (let i = -1; i <= 1; i++) {
         for (let j = -1; j <= 1; j++) {
@@ -447,7 +801,12 @@ function calculateTextureComplexity(imageData: ImageData): number {
   return complexity / total;
 }
 
-async function verifyWithModel(space: ParkingSpace, imageTensor: tf.Tensor3D): Promise<ParkingSpace> {
+async function verifyWithModel(
+  space: ParkingSpace,
+  imageTensor: tf.Tensor3D,
+  config: DetectionConfig,
+  options: DetectionOptions
+): Promise<ParkingSpace> {
   if (!objectDetector || !featureExtractor) {
     console.warn('Models not available for verification');
     return space;
@@ -465,22 +824,17 @@ async function verifyWithModel(space: ParkingSpace, imageTensor: tf.Tensor3D): P
       p.x >= 0 && p.x <= 1 && p.y >= 0 && p.y <= 1
     );
 
-    // Get bounds in the correct coordinate space
-    let bounds;
-    if (areNormalized) {
-      // Points are normalized - scale to tensor dimensions
-      const scaledRegion = {
-        ...space.region,
-        points: space.region.points.map(p => ({
-          x: p.x * width,
-          y: p.y * height
-        }))
-      };
-      bounds = getRegionBounds(scaledRegion);
-    } else {
-      // Points are already in pixel coordinates
-      bounds = getRegionBounds(space.region);
-    }
+    // Get the region in tensor pixel coordinates
+    const pixelRegion: Region = areNormalized
+      ? {
+          ...space.region,
+          points: space.region.points.map(p => ({
+            x: p.x * width,
+            y: p.y * height
+          }))
+        }
+      : space.region;
+    const bounds = getRegionBounds(pixelRegion);
 
     // Ensure bounds are within tensor dimensions
     const minX = Math.max(0, Math.floor(bounds.minX));
@@ -497,14 +851,18 @@ async function verifyWithModel(space: ParkingSpace, imageTensor: tf.Tensor3D): P
       return space;
     }
 
-    // Crop the region of interest
-    cropped = tf.tidy(() => {
-      return tf.slice3d(
-        imageTensor,
-        [minY, minX, 0],
-        [cropHeight, cropWidth, 3]
-      );
-    });
+    // Crop the region of interest, rectifying quadrilaterals so the models
+    // see an undistorted top-down view of the space
+    cropped = isQuadrilateral(pixelRegion) ? rectifyQuadrilateral(imageTensor, pixelRegion.points) : null;
+    if (!cropped) {
+      cropped = tf.tidy(() => {
+        return tf.slice3d(
+          imageTensor,
+          [minY, minX, 0],
+          [cropHeight, cropWidth, 3]
+        );
+      });
+    }
 
     // Double-check the cropped dimensions
     const [croppedHeight, croppedWidth] = cropped.shape.slice(0, 2);
@@ -540,10 +898,20 @@ async function verifyWithModel(space: ParkingSpace, imageTensor: tf.Tensor3D): P
       featureExtractor.classify(mobilenetInput as tf.Tensor3D),
     ]);
 
+    // Drop humans/animals the user asked to ignore so they never count as vehicles
+    const ignoredClasses = [
+      ...(options.ignoreHumans ? HUMAN_CLASSES : []),
+      ...(options.ignoreAnimals ? ANIMAL_CLASSES : [])
+    ];
+    const ignoredPredictions = predictions.filter(p =>
+      ignoredClasses.includes(p.class) && p.score > config.MIN_VEHICLE_CONFIDENCE
+    );
+    const relevantPredictions = predictions.filter(p => !ignoredClasses.includes(p.class));
+
     const vehicleClasses = ['car', 'truck', 'bus', 'motorcycle', 'vehicle', 'van', 'suv', 'pickup'];
-    const vehiclePredictions = predictions.filter(p =>
+    const vehiclePredictions = relevantPredictions.filter(p =>
       vehicleClasses.some(vc => p.class.toLowerCase().includes(vc)) &&
-      p.score > CONFIG.MIN_VEHICLE_CONFIDENCE
+      p.score > config.MIN_VEHICLE_CONFIDENCE
     );
 
     if (vehiclePredictions.length > 0) {
@@ -554,7 +922,7 @@ async function verifyWithModel(space: ParkingSpace, imageTensor: tf.Tensor3D): P
       return {
         ...space,
         isOccupied: true,
-        confidence: bestPrediction.score * CONFIG.CONFIDENCE_BOOST,
+        confidence: bestPrediction.score * config.CONFIDENCE_BOOST,
         vehicleType: bestPrediction.class,
         features: {
           ...space.features,
@@ -564,6 +932,47 @@ async function verifyWithModel(space: ParkingSpace, imageTensor: tf.Tensor3D): P
       };
     }
 
+    // Humans/animals that are not ignored block the space like a vehicle would
+    const obstructionPredictions = relevantPredictions.filter(p =>
+      [...HUMAN_CLASSES, ...ANIMAL_CLASSES].includes(p.class) &&
+      p.score > config.MIN_VEHICLE_CONFIDENCE
+    );
+
+    if (obstructionPredictions.length > 0) {
+      const bestObstruction = obstructionPredictions.reduce((best, current) =>
+        current.score > best.score ? current : best
+      );
+
+      return {
+        ...space,
+        isOccupied: true,
+        confidence: bestObstruction.score,
+        vehicleType: bestObstruction.class,
+        features: {
+          ...space.features,
+          heatmapScore: 1
+        }
+      };
+    }
+
+    // An ignored object explains the pixel features, so the space is not taken by a vehicle
+    if (ignoredPredictions.length > 0) {
+      const bestIgnored = ignoredPredictions.reduce((best, current) =>
+        current.score > best.score ? current : best
+      );
+
+      return {
+        ...space,
+        isOccupied: false,
+        confidence: bestIgnored.score,
+        vehicleType: undefined,
+        features: {
+          ...space.features,
+          heatmapScore: 0
+        }
+      };
+    }
+
     if (features && features.length > 0) {
       const vehicleKeywords = ['car', 'truck', 'bus', 'motorcycle', 'vehicle', 'van'];
       const vehicleFeatures = features.some(f =>
@@ -579,7 +988,7 @@ async function verifyWithModel(space: ParkingSpace, imageTensor: tf.Tensor3D): P
         return {
           ...space,
           isOccupied: true,
-          confidence: bestFeature.probability * CONFIG.CONFIDENCE_BOOST,
+          confidence: bestFeature.probability * config.CONFIDENCE_BOOST,
           vehicleType: bestFeature.className.split(',')[0],
           features: {
             ...space.features,
@@ -608,8 +1017,8 @@ async function verifyWithModel(space: ParkingSpace, imageTensor: tf.Tensor3D): P
   }
 }
 
-function applyTemporalSmoothing(currentSpaces: ParkingSpace[], previousSpaces: ParkingSpace[]): ParkingSpace[] {
-  if (!previousSpaces || previousSpaces.length === 0 || !settings.useTemporalSmoothing) {
+function applyTemporalSmoothing(currentSpaces: ParkingSpace[], previousSpaces: ParkingSpace[], enabled = true): ParkingSpace[] {
+  if (!previousSpaces || previousSpaces.length === 0 || !enabled) {
     return currentSpaces;
   }
 
@@ -650,8 +1059,9 @@ function applyTemporalSmoothing(currentSpaces: ParkingSpace[], previousSpaces: P
 
 async function drawResults(
   ctx: CanvasRenderingContext2D,
-  img: HTMLImageElement | HTMLVideoElement,
-  spaces: ParkingSpace[]
+  img: HTMLImageElement | HTMLVideoElement | ImageBitmap,
+  spaces: ParkingSpace[],
+  showDebugInfo: boolean
 ): Promise<string> {
   ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
   ctx.drawImage(img, 0, 0);
@@ -719,7 +1129,7 @@ async function drawResults(
       features.stabilityScore > 0.4 ? 'rgba(234, 179, 8, 0.8)' : 'rgba(239, 68, 68, 0.8)';
     ctx.fillRect(bounds.minX + 5, bounds.minY + 30, stabilityWidth, 5);
 
-    if (settings.showDebugInfo) {
+    if (showDebugInfo) {
       ctx.font = '10px Arial';
       ctx.fillStyle = 'white';
       ctx.fillText(
@@ -742,430 +1152,551 @@ async function drawResults(
 
 // Enhanced parking space detection functions
 
-export async function detectParkingSpaces(
-  imageSource: string | HTMLVideoElement,
-  regions: Region[] | null | undefined = [],
-  previousSpaces: ParkingSpace[] = []
-): Promise<{
-  total: number;
-  occupied: number;
-  available: number;
-  spaces: ParkingSpace[];
-  image?: string;
-  processingTime?: number;
-}> {
-  const startTime = performance.now();
+// Each detector owns its configuration and frame history (previous frame,
+// previous spaces, frame counter) so several cameras or pages can run side by
+// side. The COCO-SSD and MobileNet models are loaded once and shared.
+export class ParkingDetector {
+  private options: DetectionOptions;
+  private settings: DetectorSettings;
+  private frameCount = 0;
+  private lastFrameTime = Date.now();
+  private previousFrame: tf.Tensor3D | null = null;
+  private previousSpaces: ParkingSpace[] = [];
+  private disposed = false;
+
+  constructor(options: Partial<DetectionOptions> = {}, settings: Partial<DetectorSettings> = {}) {
+    this.options = { ...DEFAULT_DETECTION_OPTIONS, ...options };
+    this.settings = { ...DEFAULT_DETECTOR_SETTINGS, ...settings };
+  }
 
-  try {
-    if (!imageSource) {
-      throw new Error('Invalid image source');
+  // previousSpacesOverride lets callers that track spaces themselves supply the
+  // last result; otherwise the detector's own history is used.
+  async detect(
+    imageSource: DetectionImageSource,
+    regions: Region[] | null | undefined = [],
+    previousSpacesOverride?: ParkingSpace[],
+    options: Partial<DetectionOptions> = {}
+  ): Promise<DetectionResult> {
+    const startTime = performance.now();
+    if (this.disposed) {
+      throw new Error('ParkingDetector has been disposed');
     }
 
-    const validRegions: Region[] = Array.isArray(regions) ?
-      regions.filter(region => {
-        const isValid = region &&
-          typeof region.id === 'string' &&
-          Array.isArray(region.points) &&
-          region.points.length >= 3 &&
-          region.points.every(p =>
-            p && typeof p.x === 'number' && typeof p.y === 'number' &&
-            !isNaN(p.x) && !isNaN(p.y) &&
-            isFinite(p.x) && isFinite(p.y)
-          );
-        if (!isValid && region) {
-          console.warn('Invalid region detected:', region);
-        }
-        return isValid;
-      }) : [];
+    const detectionOptions: DetectionOptions = {
+      ...this.options,
+      ...options,
+      configOverrides: { ...this.options.configOverrides, ...options.configOverrides }
+    };
+    const settings = this.settings;
+    const previousSpaces = previousSpacesOverride ?? this.previousSpaces;
+    const config = resolveConfig(detectionOptions);
 
-    const currentTime = Date.now();
-    const timeDiff = currentTime - lastFrameTime;
-    lastFrameTime = currentTime;
+    try {
+      if (!imageSource) {
+        throw new Error('Invalid image source');
+      }
 
-    if (timeDiff < 1000 / 30 && frameCount > 0 && frameCount % CONFIG.MAX_FRAME_SKIP !== 0) {
-      frameCount++;
-      return {
-        total: previousSpaces.length,
-        occupied: previousSpaces.filter(s => s.isOccupied).length,
-        available: previousSpaces.filter(s => !s.isOccupied).length,
-        spaces: previousSpaces,
-        processingTime: 0
-      };
-    }
+      const validRegions: Region[] = Array.isArray(regions) ?
+        regions.filter(region => {
+          const isValid = isValidRegion(region);
+          if (!isValid && region) {
+            console.warn('Invalid region detected:', region);
+          }
+          return isValid;
+        }) : [];
 
-    // Load models with better error handling
-    const modelsLoaded = await loadModels();
-    if (!modelsLoaded) {
-      console.warn('Models not loaded, proceeding with basic detection');
-      // Continue with basic detection even if models fail to load
-    }
+      const currentTime = Date.now();
+      const timeDiff = currentTime - this.lastFrameTime;
+      this.lastFrameTime = currentTime;
 
-    frameCount++;
+      if (settings.skipFastFrames && timeDiff < 1000 / 30 && this.frameCount > 0 && this.frameCount % config.MAX_FRAME_SKIP !== 0) {
+        this.frameCount++;
+        return {
+          total: previousSpaces.length,
+          occupied: previousSpaces.filter(s => s.isOccupied).length,
+          available: previousSpaces.filter(s => !s.isOccupied).length,
+          spaces: previousSpaces,
+          processingTime: 0
+        };
+      }
 
-    const canvas = document.createElement('canvas');
-    canvas.setAttribute('willReadFrequently', 'true');
-    const ctx = canvas.getContext('2d', {
-      willReadFrequently: true
-    });
-    if (!ctx) {
-      throw new Error('Could not get canvas context');
-    }
+      // Load models with better error handling
+      const modelsLoaded = await loadModels();
+      if (!modelsLoaded) {
+        console.warn('Models not loaded, proceeding with basic detection');
+        // Continue with basic detection even if models fail to load
+      }
 
-    let img: HTMLImageElement | HTMLVideoElement;
-    if (typeof imageSource === 'string') {
-      img = new Image();
-      img.crossOrigin = 'anonymous';
-      await new Promise((resolve, reject) => {
-        img.onload = resolve;
-        img.onerror = () => reject(new Error('Failed to load image'));
-        img.src = imageSource;
-      });
-    } else {
-      img = imageSource;
-
-      // Enhanced video readiness check with comprehensive state handling
-      if (img instanceof HTMLVideoElement) {
-        const stateMap = {
-          0: 'HAVE_NOTHING',
-          1: 'HAVE_METADATA',
-          2: 'HAVE_CURRENT_DATA',
-          3: 'HAVE_FUTURE_DATA',
-          4: 'HAVE_ENOUGH_DATA'
-        };
+      this.frameCount++;
 
-        console.log(`Video readyState: ${img.readyState} (${stateMap[img.readyState]})`);
-
-        // Check if video has ended - stop processing to prevent infinite loop
-        if (img.ended) {
-          console.log('Video has ended, stopping detection');
-          return {
-            total: previousSpaces.length,
-            occupied: previousSpaces.filter(s => s.isOccupied).length,
-            available: previousSpaces.filter(s => !s.isOccupied).length,
-            spaces: previousSpaces,
-            processingTime: performance.now() - startTime
+      // Inside a worker there is no DOM, so fall back to an OffscreenCanvas
+      let canvas: HTMLCanvasElement | OffscreenCanvas;
+      let ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+      if (hasDocument) {
+        const domCanvas = document.createElement('canvas');
+        domCanvas.setAttribute('willReadFrequently', 'true');
+        canvas = domCanvas;
+        ctx = domCanvas.getContext('2d', { willReadFrequently: true });
+      } else {
+        const offscreen = new OffscreenCanvas(1, 1);
+        canvas = offscreen;
+        ctx = offscreen.getContext('2d', { willReadFrequently: true });
+      }
+      if (!ctx) {
+        throw new Error('Could not get canvas context');
+      }
+
+      let img: HTMLImageElement | HTMLVideoElement | ImageBitmap;
+      if (typeof imageSource === 'string') {
+        const image = new Image();
+        image.crossOrigin = 'anonymous';
+        await new Promise((resolve, reject) => {
+          image.onload = resolve;
+          image.onerror = () => reject(new Error('Failed to load image'));
+          image.src = imageSource;
+        });
+        img = image;
+      } else {
+        img = imageSource;
+
+        // Enhanced video readiness check with comprehensive state handling
+        if (isVideoElement(img)) {
+          const stateMap = {
+            0: 'HAVE_NOTHING',
+            1: 'HAVE_METADATA',
+            2: 'HAVE_CURRENT_DATA',
+            3: 'HAVE_FUTURE_DATA',
+            4: 'HAVE_ENOUGH_DATA'
           };
-        }
 
-        // Check if video has sufficient data for frame extraction
-        if (img.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
-          console.log('Video not ready for processing, attempting to ensure readiness...');
-          
-          try {
-            // Try to ensure video is ready
-            await ensureVideoReady(img);
-          } catch (error) {
-            console.warn('Video readiness check failed:', error);
-            // Continue with processing anyway - sometimes videos work even with low readyState
+          console.log(`Video readyState: ${img.readyState} (${stateMap[img.readyState as keyof typeof stateMap]})`);
+
+          // Check if video has ended - stop processing to prevent infinite loop
+          if (img.ended) {
+            console.log('Video has ended, stopping detection');
+            return {
+              total: previousSpaces.length,
+              occupied: previousSpaces.filter(s => s.isOccupied).length,
+              available: previousSpaces.filter(s => !s.isOccupied).length,
+              spaces: previousSpaces,
+              processingTime: performance.now() - startTime
+            };
           }
-        }
 
-        // Additional checks for video validity
-        if (img.videoWidth === 0 || img.videoHeight === 0) {
-          throw new Error('Video has invalid dimensions');
-        }
+          // Check if video has sufficient data for frame extraction
+          if (img.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+            console.log('Video not ready for processing, attempting to ensure readiness...');
 
-        // Check if video is paused but has data
-        if (img.paused && img.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
-          console.log('Video is paused but has current data, proceeding with processing');
-        }
+            try {
+              // Try to ensure video is ready
+              await ensureVideoReady(img);
+            } catch (error) {
+              console.warn('Video readiness check failed:', error);
+              // Continue with processing anyway - sometimes videos work even with low readyState
+            }
+          }
 
-        console.log(`Video processing: width=${img.videoWidth}, height=${img.videoHeight}, currentTime=${img.currentTime}, duration=${img.duration}, ended=${img.ended}, paused=${img.paused}`);
+          // Additional checks for video validity
+          if (img.videoWidth === 0 || img.videoHeight === 0) {
+            throw new Error('Video has invalid dimensions');
+          }
+
+          // Check if video is paused but has data
+          if (img.paused && img.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+            console.log('Video is paused but has current data, proceeding with processing');
+          }
 
-      } else if (img instanceof HTMLImageElement) {
-        // Image validation
-        if (!img.complete || img.naturalWidth === 0) {
-          throw new Error('Image is not fully loaded or has invalid dimensions');
+          console.log(`Video processing: width=${img.videoWidth}, height=${img.videoHeight}, currentTime=${img.currentTime}, duration=${img.duration}, ended=${img.ended}, paused=${img.paused}`);
+
+        } else if (isImageElement(img)) {
+          // Image validation
+          if (!img.complete || img.naturalWidth === 0) {
+            throw new Error('Image is not fully loaded or has invalid dimensions');
+          }
+          console.log(`Image processing: width=${img.naturalWidth}, height=${img.naturalHeight}`);
+        } else if (typeof ImageBitmap !== 'undefined' && img instanceof ImageBitmap) {
+          if (img.width === 0 || img.height === 0) {
+            throw new Error('Frame bitmap has invalid dimensions');
+          }
+        } else {
+          throw new Error('Unsupported media type');
         }
-        console.log(`Image processing: width=${img.naturalWidth}, height=${img.naturalHeight}`);
-      } else {
-        throw new Error('Unsupported media type');
       }
-    }
 
-    // Get original video dimensions
-    const originalWidth = img instanceof HTMLVideoElement ? img.videoWidth : img.naturalWidth;
-    const originalHeight = img instanceof HTMLVideoElement ? img.videoHeight : img.naturalHeight;
-
-    // CRITICAL FIX: Maintain aspect ratio when resizing for processing
-    // Don't force to TARGET_SIZE if it distorts the aspect ratio
-    const aspectRatio = originalWidth / originalHeight;
-    const targetWidth = CONFIG.TARGET_SIZE[1];
-    const targetHeight = CONFIG.TARGET_SIZE[0];
-    const targetAspectRatio = targetWidth / targetHeight;
-
-    let canvasWidth, canvasHeight;
-    if (Math.abs(aspectRatio - targetAspectRatio) < 0.01) {
-      // Aspect ratios match - use target size
-      canvasWidth = targetWidth;
-      canvasHeight = targetHeight;
-    } else {
-      // Preserve original aspect ratio, scale to fit within target size
-      if (aspectRatio > targetAspectRatio) {
-        // Wider than target - fit to width
+      // Get original video dimensions
+      const originalWidth = isVideoElement(img) ? img.videoWidth : isImageElement(img) ? img.naturalWidth : img.width;
+      const originalHeight = isVideoElement(img) ? img.videoHeight : isImageElement(img) ? img.naturalHeight : img.height;
+
+      // CRITICAL FIX: Maintain aspect ratio when resizing for processing
+      // Don't force to TARGET_SIZE if it distorts the aspect ratio
+      const aspectRatio = originalWidth / originalHeight;
+      const targetWidth = config.TARGET_SIZE[1];
+      const targetHeight = config.TARGET_SIZE[0];
+      const targetAspectRatio = targetWidth / targetHeight;
+
+      let canvasWidth, canvasHeight;
+      if (Math.abs(aspectRatio - targetAspectRatio) < 0.01) {
+        // Aspect ratios match - use target size
         canvasWidth = targetWidth;
-        canvasHeight = Math.round(targetWidth / aspectRatio);
-      } else {
-        // Taller than target - fit to height
         canvasHeight = targetHeight;
-        canvasWidth = Math.round(targetHeight * aspectRatio);
+      } else {
+        // Preserve original aspect ratio, scale to fit within target size
+        if (aspectRatio > targetAspectRatio) {
+          // Wider than target - fit to width
+          canvasWidth = targetWidth;
+          canvasHeight = Math.round(targetWidth / aspectRatio);
+        } else {
+          // Taller than target - fit to height
+          canvasHeight = targetHeight;
+          canvasWidth = Math.round(targetHeight * aspectRatio);
+        }
       }
-    }
 
-    canvas.width = canvasWidth;
-    canvas.height = canvasHeight;
+      canvas.width = canvasWidth;
+      canvas.height = canvasHeight;
 
-    try {
-      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-    } catch (drawError) {
-      console.error('Failed to draw image to canvas:', drawError);
-      throw new Error('Failed to process image/video frame');
-    }
+      try {
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      } catch (drawError) {
+        console.error('Failed to draw image to canvas:', drawError);
+        throw new Error('Failed to process image/video frame');
+      }
 
-    // COORDINATE SYSTEM:
-    // Regions from RegionSelector are in normalized coordinates (0-1)
-    // We scale them to canvas for processing, but keep original normalized coords for output
+      // COORDINATE SYSTEM:
+      // Regions from RegionSelector are in normalized coordinates (0-1)
+      // We scale them to canvas for processing, but keep original normalized coords for output
 
-    const areRegionsNormalized = validRegions.every(region =>
-      region.points.every(p => p.x >= 0 && p.x <= 1 && p.y >= 0 && p.y <= 1)
-    );
+      const areRegionsNormalized = validRegions.every(region =>
+        region.points.every(p => p.x >= 0 && p.x <= 1 && p.y >= 0 && p.y <= 1)
+      );
 
-    console.log(`[Calibration] Video: ${originalWidth}x${originalHeight}, Canvas: ${canvas.width}x${canvas.height}`);
-    console.log(`[Calibration] Input regions: ${validRegions.length}, Normalized: ${areRegionsNormalized}`);
+      console.log(`[Calibration] Video: ${originalWidth}x${originalHeight}, Canvas: ${canvas.width}x${canvas.height}`);
+      console.log(`[Calibration] Input regions: ${validRegions.length}, Normalized: ${areRegionsNormalized}`);
 
-    let scaledRegions: Region[];
+      let scaledRegions: Region[];
 
-    if (areRegionsNormalized) {
-      // Scale normalized coords to canvas for processing
-      scaledRegions = validRegions.map((region, idx) => {
-        const scaled = {
-          ...region,
-          points: region.points.map(point => ({
-            x: point.x * canvas.width,
-            y: point.y * canvas.height
-          }))
-        };
+      if (areRegionsNormalized) {
+        // Scale normalized coords to canvas for processing
+        scaledRegions = validRegions.map((region, idx) => {
+          const scaled = {
+            ...region,
+            points: region.points.map(point => ({
+              x: point.x * canvas.width,
+              y: point.y * canvas.height
+            }))
+          };
 
-        const bounds = getRegionBounds(scaled);
-        console.log(`[Region ${idx}] Canvas coords: ${scaled.points[0].x.toFixed(1)},${scaled.points[0].y.toFixed(1)}, Size: ${bounds.width.toFixed(1)}x${bounds.height.toFixed(1)}px`);
+          const bounds = getRegionBounds(scaled);
+          console.log(`[Region ${idx}] Canvas coords: ${scaled.points[0].x.toFixed(1)},${scaled.points[0].y.toFixed(1)}, Size: ${bounds.width.toFixed(1)}x${bounds.height.toFixed(1)}px`);
 
-        return scaled;
-      });
-    } else {
-      // Legacy: scale pixel coords to canvas
-      console.warn('[Calibration] Non-normalized regions - converting to canvas space');
-      const scaleX = canvas.width / originalWidth;
-      const scaleY = canvas.height / originalHeight;
-
-      scaledRegions = validRegions.map((region, idx) => {
-        const scaled = {
-          ...region,
-          points: region.points.map(point => ({
-            x: point.x * scaleX,
-            y: point.y * scaleY
-          }))
-        };
+          return scaled;
+        });
+      } else {
+        // Legacy: scale pixel coords to canvas
+        console.warn('[Calibration] Non-normalized regions - converting to canvas space');
+        const scaleX = canvas.width / originalWidth;
+        const scaleY = canvas.height / originalHeight;
+
+        scaledRegions = validRegions.map((region, idx) => {
+          const scaled = {
+            ...region,
+            points: region.points.map(point => ({
+              x: point.x * scaleX,
+              y: point.y * scaleY
+            }))
+          };
 
-        const bounds = getRegionBounds(scaled);
-        console.log(`[Region ${idx}] Scaled to canvas: ${scaled.points[0].x.toFixed(1)},${scaled.points[0].y.toFixed(1)}, Size: ${bounds.width.toFixed(1)}x${bounds.height.toFixed(1)}px`);
+          const bounds = getRegionBounds(scaled);
+          console.log(`[Region ${idx}] Scaled to canvas: ${scaled.points[0].x.toFixed(1)},${scaled.points[0].y.toFixed(1)}, Size: ${bounds.width.toFixed(1)}x${bounds.height.toFixed(1)}px`);
 
-        return scaled;
-      });
-    }
+          return scaled;
+        });
+      }
 
-    let tensor: tf.Tensor3D | null = null;
-    let enhanced: tf.Tensor3D | null = null;
-    let processed: tf.Tensor3D | null = null;
+      let tensor: tf.Tensor3D | null = null;
+      let enhanced: tf.Tensor3D | null = null;
+      let processed: tf.Tensor3D | null = null;
 
-    try {
-      // Convert image to tensor with consistent size
-      tensor = tf.tidy(() => {
-        const t = tf.browser.fromPixels(canvas);
-        return tf.cast(t, 'float32').div(255);
-      });
+      try {
+        // Convert image to tensor with consistent size
+        tensor = tf.tidy(() => {
+          const t = tf.browser.fromPixels(
+            hasDocument
+              ? canvas as HTMLCanvasElement
+              : ctx!.getImageData(0, 0, canvas.width, canvas.height)
+          );
+          return tf.cast(t, 'float32').div(255);
+        });
 
-      // Enhanced preprocessing pipeline
-      enhanced = tf.tidy(() => {
-        // Apply CLAHE-like contrast enhancement
-        const lab = tf.image.rgbToGrayscale(tensor);
-        const blurred = tf.tidy(() => {
-          const kernel = generateGaussianKernel(3, 1.5);
-          return tf.depthwiseConv2d(lab, kernel, 1, 'same');
+        // Enhanced preprocessing pipeline
+        enhanced = tf.tidy(() => {
+          // Apply CLAHE-like contrast enhancement
+          const lab = tf.image.rgbToGrayscale(tensor);
+          const blurred = tf.tidy(() => {
+            const kernel = generateGaussianKernel(3, 1.5);
+            return tf.depthwiseConv2d(lab, kernel, 1, 'same');
+          });
+          const detail = tf.sub(lab, blurred);
+          const enhancedDetail = tf.mul(detail, tf.scalar(2.0));
+          return tf.add(blurred, enhancedDetail);
         });
-        const detail = tf.sub(lab, blurred);
-        const enhancedDetail = tf.mul(detail, tf.scalar(2.0));
-        return tf.add(blurred, enhancedDetail);
-      });
 
-      processed = tf.tidy(() => {
-        // Multi-stage adaptive thresholding
-        const binary1 = adaptiveThreshold(enhanced, 15, 5);
-        const binary2 = adaptiveThreshold(enhanced, 25, 10);
+        processed = tf.tidy(() => {
+          // Multi-stage adaptive thresholding
+          const binary1 = adaptiveThreshold(enhanced, 15, 5);
+          const binary2 = adaptiveThreshold(enhanced, 25, 10);
 
-        // Convert to boolean before logical operation
-        const bool1 = tf.greater(binary1, tf.scalar(0.5));
-        const bool2 = tf.greater(binary2, tf.scalar(0.5));
+          // Convert to boolean before logical operation
+          const bool1 = tf.greater(binary1, tf.scalar(0.5));
+          const bool2 = tf.greater(binary2, tf.scalar(0.5));
 
-        const combined = tf.logicalOr(bool1, bool2);
-        const cleaned = medianBlur(tf.cast(combined, 'float32'), 3);
-        return dilate(cleaned, 2);
-      });
+          const combined = tf.logicalOr(bool1, bool2);
+          const cleaned = medianBlur(tf.cast(combined, 'float32'), 3);
+          return dilate(cleaned, 2);
+        });
 
-      const motionScore = settings.useMotionDetection ?
-        calculateEnhancedMotionScore(tensor, previousFrame) : 0;
-
-      if (previousFrame) previousFrame.dispose();
-      previousFrame = tensor.clone();
-
-      let spaces: ParkingSpace[] = await Promise.all(scaledRegions.map(async (scaledRegion, index) => {
-        try {
-          // Always return regions in normalized coordinates (0-1) for consistency
-          // This makes the overlay rendering work correctly regardless of display size
-          const normalizedRegion: Region = {
-            ...validRegions[index],
-            id: validRegions[index].id,
-            type: validRegions[index].type,
-            points: validRegions[index].points
-          };
+        const motionScore = settings.useMotionDetection ?
+          calculateEnhancedMotionScore(tensor, this.previousFrame) : 0;
 
-          const bounds = getRegionBounds(scaledRegion);
-          if (bounds.width < CONFIG.PARKING_SPACE_MIN_SIZE || bounds.height < CONFIG.PARKING_SPACE_MIN_SIZE) {
-            console.warn(`[Region ${index}] Too small: ${bounds.width.toFixed(1)}x${bounds.height.toFixed(1)}px < ${CONFIG.PARKING_SPACE_MIN_SIZE}px minimum - creating empty space`);
-            return createEmptySpace(index, normalizedRegion);
-          }
+        if (this.previousFrame) this.previousFrame.dispose();
+        this.previousFrame = tensor.clone();
 
-          const regionImageData = ctx.getImageData(
-            Math.max(0, bounds.minX),
-            Math.max(0, bounds.minY),
-            Math.min(canvas.width - bounds.minX, bounds.width),
-            Math.min(canvas.height - bounds.minY, bounds.height)
-          );
+        const backgroundModel = detectionOptions.backgroundModel ?? {};
+        const updatedBaselines: SpaceBaseline[] = [];
 
-          // Enhanced feature extraction
-          const nonZeroCount = countNonZeroPixels(regionImageData);
-          const normalizedCount = nonZeroCount / (regionImageData.width * regionImageData.height);
-          const shadowScore = calculateEnhancedShadowScore(regionImageData);
-          const dynamicThreshold = calculateDynamicThreshold(regionImageData);
-          const colorVariance = calculateColorVariance(regionImageData);
-          const textureFeatures = calculateEnhancedTextureFeatures(regionImageData);
-          const edgeFeatures = calculateEnhancedEdgeFeatures(regionImageData);
-
-          const previousSpace = previousSpaces.find(s => s.id === index);
-          const stabilityScore = previousSpace?.features.stabilityScore || 0.5;
-
-          // Enhanced decision logic with better sensitivity
-          const isShadow = shadowScore < CONFIG.SHADOW_THRESHOLD;
-          const hasMotion = motionScore > CONFIG.MOTION_INFLUENCE * stabilityScore;
-          const hasTexture = textureFeatures.complexity > CONFIG.TEXTURE_COMPLEXITY_THRESHOLD;
-          const hasEdges = edgeFeatures.density > CONFIG.EDGE_DENSITY_THRESHOLD;
-          const hasColorVariation = colorVariance > CONFIG.COLOR_VARIANCE_THRESHOLD;
-
-          // Multi-factor occupancy score with adjusted weights
-          const occupancyScore =
-            (normalizedCount * 0.35) +                // Pixel coverage
-            (hasTexture ? 0.25 : 0) +                 // Texture presence
-            (hasEdges ? 0.25 : 0) +                   // Edge detection
-            (hasColorVariation ? 0.10 : 0) +          // Color variance
-            (hasMotion ? 0.05 : 0);                   // Motion detection
-
-          // Improved decision logic - not shadow means likely vehicle
-          const isOccupied = !isShadow && occupancyScore > dynamicThreshold;
-
-          // Calculate confidence with better error margin handling
-          const errorMargin = Math.abs(occupancyScore - dynamicThreshold);
-          const baseConfidence = !isShadow ? Math.max(0.5, 1 - errorMargin) : 0.3;
-          const confidence = Math.min(1,
-            baseConfidence *
-            (1 + 0.2 * motionScore) *
-            Math.max(0.7, stabilityScore)
-          );
+        let spaces: ParkingSpace[] = await Promise.all(scaledRegions.map(async (scaledRegion, index) => {
+          try {
+            // Always return regions in normalized coordinates (0-1) for consistency
+            // This makes the overlay rendering work correctly regardless of display size
+            const normalizedRegion: Region = {
+              ...validRegions[index],
+              id: validRegions[index].id,
+              type: validRegions[index].type,
+              points: validRegions[index].points
+            };
+
+            const bounds = getRegionBounds(scaledRegion);
+            if (bounds.width < config.PARKING_SPACE_MIN_SIZE || bounds.height < config.PARKING_SPACE_MIN_SIZE) {
+              console.warn(`[Region ${index}] Too small: ${bounds.width.toFixed(1)}x${bounds.height.toFixed(1)}px < ${config.PARKING_SPACE_MIN_SIZE}px minimum - creating empty space`);
+              return createEmptySpace(index, normalizedRegion);
+            }
 
-          const space: ParkingSpace = {
-            id: index,
-            region: normalizedRegion, // Always use normalized coordinates (0-1)
-            isOccupied,
-            confidence,
-            lastStateChange: Date.now(),
-            stateHistory: previousSpace?.stateHistory || [],
-            features: {
+            // Quadrilaterals are rectified to a top-down view; everything else
+            // is sampled through its polygon mask. Either way only pixels inside
+            // the drawn space count, not neighbours or lane markings.
+            const { imageData: regionImageData, mask, area } =
+              (isQuadrilateral(scaledRegion) && extractRectifiedPixels(tensor!, scaledRegion.points)) ||
+              extractRegionPixels(ctx, scaledRegion, canvas.width, canvas.height);
+
+            // Enhanced feature extraction
+            const nonZeroCount = countNonZeroPixels(regionImageData, mask);
+            const normalizedCount = nonZeroCount / area;
+            const shadowScore = calculateEnhancedShadowScore(regionImageData, mask);
+            const colorVariance = calculateColorVariance(regionImageData, mask);
+            const textureFeatures = calculateEnhancedTextureFeatures(regionImageData, mask);
+            const edgeFeatures = calculateEnhancedEdgeFeatures(regionImageData, mask);
+
+            const previousSpace = previousSpaces.find(s => s.id === index);
+            const stabilityScore = previousSpace?.features.stabilityScore || 0.5;
+
+            const featureVector: SpaceFeatureVector = {
+              edgeDensity: edgeFeatures.density,
+              textureComplexity: textureFeatures.complexity,
+              colorVariance,
+              brightness: calculateBrightness(regionImageData, mask)
+            };
+            const regionId = normalizedRegion.id;
+            const needsThumbnail = detectionOptions.captureBackground ||
+              detectionOptions.learnBackground || Boolean(backgroundModel[regionId]);
+            const thumbnail = needsThumbnail ? computeThumbnail(regionImageData, mask) : [];
+
+            if (detectionOptions.captureBackground) {
+              updatedBaselines.push(createBaseline(regionId, featureVector, thumbnail));
+            }
+            const baseline = detectionOptions.captureBackground ? undefined : backgroundModel[regionId];
+            const backgroundDeviation = baseline ? scoreDeviation(baseline, featureVector, thumbnail) : undefined;
+
+            const features: ParkingSpace['features'] = {
               nonZeroCount,
-              brightness: calculateBrightness(regionImageData),
+              brightness: featureVector.brightness,
               edgeDensity: edgeFeatures.density,
               textureComplexity: textureFeatures.complexity,
-              perspectiveScore: 1 - ((bounds.minY + bounds.maxY) / 2) / canvas.height,
+              perspectiveScore: calculatePerspectiveScore(scaledRegion.points),
               heatmapScore: normalizedCount,
               colorVariance,
               motionScore,
               shadowScore,
-              stabilityScore
+              stabilityScore,
+              backgroundDeviation
+            };
+
+            const {
+              score: occupancyScore,
+              threshold: occupancyThreshold,
+              isShadow,
+              isOccupied: scoredOccupied
+            } = scoreOccupancy(features, config, detectionOptions.enableWeatherResistance);
+            // A captured frame is empty by definition
+            const isOccupied = !detectionOptions.captureBackground && scoredOccupied;
+
+            // Calculate confidence with better error margin handling
+            const errorMargin = Math.abs(occupancyScore - occupancyThreshold);
+            const baseConfidence = !isShadow ? Math.max(0.5, 1 - errorMargin) : 0.3;
+            const confidence = Math.min(1,
+              baseConfidence *
+              (1 + 0.2 * motionScore) *
+              Math.max(0.7, stabilityScore)
+            );
+
+            const space: ParkingSpace = {
+              id: index,
+              region: normalizedRegion, // Always use normalized coordinates (0-1)
+              isOccupied,
+              confidence,
+              lastStateChange: Date.now(),
+              stateHistory: previousSpace?.stateHistory || [],
+              features
+            };
+
+            // Enhanced verification triggering - only if models are loaded
+            const shouldVerify = modelsLoaded && settings.useAdaptiveVerification && (
+              this.frameCount % config.MODEL_VERIFICATION_INTERVAL === 0 ||
+              (space.isOccupied && space.confidence < 0.85) ||
+              (!space.isOccupied && space.confidence > config.UNCERTAINTY_THRESHOLD * 0.8) ||
+              (motionScore > 0.25 && Math.abs(occupancyScore - occupancyThreshold) < 0.1)
+            );
+
+            const result = shouldVerify ?
+              await verifyWithModel(space, tensor!, config, detectionOptions) :
+              space;
+
+            // Learn only from spaces that are confidently empty, so parked cars
+            // do not bleed into the baseline
+            if (detectionOptions.learnBackground && !detectionOptions.captureBackground &&
+                !result.isOccupied && result.confidence >= config.BACKGROUND_LEARN_CONFIDENCE) {
+              updatedBaselines.push(baseline ?
+                updateBaseline(baseline, featureVector, thumbnail) :
+                createBaseline(regionId, featureVector, thumbnail));
             }
-          };
+            return result;
+          } catch (error) {
+            console.error(`Error processing region ${index}:`, error);
+            const normalizedRegion: Region = {
+              ...validRegions[index],
+              id: validRegions[index].id,
+              type: validRegions[index].type,
+              points: validRegions[index].points
+            };
+            return createEmptySpace(index, normalizedRegion);
+          }
+        }));
+
+        spaces = applyEnhancedTemporalSmoothing(spaces, previousSpaces, settings.useTemporalSmoothing);
+        this.previousSpaces = spaces;
+
+        // Log final detection results
+        console.log(`[Detection] Processed ${spaces.length}/${validRegions.length} regions:`);
+        spaces.forEach((space, idx) => {
+          const bounds = getRegionBounds({
+            ...space.region,
+            points: space.region.points.map(p => ({
+              x: p.x * canvas.width,
+              y: p.y * canvas.height
+            }))
+          });
+          console.log(`  Space ${idx}: ${space.isOccupied ? 'OCCUPIED' : 'EMPTY'} (${(space.confidence * 100).toFixed(0)}%), Size: ${bounds.width.toFixed(0)}x${bounds.height.toFixed(0)}px`);
+        });
 
-          // Enhanced verification triggering - only if models are loaded
-          const shouldVerify = modelsLoaded && settings.useAdaptiveVerification && (
-            frameCount % CONFIG.MODEL_VERIFICATION_INTERVAL === 0 ||
-            (space.isOccupied && space.confidence < 0.85) ||
-            (!space.isOccupied && space.confidence > CONFIG.UNCERTAINTY_THRESHOLD * 0.8) ||
-            (motionScore > 0.25 && Math.abs(occupancyScore - dynamicThreshold) < 0.1)
-          );
+        // Annotated images need toDataURL, which OffscreenCanvas does not have
+        const resultImage = settings.showDebugInfo && hasDocument ?
+          await drawResults(ctx as CanvasRenderingContext2D, img, spaces, settings.showDebugInfo) :
+          undefined;
 
-          if (shouldVerify) {
-            return await verifyWithModel(space, tensor!);
-          }
-          return space;
-        } catch (error) {
-          console.error(`Error processing region ${index}:`, error);
-          const normalizedRegion: Region = {
-            ...validRegions[index],
-            id: validRegions[index].id,
-            type: validRegions[index].type,
-            points: validRegions[index].points
-          };
-          return createEmptySpace(index, normalizedRegion);
-        }
-      }));
+        const processingTime = performance.now() - startTime;
 
-      spaces = applyEnhancedTemporalSmoothing(spaces, previousSpaces);
+        return {
+          total: spaces.length,
+          occupied: spaces.filter(s => s.isOccupied).length,
+          available: spaces.filter(s => !s.isOccupied).length,
+          spaces,
+          image: resultImage,
+          processingTime,
+          backgroundModel: updatedBaselines.length > 0 ?
+            {
+              ...backgroundModel,
+              ...Object.fromEntries(updatedBaselines.map(b => [b.regionId, b]))
+            } :
+            undefined
+        };
+      } finally {
+        tensor?.dispose();
+        enhanced?.dispose();
+        processed?.dispose();
+      }
+    } catch (error) {
+      console.error('Detection failed:', error);
+      throw error;
+    }
+  }
 
-      // Log final detection results
-      console.log(`[Detection] Processed ${spaces.length}/${validRegions.length} regions:`);
-      spaces.forEach((space, idx) => {
-        const bounds = getRegionBounds({
-          ...space.region,
-          points: space.region.points.map(p => ({
-            x: p.x * canvas.width,
-            y: p.y * canvas.height
-          }))
-        });
-        console.log(`  Space ${idx}: ${space.isOccupied ? 'OCCUPIED' : 'EMPTY'} (${(space.confidence * 100).toFixed(0)}%), Size: ${bounds.width.toFixed(0)}x${bounds.height.toFixed(0)}px`);
-      });
+  // Forget frame history, e.g. when switching source or region layout
+  reset() {
+    if (this.previousFrame) {
+      this.previousFrame.dispose();
+      this.previousFrame = null;
+    }
+    this.previousSpaces = [];
+    this.frameCount = 0;
+    this.lastFrameTime = Date.now();
+  }
 
-      const resultImage = settings.showDebugInfo ?
-        await drawResults(ctx, img, spaces) :
-        undefined;
+  updateConfig(options: Partial<DetectionOptions>) {
+    this.options = {
+      ...this.options,
+      ...options,
+      configOverrides: options.configOverrides === undefined
+        ? this.options.configOverrides
+        : { ...this.options.configOverrides, ...options.configOverrides }
+    };
+  }
 
-      const processingTime = performance.now() - startTime;
+  updateSettings(settings: Partial<DetectorSettings>) {
+    this.settings = { ...this.settings, ...settings };
+  }
 
-      return {
-        total: spaces.length,
-        occupied: spaces.filter(s => s.isOccupied).length,
-        available: spaces.filter(s => !s.isOccupied).length,
-        spaces,
-        image: resultImage,
-        processingTime
-      };
-    } finally {
-      tensor?.dispose();
-      enhanced?.dispose();
-      processed?.dispose();
-    }
-  } catch (error) {
-    console.error('Detection failed:', error);
-    throw error;
+  // Releases this detector's tensors; the shared models stay loaded
+  dispose() {
+    this.reset();
+    this.disposed = true;
   }
 }
 
-function generateGaussianKernel(size: number, sigma: number): tf.Tensor2D {
+const defaultDetector = new ParkingDetector();
+
+export function detectParkingSpaces(
+  imageSource: DetectionImageSource,
+  regions: Region[] | null | undefined = [],
+  previousSpaces: ParkingSpace[] = [],
+  options: Partial<DetectionOptions> = {}
+): Promise<DetectionResult> {
+  return defaultDetector.detect(imageSource, regions, previousSpaces, options);
+}
+
+// Structural check shared by detection and layout import
+export function isValidRegion(region: unknown): region is Region {
+  const candidate = region as Region | null | undefined;
+  return !!candidate &&
+    typeof candidate.id === 'string' &&
+    Array.isArray(candidate.points) &&
+    candidate.points.length >= 3 &&
+    candidate.points.every(p =>
+      p && typeof p.x === 'number' && typeof p.y === 'number' &&
+      !isNaN(p.x) && !isNaN(p.y) &&
+      isFinite(p.x) && isFinite(p.y)
+    );
+}
+
+export function generateGaussianKernel(size: number, sigma: number): tf.Tensor4D {
   const kernel = Array(size * size).fill(0);
   const center = Math.floor(size / 2);
   let sum = 0;
@@ -1185,7 +1716,7 @@ function generateGaussianKernel(size: number, sigma: number): tf.Tensor2D {
     kernel[i] /= sum;
   }
 
-  return tf.tensor2d(kernel, [size, size]).expandDims(2).expandDims(3);
+  return tf.tensor4d(kernel, [size, size, 1, 1]);
 }
 
 function calculateEnhancedMotionScore(currentFrame: tf.Tensor3D, previousFrame: tf.Tensor3D | null): number {
@@ -1209,11 +1740,11 @@ function calculateEnhancedMotionScore(currentFrame: tf.Tensor3D, previousFrame:
   });
 }
 
-function calculateEnhancedShadowScore(imageData: ImageData): number {
-  const edgeFeatures = calculateEnhancedEdgeFeatures(imageData);
-  const textureFeatures = calculateEnhancedTextureFeatures(imageData);
-  const colorVariance = calculateColorVariance(imageData);
-  const brightness = calculateBrightness(imageData);
+function calculateEnhancedShadowScore(imageData: ImageData, mask?: PixelMask): number {
+  const edgeFeatures = calculateEnhancedEdgeFeatures(imageData, mask);
+  const textureFeatures = calculateEnhancedTextureFeatures(imageData, mask);
+  const colorVariance = calculateColorVariance(imageData, mask);
+  const brightness = calculateBrightness(imageData, mask);
 
   // Enhanced shadow detection using multiple features
   const edgeScore = Math.max(0, 1 - (edgeFeatures.density / (CONFIG.EDGE_DENSITY_THRESHOLD * 1.5)));
@@ -1225,8 +1756,8 @@ function calculateEnhancedShadowScore(imageData: ImageData): number {
   return (edgeScore * 0.4 + textureScore * 0.3 + colorScore * 0.2 + brightnessScore * 0.1);
 }
 
-function calculateEnhancedEdgeFeatures(imageData: ImageData): { density: number, orientation: number } {
-  const edges = detectEdges(imageData);
+function calculateEnhancedEdgeFeatures(imageData: ImageData, mask?: PixelMask): { density: number, orientation: number } {
+  const edges = detectEdges(imageData, mask);
   let strength = 0;
   let orientationSum = 0;
   let count = 0;
@@ -1248,13 +1779,14 @@ function calculateEnhancedEdgeFeatures(imageData: ImageData): { density: number,
     });
   });
 
-  const density = strength / (imageData.width * imageData.height * 255);
+  const pixelCount = maskedPixelCount(imageData, mask);
+  const density = pixelCount > 0 ? strength / (pixelCount * 255) : 0;
   const orientation = count > 0 ? orientationSum / count : 0;
 
   return { density, orientation };
 }
 
-function calculateEnhancedTextureFeatures(imageData: ImageData): { complexity: number, uniformity: number } {
+function calculateEnhancedTextureFeatures(imageData: ImageData, mask?: PixelMask): { complexity: number, uniformity: number } {
   const data = imageData.data;
   const width = imageData.width;
   let complexity = 0;
@@ -1264,6 +1796,7 @@ function calculateEnhancedTextureFeatures(imageData: ImageData): { complexity: n
 
   for (let y = 1; y < imageData.height - 1; y++) {
     for (let x = 1; x < width - 1; x++) {
+      if (mask && !mask[y * width + x]) continue;
       const centerIdx = (y * width + x) * 4;
       const centerValue = (data[centerIdx] + data[centerIdx + 1] + data[centerIdx + 2]) / 3;
       hist[Math.floor(centerValue)]++;
@@ -1289,6 +1822,8 @@ function calculateEnhancedTextureFeatures(imageData: ImageData): { complexity: n
     }
   }
 
+  if (total === 0) return { complexity: 0, uniformity: 0 };
+
   // Calculate uniformity from histogram
   let sumSquares = 0;
   for (let i = 0; i < hist.length; i++) {
@@ -1302,8 +1837,8 @@ function calculateEnhancedTextureFeatures(imageData: ImageData): { complexity: n
   };
 }
 
-function applyEnhancedTemporalSmoothing(currentSpaces: ParkingSpace[], previousSpaces: ParkingSpace[]): ParkingSpace[] {
-  if (!previousSpaces || previousSpaces.length === 0 || !settings.useTemporalSmoothing) {
+function applyEnhancedTemporalSmoothing(currentSpaces: ParkingSpace[], previousSpaces: ParkingSpace[], enabled = true): ParkingSpace[] {
+  if (!previousSpaces || previousSpaces.length === 0 || !enabled) {
     return currentSpaces;
   }
 
@@ -1381,11 +1916,8 @@ function createEmptySpace(index: number, region: Region): ParkingSpace {
   };
 }
 
-export function cleanup() {
-  if (previousFrame) {
-    previousFrame.dispose();
-    previousFrame = null;
-  }
+// Disposes the shared models; every detector will reload them on next use
+export function releaseModels() {
   if (objectDetector) {
     objectDetector.dispose();
     objectDetector = null;
@@ -1400,22 +1932,17 @@ export function cleanup() {
   modelLoadAttempts = 0;
 }
 
-export function updateSettings(newSettings: Partial<typeof settings>) {
-  Object.assign(settings, newSettings);
+export function cleanup() {
+  defaultDetector.reset();
+  releaseModels();
 }
 
-// Initialize models on module load with better error handling
-loadModels().then(success => {
-  if (success) {
-    console.log('Models loaded successfully on initialization');
-  } else {
-    console.warn('Initial model loading failed, will retry on first detection');
-  }
-}).catch(error => {
-  console.error('Initial model loading failed:', error);
-});
+export function updateSettings(newSettings: Partial<DetectorSettings>) {
+  defaultDetector.updateSettings(newSettings);
+}
 
 export default {
+  ParkingDetector,
   detectParkingSpaces,
   cleanup,
   updateSettings
@@ -0,0 +1,208 @@
+import { isValidRegion, Region, SpaceAttribute } from './parkingDetection';
+import { SPACE_ATTRIBUTES, spaceLabel } from './spaceLabels';
+
+// Region layouts are exchanged in normalized image space (0-1 on both axes),
+// the same coordinates RegionSelector hands to detectParkingSpaces.
+
+export const REGION_LAYOUT_SCHEMA = 'divya-drishti/region-layout';
+export const REGION_LAYOUT_VERSION = 1;
+
+export interface RegionLayoutFile {
+  schema: typeof REGION_LAYOUT_SCHEMA;
+  version: number;
+  exportedAt: string;
+  name?: string;
+  imageSize?: { width: number; height: number };
+  regions: Region[];
+}
+
+interface GeoJSONPolygonFeature {
+  type: 'Feature';
+  id?: string | number;
+  geometry: {
+    type: 'Polygon';
+    coordinates: number[][][];
+  };
+  properties: {
+    spaceId?: number;
+    label?: string;
+    regionId?: string;
+    shapeType?: Region['type'];
+    zone?: string;
+    attributes?: SpaceAttribute[];
+    [key: string]: unknown;
+  } | null;
+}
+
+interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  coordinateSpace: 'normalized-image';
+  features: GeoJSONPolygonFeature[];
+}
+
+export interface ParsedRegionLayout {
+  format: 'json' | 'geojson';
+  regions: Region[];
+  skipped: string[]; // Human-readable reasons for entries that failed validation
+}
+
+function isNormalized(region: Region): boolean {
+  return region.points.every(p => p.x >= 0 && p.x <= 1 && p.y >= 0 && p.y <= 1);
+}
+
+const optionalText = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+// Unknown attribute names are dropped rather than failing the whole region
+const knownAttributes = (value: unknown): SpaceAttribute[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const attributes = SPACE_ATTRIBUTES.map(info => info.id).filter(id => value.includes(id));
+  return attributes.length > 0 ? attributes : undefined;
+};
+
+function validateRegions(candidates: unknown[], describe: (index: number) => string) {
+  const regions: Region[] = [];
+  const skipped: string[] = [];
+
+  candidates.forEach((candidate, index) => {
+    if (!isValidRegion(candidate)) {
+      skipped.push(`${describe(index)}: needs a string id and at least 3 finite points`);
+      return;
+    }
+    if (!isNormalized(candidate)) {
+      skipped.push(`${describe(index)}: points must be normalized to the 0-1 range`);
+      return;
+    }
+    const region: Region = {
+      id: candidate.id,
+      type: candidate.type === 'rectangle' ? 'rectangle' : 'quadrilateral',
+      points: candidate.points.map(p => ({ x: p.x, y: p.y }))
+    };
+    const label = optionalText(candidate.label);
+    const zone = optionalText(candidate.zone);
+    const attributes = knownAttributes(candidate.attributes);
+    if (label) region.label = label;
+    if (zone) region.zone = zone;
+    if (attributes) region.attributes = attributes;
+    regions.push(region);
+  });
+
+  return { regions, skipped };
+}
+
+export function exportRegionLayoutJSON(
+  regions: Region[],
+  meta: { name?: string; imageSize?: { width: number; height: number } } = {}
+): string {
+  const layout: RegionLayoutFile = {
+    schema: REGION_LAYOUT_SCHEMA,
+    version: REGION_LAYOUT_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...meta,
+    regions
+  };
+  return JSON.stringify(layout, null, 2);
+}
+
+export function exportRegionLayoutGeoJSON(regions: Region[]): string {
+  const collection: GeoJSONFeatureCollection = {
+    type: 'FeatureCollection',
+    coordinateSpace: 'normalized-image',
+    features: regions.map((region, index) => {
+      const ring = region.points.map(p => [p.x, p.y]);
+      // GeoJSON linear rings are closed: first and last positions are identical
+      ring.push([region.points[0].x, region.points[0].y]);
+      return {
+        type: 'Feature',
+        id: region.id,
+        geometry: { type: 'Polygon', coordinates: [ring] },
+        properties: {
+          spaceId: index,
+          label: spaceLabel(region, index),
+          regionId: region.id,
+          shapeType: region.type,
+          ...(region.zone ? { zone: region.zone } : {}),
+          ...(region.attributes?.length ? { attributes: region.attributes } : {})
+        }
+      };
+    })
+  };
+  return JSON.stringify(collection, null, 2);
+}
+
+function parseGeoJSON(collection: GeoJSONFeatureCollection): ParsedRegionLayout {
+  if (!Array.isArray(collection.features)) {
+    throw new Error('GeoJSON FeatureCollection has no features array');
+  }
+
+  const skipped: string[] = [];
+  const candidates: unknown[] = [];
+  const sources: number[] = [];
+
+  collection.features.forEach((feature, index) => {
+    if (!feature || feature.type !== 'Feature' || feature.geometry?.type !== 'Polygon') {
+      skipped.push(`Feature ${index + 1}: only Polygon features are supported`);
+      return;
+    }
+    const ring = feature.geometry.coordinates?.[0];
+    if (!Array.isArray(ring)) {
+      skipped.push(`Feature ${index + 1}: polygon has no outer ring`);
+      return;
+    }
+
+    const positions = ring.map(position => ({ x: position?.[0], y: position?.[1] }));
+    const first = positions[0];
+    const last = positions[positions.length - 1];
+    if (positions.length > 1 && first && last && first.x === last.x && first.y === last.y) {
+      positions.pop();
+    }
+
+    const properties = feature.properties || {};
+    candidates.push({
+      id: String(properties.regionId ?? feature.id ?? `region-${index + 1}`),
+      type: properties.shapeType,
+      points: positions,
+      // Positional labels are what the exporter writes for unlabelled spaces
+      label: properties.label === `P${index + 1}` ? undefined : properties.label,
+      zone: properties.zone,
+      attributes: properties.attributes
+    });
+    sources.push(index);
+  });
+
+  const validated = validateRegions(candidates, i => `Feature ${sources[i] + 1}`);
+  return { format: 'geojson', regions: validated.regions, skipped: [...skipped, ...validated.skipped] };
+}
+
+function parseLayoutFile(layout: RegionLayoutFile): ParsedRegionLayout {
+  if (typeof layout.version !== 'number' || layout.version > REGION_LAYOUT_VERSION) {
+    throw new Error(`Unsupported region layout version: ${layout.version}`);
+  }
+  if (!Array.isArray(layout.regions)) {
+    throw new Error('Region layout has no regions array');
+  }
+
+  const validated = validateRegions(layout.regions, i => `Region ${i + 1}`);
+  return { format: 'json', ...validated };
+}
+
+export function parseRegionLayout(text: string): ParsedRegionLayout {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (data && typeof data === 'object') {
+    const record = data as { type?: unknown; schema?: unknown };
+    if (record.type === 'FeatureCollection') {
+      return parseGeoJSON(data as GeoJSONFeatureCollection);
+    }
+    if (record.schema === REGION_LAYOUT_SCHEMA) {
+      return parseLayoutFile(data as RegionLayoutFile);
+    }
+  }
+
+  throw new Error('Unrecognized layout file: expected a region layout JSON or a GeoJSON FeatureCollection');
+}
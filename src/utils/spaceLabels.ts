@@ -0,0 +1,117 @@
+import type { Point, Region, SpaceAttribute } from './parkingDetection';
+
+// Human-facing identity of a parking space. Regions may carry a label, a zone
+// and attributes; anything unset falls back to the positional "P<n>" label so
+// older layouts and lot profiles keep working unchanged.
+
+type LabelledRegion = Pick<Region, 'label' | 'zone' | 'attributes'>;
+
+export interface SpaceAttributeInfo {
+  id: SpaceAttribute;
+  name: string;
+  short: string;                      // Badge text on overlays and in tables
+}
+
+export const SPACE_ATTRIBUTES: SpaceAttributeInfo[] = [
+  { id: 'accessible', name: 'Accessible', short: 'ACC' },
+  { id: 'ev', name: 'EV charger', short: 'EV' },
+  { id: 'reserved', name: 'Reserved', short: 'RSV' },
+  { id: 'motorcycle', name: 'Motorcycle', short: 'MC' }
+];
+
+export const UNZONED = 'Unzoned';
+
+export interface ZoneCount {
+  zone: string;
+  total: number;
+  occupied: number;
+  available: number;
+}
+
+export function spaceLabel(region: LabelledRegion | undefined, index: number): string {
+  return region?.label?.trim() || `P${index + 1}`;
+}
+
+// Label stored on a movement or history record, for records made before labels existed
+export function recordLabel(record: { spaceId: number; label?: string }): string {
+  return record.label || `P${record.spaceId + 1}`;
+}
+
+export function spaceZone(region: LabelledRegion | undefined): string | undefined {
+  return region?.zone?.trim() || undefined;
+}
+
+export function attributeBadges(region: LabelledRegion | undefined): string[] {
+  const attributes = region?.attributes ?? [];
+  return SPACE_ATTRIBUTES.filter(info => attributes.includes(info.id)).map(info => info.short);
+}
+
+export function attributeNames(attributes: SpaceAttribute[] | undefined): string[] {
+  return SPACE_ATTRIBUTES.filter(info => attributes?.includes(info.id)).map(info => info.name);
+}
+
+export function hasZones(regions: LabelledRegion[]): boolean {
+  return regions.some(region => spaceZone(region) !== undefined);
+}
+
+export function listZones(regions: LabelledRegion[]): string[] {
+  const zones = new Set<string>();
+  regions.forEach(region => {
+    const zone = spaceZone(region);
+    if (zone) zones.add(zone);
+  });
+  return Array.from(zones).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+// Free and occupied counts per zone; spaces without a zone are grouped last
+export function countByZone(spaces: { region: LabelledRegion; isOccupied: boolean }[]): ZoneCount[] {
+  const counts = new Map<string, ZoneCount>();
+  spaces.forEach(space => {
+    const zone = spaceZone(space.region) ?? UNZONED;
+    const count = counts.get(zone) || { zone, total: 0, occupied: 0, available: 0 };
+    count.total += 1;
+    if (space.isOccupied) count.occupied += 1;
+    else count.available += 1;
+    counts.set(zone, count);
+  });
+
+  return Array.from(counts.values()).sort((a, b) =>
+    a.zone === UNZONED ? 1 : b.zone === UNZONED ? -1 : a.zone.localeCompare(b.zone, undefined, { numeric: true })
+  );
+}
+
+const centre = (points: Point[]) => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length
+});
+
+// Orders regions row by row, left to right, the way spaces are usually
+// numbered on site. Regions whose centres are within half a space height of
+// each other vertically count as the same row.
+export function readingOrder<T extends Pick<Region, 'points'>>(regions: T[]): T[] {
+  if (regions.length === 0) return [];
+  const heights = regions
+    .map(region => Math.max(...region.points.map(p => p.y)) - Math.min(...region.points.map(p => p.y)))
+    .sort((a, b) => a - b);
+  const tolerance = heights[Math.floor(heights.length / 2)] / 2;
+
+  const sorted = regions
+    .map(region => ({ region, ...centre(region.points) }))
+    .sort((a, b) => a.y - b.y);
+
+  const rows: (typeof sorted)[] = [];
+  sorted.forEach(entry => {
+    const row = rows[rows.length - 1];
+    if (row && entry.y - row[0].y <= tolerance) row.push(entry);
+    else rows.push([entry]);
+  });
+
+  return rows.flatMap(row => row.sort((a, b) => a.x - b.x).map(entry => entry.region));
+}
+
+// "B-" and 1 give B-1, B-2, ... in reading order
+export function numberRegions<T extends Region>(regions: T[], prefix: string, start: number): Map<string, string> {
+  const labels = new Map<string, string>();
+  readingOrder(regions).forEach((region, i) => labels.set(region.id, `${prefix}${start + i}`));
+  return labels;
+}
@@ -0,0 +1,414 @@
+import * as tf from '@tensorflow/tfjs';
+import {
+  Point,
+  adaptiveThreshold,
+  dilate,
+  enhanceContrast,
+  generateGaussianKernel
+} from './parkingDetection';
+
+// Proposes parking spaces from a photo of the empty lot. Painted stall
+// dividers are found as bright, straight edges: Sobel edges next to paint vote
+// for the lines matching their gradient in a Hough accumulator, each peak is
+// cut into segments, and neighbouring parallel segments that overlap become
+// one quadrilateral. Suggestions are a starting point for the operator to
+// review and adjust, not a finished layout.
+
+interface LineSegment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  points: number;                     // Edge pixels supporting the segment
+}
+
+export interface SuggestedSpace {
+  id: string;
+  points: Point[];                    // Normalized (0-1), in drawing order
+  confidence: number;                 // 0-1, how well both dividers and the spacing fit
+}
+
+export interface SpaceSuggestionResult {
+  spaces: SuggestedSpace[];
+  lines: number;                      // Line markings found, paired or not
+}
+
+export type SuggestionSource = HTMLImageElement | HTMLCanvasElement | ImageData;
+
+// Larger images are downscaled first; markings stay several pixels wide
+const ANALYSIS_WIDTH = 640;
+const EDGE_THRESHOLD = 0.35;          // Sobel magnitude on the contrast-normalised image
+const MAX_EDGE_POINTS = 60000;
+
+const THETA_STEPS = 180;              // One-degree bins of the line normal
+const ORIENTATION_TOLERANCE = 10;     // Bins either side of an edge pixel's gradient it votes for
+const LINE_BAND = 3;                  // Pixels either side of a line that vote for it
+const STRIPE_BAND = 8;                // Pixels either side claimed by a segment: both edges of the stripe
+const MAX_GAP = 12;                   // Worn paint breaks shorter than this are bridged
+const MIN_DENSITY = 0.6;              // Supporting edge pixels per pixel of segment length
+
+const FAMILY_GAP = 6;                 // Degrees; perspective fans dividers out gradually
+const MIN_OVERLAP = 0.6;              // Share of the longer divider alongside its neighbour
+const MIN_SPACING = 0.15;             // Stall width relative to divider length
+const MAX_SPACING = 1.2;
+const MAX_SPACING_VS_MEDIAN = 1.7;    // Wider gaps usually hide a missing divider
+const MIN_FAMILY_SIZE = 3;
+
+interface EdgeMap {
+  orientation: Int32Array;            // Gradient direction bin per pixel, -1 where there is no edge
+  width: number;
+  height: number;
+}
+
+async function detectMarkingEdges(source: SuggestionSource): Promise<EdgeMap> {
+  await tf.ready();
+  const sourceWidth = source.width;
+  const sourceHeight = source.height;
+  if (!sourceWidth || !sourceHeight) throw new Error('Image has no pixels to analyse');
+
+  const scale = Math.min(1, ANALYSIS_WIDTH / sourceWidth);
+  const width = Math.max(1, Math.round(sourceWidth * scale));
+  const height = Math.max(1, Math.round(sourceHeight * scale));
+
+  const edgeTensor = tf.tidy(() => {
+    const pixels = tf.cast(tf.browser.fromPixels(source), 'float32').div(255) as tf.Tensor3D;
+    const resized = tf.image.resizeBilinear(pixels, [height, width]);
+    const gray = enhanceContrast(resized);
+    const smoothed = tf.depthwiseConv2d(gray, generateGaussianKernel(5, 1.2), 1, 'same');
+
+    // Painted markings are brighter than the asphalt around them
+    const paint = dilate(adaptiveThreshold(smoothed, 25, 12), 3).reshape([height, width]);
+
+    const sobelX = tf.tensor4d([-1, 0, 1, -2, 0, 2, -1, 0, 1], [3, 3, 1, 1]);
+    const sobelY = tf.tensor4d([-1, -2, -1, 0, 0, 0, 1, 2, 1], [3, 3, 1, 1]);
+    const gx = tf.conv2d(smoothed, sobelX, 1, 'same');
+    const gy = tf.conv2d(smoothed, sobelY, 1, 'same');
+    const magnitude = tf.sqrt(tf.add(tf.square(gx), tf.square(gy))).reshape([height, width]);
+    const direction = tf.atan2(gy, gx).reshape([height, width]);
+    const bins = tf.mod(tf.round(tf.mul(tf.add(direction, Math.PI), THETA_STEPS / Math.PI)), THETA_STEPS);
+
+    // Kerbs, shadows and vehicles have edges too; only keep those beside paint
+    const isEdge = tf.logicalAnd(tf.greater(magnitude, EDGE_THRESHOLD), tf.greater(paint, 0.5));
+    return tf.cast(tf.where(isEdge, bins, tf.fill([height, width], -1)), 'int32');
+  });
+
+  try {
+    return { orientation: (await edgeTensor.data()) as Int32Array, width, height };
+  } finally {
+    edgeTensor.dispose();
+  }
+}
+
+// Hough transform over edge pixels, then greedy segment extraction from the
+// strongest lines. A segment claims the edge pixels across the whole stripe
+// so its other edge does not come out as a second segment, and is centred
+// between the two.
+function findLineSegments(map: EdgeMap): LineSegment[] {
+  const { orientation, width, height } = map;
+  const minLength = Math.max(15, Math.round(0.05 * Math.min(width, height)));
+
+  let xs: number[] = [];
+  let ys: number[] = [];
+  let bins: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const bin = orientation[y * width + x];
+      if (bin < 0) continue;
+      xs.push(x);
+      ys.push(y);
+      bins.push(bin);
+    }
+  }
+  if (xs.length > MAX_EDGE_POINTS) {
+    const step = Math.ceil(xs.length / MAX_EDGE_POINTS);
+    xs = xs.filter((_, i) => i % step === 0);
+    ys = ys.filter((_, i) => i % step === 0);
+    bins = bins.filter((_, i) => i % step === 0);
+  }
+  const count = xs.length;
+  if (count === 0) return [];
+
+  const cos = Array.from({ length: THETA_STEPS }, (_, t) => Math.cos((t * Math.PI) / THETA_STEPS));
+  const sin = Array.from({ length: THETA_STEPS }, (_, t) => Math.sin((t * Math.PI) / THETA_STEPS));
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  const rhoSize = 2 * diagonal + 1;
+  const accumulator = new Uint32Array(THETA_STEPS * rhoSize);
+  // An edge pixel only votes for lines running along it, so a line crossing
+  // a stripe at a shallow angle does not collect the stripe's pixels
+  const wrap = (bin: number) => (bin + THETA_STEPS) % THETA_STEPS;
+  const matches = (bin: number, theta: number) => {
+    const diff = Math.abs(bin - theta);
+    return Math.min(diff, THETA_STEPS - diff) <= ORIENTATION_TOLERANCE;
+  };
+  for (let i = 0; i < count; i++) {
+    for (let d = -ORIENTATION_TOLERANCE; d <= ORIENTATION_TOLERANCE; d++) {
+      const t = wrap(bins[i] + d);
+      accumulator[t * rhoSize + Math.round(xs[i] * cos[t] + ys[i] * sin[t]) + diagonal] += 1;
+    }
+  }
+
+  // Local maxima; theta wraps around with rho negated
+  const minVotes = Math.round(minLength * MIN_DENSITY);
+  const peaks: { theta: number; rho: number; votes: number }[] = [];
+  for (let t = 0; t < THETA_STEPS; t++) {
+    for (let r = 0; r < rhoSize; r++) {
+      const votes = accumulator[t * rhoSize + r];
+      if (votes < minVotes) continue;
+      let isPeak = true;
+      for (let dt = -2; dt <= 2 && isPeak; dt++) {
+        let nt = t + dt;
+        let nr = r;
+        if (nt < 0 || nt >= THETA_STEPS) {
+          nt = (nt + THETA_STEPS) % THETA_STEPS;
+          nr = rhoSize - 1 - r;
+        }
+        for (let dr = -LINE_BAND; dr <= LINE_BAND; dr++) {
+          const rr = nr + dr;
+          if ((dt === 0 && dr === 0) || rr < 0 || rr >= rhoSize) continue;
+          const other = accumulator[nt * rhoSize + rr];
+          // Ties go to the earlier cell so a plateau yields one peak
+          if (other > votes || (other === votes && nt * rhoSize + rr < t * rhoSize + r)) {
+            isPeak = false;
+            break;
+          }
+        }
+      }
+      if (isPeak) peaks.push({ theta: t, rho: r - diagonal, votes });
+    }
+  }
+  peaks.sort((a, b) => b.votes - a.votes);
+
+  const used = new Uint8Array(count);
+  const segments: LineSegment[] = [];
+  peaks.forEach(({ theta, rho }) => {
+    const c = cos[theta];
+    const s = sin[theta];
+    const along: number[] = [];
+    for (let i = 0; i < count; i++) {
+      if (!used[i] && matches(bins[i], theta) && Math.abs(xs[i] * c + ys[i] * s - rho) <= LINE_BAND) {
+        along.push(-xs[i] * s + ys[i] * c);
+      }
+    }
+    if (along.length < minVotes) return;
+    along.sort((a, b) => a - b);
+
+    let start = 0;
+    for (let i = 1; i <= along.length; i++) {
+      if (i < along.length && along[i] - along[i - 1] <= MAX_GAP) continue;
+      const t0 = along[start];
+      const t1 = along[i - 1];
+      const support = i - start;
+      start = i;
+      if (t1 - t0 < minLength || support < (t1 - t0) * MIN_DENSITY) continue;
+
+      const claimed: Point[] = [];
+      for (let k = 0; k < count; k++) {
+        if (used[k] || !matches(bins[k], theta)) continue;
+        const t = -xs[k] * s + ys[k] * c;
+        if (Math.abs(xs[k] * c + ys[k] * s - rho) <= STRIPE_BAND && t >= t0 && t <= t1) {
+          used[k] = 1;
+          claimed.push({ x: xs[k], y: ys[k] });
+        }
+      }
+      segments.push({ ...fitSegment(claimed, -s, c), points: support });
+    }
+  });
+
+  return segments;
+}
+
+// Least-squares line through a stripe's edge pixels. Several Hough bins fit
+// inside a wide stripe equally well, so the peak alone can be slightly tilted.
+function fitSegment(points: Point[], dx: number, dy: number): Omit<LineSegment, 'points'> {
+  const mx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const my = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  let sxx = 0;
+  let syy = 0;
+  let sxy = 0;
+  points.forEach(p => {
+    sxx += (p.x - mx) ** 2;
+    syy += (p.y - my) ** 2;
+    sxy += (p.x - mx) * (p.y - my);
+  });
+  // Principal axis, kept pointing the same way as the Hough line
+  const angle = Math.atan2(2 * sxy, sxx - syy) / 2;
+  let ux = Math.cos(angle);
+  let uy = Math.sin(angle);
+  if (ux * dx + uy * dy < 0) {
+    ux = -ux;
+    uy = -uy;
+  }
+
+  const along = points.map(p => (p.x - mx) * ux + (p.y - my) * uy);
+  const t0 = Math.min(...along);
+  const t1 = Math.max(...along);
+  return { x1: mx + t0 * ux, y1: my + t0 * uy, x2: mx + t1 * ux, y2: my + t1 * uy };
+}
+
+interface PlacedSegment {
+  segment: LineSegment;
+  start: Point;                       // Endpoints ordered along the family direction
+  end: Point;
+  from: number;                       // Extent along the family direction
+  to: number;
+  offset: number;                     // Position across it
+  length: number;
+}
+
+const segmentAngle = (segment: LineSegment) => {
+  const degrees = (Math.atan2(segment.y2 - segment.y1, segment.x2 - segment.x1) * 180) / Math.PI;
+  return (degrees + 180) % 180;
+};
+
+// Chains segments whose angles are within FAMILY_GAP of the next one, starting
+// after the widest gap so a family straddling 0°/180° stays together
+function groupByAngle(segments: LineSegment[]): { angles: number[]; members: LineSegment[] }[] {
+  const sorted = segments
+    .map(segment => ({ segment, angle: segmentAngle(segment) }))
+    .sort((a, b) => a.angle - b.angle);
+  if (sorted.length === 0) return [];
+
+  let start = 0;
+  let widest = -1;
+  sorted.forEach((entry, i) => {
+    const previous = sorted[(i + sorted.length - 1) % sorted.length];
+    const gap = (entry.angle - previous.angle + 180) % 180 || (sorted.length === 1 ? 180 : 0);
+    if (gap > widest) {
+      widest = gap;
+      start = i;
+    }
+  });
+
+  const families: { angles: number[]; members: LineSegment[] }[] = [];
+  for (let k = 0; k < sorted.length; k++) {
+    const entry = sorted[(start + k) % sorted.length];
+    const previous = sorted[(start + k + sorted.length - 1) % sorted.length];
+    const family = families[families.length - 1];
+    if (family && (entry.angle - previous.angle + 180) % 180 <= FAMILY_GAP) {
+      family.angles.push(entry.angle);
+      family.members.push(entry.segment);
+    } else {
+      families.push({ angles: [entry.angle], members: [entry.segment] });
+    }
+  }
+  return families;
+}
+
+// Mean of undirected angles, averaged on the doubled angle so 179° and 1° agree
+const meanAngle = (angles: number[]) => {
+  const x = angles.reduce((sum, a) => sum + Math.cos((a * Math.PI) / 90), 0);
+  const y = angles.reduce((sum, a) => sum + Math.sin((a * Math.PI) / 90), 0);
+  return (((Math.atan2(y, x) * 90) / Math.PI) + 180) % 180;
+};
+
+const isInside = (point: Point, polygon: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// The quad pulled towards its centre, so lines ending on its edges do not count as inside
+const shrink = (polygon: Point[], factor: number) => {
+  const cx = polygon.reduce((sum, p) => sum + p.x, 0) / polygon.length;
+  const cy = polygon.reduce((sum, p) => sum + p.y, 0) / polygon.length;
+  return polygon.map(p => ({ x: cx + (p.x - cx) * factor, y: cy + (p.y - cy) * factor }));
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Groups segments into families of parallel lines and pairs each divider with
+// its nearest overlapping neighbour. Only families with several members are
+// used, and a pair is dropped when other markings run through the middle of
+// it: a stall is bare asphalt between its dividers, whereas the long lines at
+// the ends of neighbouring rows enclose a whole row of dividers.
+function pairDividers(segments: LineSegment[], width: number, height: number): SuggestedSpace[] {
+  const families = groupByAngle(segments);
+
+  const midpoints = segments.map(segment => ({
+    segment,
+    point: { x: (segment.x1 + segment.x2) / 2, y: (segment.y1 + segment.y2) / 2 }
+  }));
+
+  const spaces: SuggestedSpace[] = [];
+  families
+    .filter(family => family.members.length >= MIN_FAMILY_SIZE)
+    .forEach(family => {
+      const radians = (meanAngle(family.angles) * Math.PI) / 180;
+      const dx = Math.cos(radians);
+      const dy = Math.sin(radians);
+      const along = (p: Point) => p.x * dx + p.y * dy;
+      const across = (p: Point) => -p.x * dy + p.y * dx;
+
+      const placed: PlacedSegment[] = family.members
+        .map(segment => {
+          const a = { x: segment.x1, y: segment.y1 };
+          const b = { x: segment.x2, y: segment.y2 };
+          const [start, end] = along(a) <= along(b) ? [a, b] : [b, a];
+          return {
+            segment,
+            start,
+            end,
+            from: along(start),
+            to: along(end),
+            offset: across({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }),
+            length: Math.hypot(b.x - a.x, b.y - a.y)
+          };
+        })
+        .sort((a, b) => a.offset - b.offset);
+
+      const pairs: { left: PlacedSegment; right: PlacedSegment; spacing: number; overlap: number }[] = [];
+      placed.forEach((left, i) => {
+        for (let j = i + 1; j < placed.length; j++) {
+          const right = placed[j];
+          const overlap = (Math.min(left.to, right.to) - Math.max(left.from, right.from)) /
+            Math.max(left.length, right.length);
+          if (overlap < MIN_OVERLAP) continue;
+          const spacing = right.offset - left.offset;
+          const meanLength = (left.length + right.length) / 2;
+          if (spacing >= MIN_SPACING * meanLength && spacing <= MAX_SPACING * meanLength) {
+            pairs.push({ left, right, spacing, overlap: Math.min(1, overlap) });
+          }
+          // The nearest overlapping neighbour is the other side of the stall
+          break;
+        }
+      });
+      if (pairs.length === 0) return;
+
+      const typical = median(pairs.map(pair => pair.spacing));
+      pairs
+        .filter(pair => pair.spacing <= MAX_SPACING_VS_MEDIAN * typical)
+        .forEach(({ left, right, spacing, overlap }) => {
+          const corners = [left.start, left.end, right.end, right.start];
+          const interior = shrink(corners, 0.8);
+          if (midpoints.some(({ segment, point }) =>
+            segment !== left.segment && segment !== right.segment && isInside(point, interior))) return;
+
+          const regularity = Math.max(0, 1 - Math.abs(spacing / typical - 1));
+          spaces.push({
+            id: `suggested-${spaces.length}`,
+            points: corners.map(p => ({
+              x: Math.min(1, Math.max(0, p.x / width)),
+              y: Math.min(1, Math.max(0, p.y / height))
+            })),
+            confidence: Math.round(overlap * regularity * 100) / 100
+          });
+        });
+    });
+
+  return spaces;
+}
+
+export async function suggestSpaces(source: SuggestionSource): Promise<SpaceSuggestionResult> {
+  const map = await detectMarkingEdges(source);
+  const segments = findLineSegments(map);
+  return { spaces: pairDividers(segments, map.width, map.height), lines: segments.length };
+}
@@ -0,0 +1,115 @@
+import { DetectionOptions, ParkingDetector, ParkingSpace, Region } from './parkingDetection';
+import {
+  DetectionSession,
+  SpaceOccupancyHistory,
+  applyMovements,
+  createSession,
+  detectMovements,
+  recordMovements,
+  recordSample
+} from './occupancyStore';
+import { ImageTimestamp, resolveImageTimestamp } from './imageTimestamps';
+import type { AnalysisFrame } from './videoAnalysis';
+import { readAsDataUrl } from './fileReading';
+
+// Periodic stills from sites without video. Frames are ordered by capture
+// time and run through one detector with the previous result carried forward,
+// building the same session (samples, movements, per-space history) that live
+// detection records, timed by capture time instead of the wall clock.
+
+export interface TimeLapseFrame extends ImageTimestamp {
+  id: string;
+  file: File;
+}
+
+export interface TimeLapseOptions {
+  regions: Region[];
+  lotId: string | null;
+  lotName: string;
+  detectionOptions?: Partial<DetectionOptions>;
+  signal?: AbortSignal;
+  onProgress?: (index: number, total: number) => void;
+}
+
+export interface TimeLapseResult {
+  session: DetectionSession;
+  frames: AnalysisFrame[];            // Seconds since the first frame, for the occupancy timeline
+}
+
+export async function loadTimeLapseFrames(files: File[]): Promise<TimeLapseFrame[]> {
+  const images = files.filter(file => file.type.startsWith('image/'));
+  const frames = await Promise.all(images.map(async (file, i) => ({
+    id: `frame-${Date.now()}-${i}`,
+    file,
+    ...(await resolveImageTimestamp(file))
+  })));
+
+  return frames.sort((a, b) =>
+    a.timestamp - b.timestamp || a.file.name.localeCompare(b.file.name, undefined, { numeric: true }));
+}
+
+export async function analyseTimeLapse(frames: TimeLapseFrame[], options: TimeLapseOptions): Promise<TimeLapseResult> {
+  if (frames.length === 0) {
+    throw new Error('No frames to analyse');
+  }
+
+  // Minutes between stills make frame differencing meaningless
+  const detector = new ParkingDetector(options.detectionOptions, {
+    showDebugInfo: false,
+    useMotionDetection: false,
+    skipFastFrames: false
+  });
+
+  const session = createSession({
+    lotId: options.lotId,
+    lotName: options.lotName,
+    source: 'time-lapse',
+    totalSpaces: options.regions.length
+  });
+  session.startedAt = frames[0].timestamp;
+  session.endedAt = frames[0].timestamp;
+
+  const timeline: AnalysisFrame[] = [];
+  let history = new Map<number, SpaceOccupancyHistory>();
+  let previousSpaces: ParkingSpace[] = [];
+
+  try {
+    for (let i = 0; i < frames.length; i++) {
+      if (options.signal?.aborted) {
+        throw new Error('Analysis cancelled');
+      }
+
+      const frame = frames[i];
+      const image = await readAsDataUrl(frame.file);
+      const result = await detector.detect(image, options.regions, previousSpaces);
+
+      const movements = detectMovements(result.spaces, previousSpaces, history, frame.timestamp);
+      history = applyMovements(history, movements);
+      recordMovements(session, movements);
+      recordSample(session, {
+        timestamp: frame.timestamp,
+        occupied: result.occupied,
+        available: result.available
+      });
+      previousSpaces = result.spaces;
+
+      timeline.push({
+        time: (frame.timestamp - frames[0].timestamp) / 1000,
+        occupied: result.occupied,
+        available: result.available,
+        processingTime: result.processingTime ?? 0,
+        spaces: result.spaces.map(space => ({
+          regionId: space.region.id,
+          isOccupied: space.isOccupied,
+          confidence: space.confidence
+        }))
+      });
+      options.onProgress?.(i + 1, frames.length);
+    }
+  } finally {
+    detector.dispose();
+  }
+
+  session.spaceHistory = Array.from(history.values());
+  return { session, frames: timeline };
+}
@@ -0,0 +1,215 @@
+import {
+  DetectionOptions,
+  DetectorSettings,
+  ParkingDetector,
+  Region
+} from './parkingDetection';
+
+// Offline analysis seeks a video file through fixed media-time steps and runs
+// detection on each decoded frame, independent of playback speed or CPU load.
+// The same file, layout and options always produce the same timeline.
+
+export const ANALYSIS_STEP_OPTIONS = [0.5, 1, 2, 5, 10]; // Seconds of media time
+
+const VIDEO_LOAD_TIMEOUT = 20000;
+const SEEK_TIMEOUT = 10000;
+
+export interface AnalysisSpaceState {
+  regionId: string;
+  isOccupied: boolean;
+  confidence: number;
+}
+
+export interface AnalysisFrame {
+  time: number;                       // Media time in seconds
+  occupied: number;
+  available: number;
+  processingTime: number;             // Milliseconds
+  spaces: AnalysisSpaceState[];
+}
+
+export interface AnalysisTimeline {
+  videoName: string;
+  duration: number;
+  step: number;
+  analysedAt: string;
+  frames: AnalysisFrame[];
+}
+
+export interface VideoAnalysisOptions {
+  step: number;
+  regions: Region[];
+  detectionOptions?: Partial<DetectionOptions>;
+  settings?: Partial<DetectorSettings>;
+  signal?: AbortSignal;
+  onProgress?: (frame: AnalysisFrame, index: number, total: number) => void;
+}
+
+// Timestamps are rounded to the millisecond so repeated runs never drift
+export function analysisTimes(duration: number, step: number): number[] {
+  if (!(duration > 0) || !(step > 0)) return [];
+  const count = Math.floor(duration / step) + 1;
+  return Array.from({ length: count }, (_, i) => Math.round(i * step * 1000) / 1000)
+    .filter(time => time < duration);
+}
+
+function loadAnalysisVideo(url: string): Promise<HTMLVideoElement> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.crossOrigin = 'anonymous';
+
+    const timeout = setTimeout(() => {
+      cleanupListeners();
+      reject(new Error('Timed out loading video for analysis'));
+    }, VIDEO_LOAD_TIMEOUT);
+
+    const handleLoaded = () => {
+      cleanupListeners();
+      resolve(video);
+    };
+    const handleError = () => {
+      cleanupListeners();
+      reject(new Error('Failed to load video for analysis'));
+    };
+    const cleanupListeners = () => {
+      clearTimeout(timeout);
+      video.removeEventListener('loadeddata', handleLoaded);
+      video.removeEventListener('error', handleError);
+    };
+
+    video.addEventListener('loadeddata', handleLoaded);
+    video.addEventListener('error', handleError);
+    video.src = url;
+  });
+}
+
+function seekTo(video: HTMLVideoElement, time: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      video.removeEventListener('seeked', handleSeeked);
+      reject(new Error(`Timed out seeking to ${time.toFixed(2)}s`));
+    }, SEEK_TIMEOUT);
+
+    const handleSeeked = () => {
+      clearTimeout(timeout);
+      video.removeEventListener('seeked', handleSeeked);
+      resolve();
+    };
+
+    video.addEventListener('seeked', handleSeeked);
+    video.currentTime = time;
+  });
+}
+
+export async function analyseVideo(
+  url: string,
+  videoName: string,
+  options: VideoAnalysisOptions
+): Promise<AnalysisTimeline> {
+  const video = await loadAnalysisVideo(url);
+  // A dedicated detector so the live pipeline's history cannot leak in
+  const detector = new ParkingDetector(options.detectionOptions, {
+    ...options.settings,
+    showDebugInfo: false,
+    skipFastFrames: false
+  });
+
+  try {
+    const times = analysisTimes(video.duration, options.step);
+    const frames: AnalysisFrame[] = [];
+
+    for (let i = 0; i < times.length; i++) {
+      if (options.signal?.aborted) {
+        throw new Error('Analysis cancelled');
+      }
+
+      await seekTo(video, times[i]);
+      const result = await detector.detect(video, options.regions);
+
+      const frame: AnalysisFrame = {
+        time: times[i],
+        occupied: result.occupied,
+        available: result.available,
+        processingTime: result.processingTime ?? 0,
+        spaces: result.spaces.map(space => ({
+          regionId: space.region.id,
+          isOccupied: space.isOccupied,
+          confidence: space.confidence
+        }))
+      };
+      frames.push(frame);
+      options.onProgress?.(frame, i, times.length);
+    }
+
+    return {
+      videoName,
+      duration: video.duration,
+      step: options.step,
+      analysedAt: new Date().toISOString(),
+      frames
+    };
+  } finally {
+    detector.dispose();
+    video.removeAttribute('src');
+    video.load();
+  }
+}
+
+export interface OccupancyInterval {
+  start: number;
+  end: number;
+  occupied: boolean;
+}
+
+// Typical spacing between frames; live playback has no fixed step
+function estimateStep(frames: AnalysisFrame[]): number {
+  const gaps = frames.slice(1).map((frame, i) => frame.time - frames[i].time).filter(gap => gap > 0);
+  if (gaps.length === 0) return 1;
+  gaps.sort((a, b) => a - b);
+  return gaps[Math.floor(gaps.length / 2)];
+}
+
+// Per-space occupied/empty intervals from a frame timeline. Each frame's state
+// holds until the next frame, except across gaps much longer than the step
+// (a seek during live playback), which are left uncovered.
+export function buildSpaceIntervals(
+  frames: AnalysisFrame[],
+  duration: number,
+  step?: number
+): Record<string, OccupancyInterval[]> {
+  const ordered = [...frames].sort((a, b) => a.time - b.time);
+  const frameStep = step ?? estimateStep(ordered);
+  const intervals: Record<string, OccupancyInterval[]> = {};
+
+  ordered.forEach((frame, i) => {
+    const next = ordered[i + 1];
+    const end = next && next.time - frame.time <= frameStep * 2
+      ? next.time
+      : Math.min(duration, frame.time + frameStep);
+
+    frame.spaces.forEach(space => {
+      const list = intervals[space.regionId] || (intervals[space.regionId] = []);
+      const last = list[list.length - 1];
+      if (last && last.occupied === space.isOccupied && Math.abs(last.end - frame.time) < 1e-6) {
+        last.end = end;
+      } else {
+        list.push({ start: frame.time, end, occupied: space.isOccupied });
+      }
+    });
+  });
+
+  return intervals;
+}
+
+// The latest frame at or before `time`
+export function frameAt(frames: AnalysisFrame[], time: number): AnalysisFrame | null {
+  return frames.reduce<AnalysisFrame | null>((best, frame) =>
+    frame.time <= time && (!best || frame.time > best.time) ? frame : best, null);
+}
+
+export function exportTimelineJSON(timeline: AnalysisTimeline): string {
+  return JSON.stringify(timeline, null, 2);
+}
@@ -0,0 +1,324 @@
+import { deleteOne, getAll, putOne } from './db';
+import type { OccupancyEvent } from './occupancyEvents';
+
+// Outbound HTTP push. Every event is written to an IndexedDB queue first and
+// delivered in order from there, so events survive network outages and page
+// reloads. A failed delivery is retried with exponential backoff; later events
+// wait behind it to keep the receiver's view consistent. When the endpoint
+// itself is wrong (not found, unauthorized) the queue is held, not dropped,
+// until the settings are applied again.
+
+export interface WebhookConfig {
+  enabled: boolean;
+  url: string;
+  token: string;                      // Sent as a bearer token when set
+  sendSpaceEvents: boolean;
+  sendSummaries: boolean;
+  summaryIntervalSeconds: number;
+}
+
+export interface WebhookStatus {
+  queued: number;
+  delivering: boolean;
+  lastDeliveredAt: number | null;
+  lastError: string | null;
+  nextRetryAt: number | null;
+  paused: boolean;                    // Held after an endpoint error until drain() is called
+}
+
+export interface WebhookTestResult {
+  ok: boolean;
+  status?: number;
+  error?: string;
+  elapsedMs: number;
+}
+
+export interface WebhookClient {
+  send: (event: OccupancyEvent) => void;
+  // Delivers the queue, resuming it if an endpoint error paused it
+  drain: () => void;
+  clearQueue: () => Promise<void>;
+  dispose: () => void;
+}
+
+interface QueuedEvent {
+  id: string;
+  createdAt: number;
+  attempts: number;
+  event: OccupancyEvent;
+}
+
+export const DEFAULT_WEBHOOK_CONFIG: WebhookConfig = {
+  enabled: false,
+  url: 'http://localhost:8787/events',
+  token: '',
+  sendSpaceEvents: true,
+  sendSummaries: true,
+  summaryIntervalSeconds: 30
+};
+
+const STORE = 'webhookQueue';
+const STORAGE_KEY = 'parksense-webhook';
+const REQUEST_TIMEOUT = 10000;
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+const MAX_QUEUE_SIZE = 5000;
+
+export function loadWebhookConfig(): WebhookConfig {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_WEBHOOK_CONFIG, ...JSON.parse(saved) } : DEFAULT_WEBHOOK_CONFIG;
+  } catch {
+    return DEFAULT_WEBHOOK_CONFIG;
+  }
+}
+
+export function saveWebhookConfig(config: WebhookConfig) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.warn('Failed to save webhook settings to localStorage:', error);
+  }
+}
+
+export function isValidWebhookUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// transient: retry with backoff. endpoint: the URL or credentials are wrong,
+// so every event would fail the same way. rejected: the receiver refused this event.
+type DeliveryFailure = 'transient' | 'endpoint' | 'rejected';
+
+type DeliveryResult =
+  | { ok: true; status: number }
+  | { ok: false; error: string; failure: DeliveryFailure };
+
+const ENDPOINT_ERRORS = [401, 403, 404, 405, 410];
+
+const failureFor = (status: number): DeliveryFailure =>
+  status >= 500 || status === 408 || status === 429 ? 'transient'
+    : ENDPOINT_ERRORS.includes(status) ? 'endpoint'
+    : 'rejected';
+
+async function postEvent(config: WebhookConfig, event: OccupancyEvent): Promise<DeliveryResult> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+  try {
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.token ? { Authorization: `Bearer ${config.token}` } : {})
+      },
+      body: JSON.stringify(event),
+      signal: controller.signal
+    });
+
+    if (response.ok) return { ok: true, status: response.status };
+    return {
+      ok: false,
+      error: `HTTP ${response.status} ${response.statusText}`.trim(),
+      failure: failureFor(response.status)
+    };
+  } catch {
+    return {
+      ok: false,
+      error: controller.signal.aborted ? 'Request timed out' : 'Network error or blocked by CORS',
+      failure: 'transient'
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export async function sendTestEvent(config: WebhookConfig, event: OccupancyEvent): Promise<WebhookTestResult> {
+  const startedAt = performance.now();
+  const result = await postEvent(config, event);
+  const elapsedMs = performance.now() - startedAt;
+  return result.ok
+    ? { ok: true, status: result.status, elapsedMs }
+    : { ok: false, error: result.error, elapsedMs };
+}
+
+export function retryDelay(attempts: number): number {
+  return Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** Math.max(0, attempts - 1));
+}
+
+export function createWebhookClient(
+  getConfig: () => WebhookConfig,
+  onStatus: (status: WebhookStatus) => void
+): WebhookClient {
+  // Used only when IndexedDB is unavailable
+  let memoryQueue: QueuedEvent[] | null = null;
+  let draining = false;
+  let drainAgain = false;             // Events arrived while a drain was running
+  let disposed = false;
+  let paused = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  const status: WebhookStatus = {
+    queued: 0,
+    delivering: false,
+    lastDeliveredAt: null,
+    lastError: null,
+    nextRetryAt: null,
+    paused: false
+  };
+
+  const emit = () => {
+    if (!disposed) onStatus({ ...status });
+  };
+
+  const readQueue = async (): Promise<QueuedEvent[]> => {
+    if (memoryQueue) return memoryQueue;
+    try {
+      const queued = await getAll<QueuedEvent>(STORE);
+      return queued.sort((a, b) => a.createdAt - b.createdAt);
+    } catch (err) {
+      console.warn('Webhook queue falling back to memory:', err);
+      memoryQueue = memoryQueue || [];
+      return memoryQueue;
+    }
+  };
+
+  const writeEntry = async (entry: QueuedEvent) => {
+    if (memoryQueue) {
+      const index = memoryQueue.findIndex(e => e.id === entry.id);
+      if (index >= 0) memoryQueue[index] = entry;
+      else memoryQueue.push(entry);
+      return;
+    }
+    try {
+      await putOne(STORE, entry);
+    } catch (err) {
+      if (!memoryQueue) {
+        console.warn('Webhook queue falling back to memory:', err);
+        memoryQueue = [];
+      }
+      memoryQueue.push(entry);
+    }
+  };
+
+  const removeEntry = async (id: string) => {
+    if (memoryQueue) {
+      memoryQueue = memoryQueue.filter(e => e.id !== id);
+      return;
+    }
+    await deleteOne(STORE, id).catch(err => console.warn('Failed to remove delivered webhook event:', err));
+  };
+
+  const scheduleRetry = (delay: number) => {
+    if (retryTimer) clearTimeout(retryTimer);
+    status.nextRetryAt = Date.now() + delay;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      status.nextRetryAt = null;
+      drain();
+    }, delay);
+  };
+
+  const drain = async () => {
+    if (disposed || paused) return;
+    if (draining) {
+      drainAgain = true;
+      return;
+    }
+    const config = getConfig();
+    if (!config.enabled || !isValidWebhookUrl(config.url)) return;
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+      status.nextRetryAt = null;
+    }
+
+    draining = true;
+    status.delivering = true;
+    emit();
+
+    try {
+      let queue = await readQueue();
+      if (queue.length > MAX_QUEUE_SIZE) {
+        const dropped = queue.slice(0, queue.length - MAX_QUEUE_SIZE);
+        await Promise.all(dropped.map(entry => removeEntry(entry.id)));
+        queue = queue.slice(dropped.length);
+        console.warn(`Webhook queue full, dropped ${dropped.length} oldest events`);
+      }
+      status.queued = queue.length;
+
+      for (const entry of queue) {
+        if (disposed || !getConfig().enabled) break;
+        const result = await postEvent(getConfig(), entry.event);
+        if (result.ok) {
+          await removeEntry(entry.id);
+          status.lastDeliveredAt = Date.now();
+          status.lastError = null;
+        } else if (result.failure === 'endpoint') {
+          status.lastError = result.error;
+          paused = true;
+          status.paused = true;
+          break;
+        } else if (result.failure === 'rejected') {
+          console.warn(`Dropping webhook event ${entry.event.id}: ${result.error}`);
+          status.lastError = result.error;
+          await removeEntry(entry.id);
+        } else {
+          status.lastError = result.error;
+          const attempts = entry.attempts + 1;
+          await writeEntry({ ...entry, attempts });
+          scheduleRetry(retryDelay(attempts));
+          break;
+        }
+        status.queued = Math.max(0, status.queued - 1);
+        emit();
+      }
+    } finally {
+      draining = false;
+      status.delivering = false;
+      emit();
+    }
+
+    if (drainAgain && !retryTimer) {
+      drainAgain = false;
+      drain();
+    }
+  };
+
+  const handleOnline = () => drain();
+  window.addEventListener('online', handleOnline);
+
+  return {
+    send: (event) => {
+      const config = getConfig();
+      if (!config.enabled || disposed) return;
+      status.queued += 1;
+      emit();
+      writeEntry({ id: event.id, createdAt: Date.now(), attempts: 0, event })
+        .then(() => {
+          // Waiting out a backoff or paused: the new event queues behind the failed one
+          if (!retryTimer) drain();
+        });
+    },
+    drain: () => {
+      paused = false;
+      status.paused = false;
+      drain();
+    },
+    clearQueue: async () => {
+      const queue = await readQueue();
+      await Promise.all(queue.map(entry => removeEntry(entry.id)));
+      status.queued = 0;
+      status.lastError = null;
+      emit();
+    },
+    dispose: () => {
+      disposed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      window.removeEventListener('online', handleOnline);
+    }
+  };
+}
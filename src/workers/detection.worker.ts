@@ -0,0 +1,85 @@
+import { DetectorSettings, ParkingDetector, releaseModels } from '../utils/parkingDetection';
+import type { DetectionWorkerRequest, DetectionWorkerResponse } from './detectionProtocol';
+
+// The app is type-checked against the DOM lib, so describe the worker scope we use
+interface DetectionWorkerScope {
+  onmessage: ((event: MessageEvent<DetectionWorkerRequest>) => void) | null;
+  postMessage: (message: DetectionWorkerResponse) => void;
+}
+
+const scope = self as unknown as DetectionWorkerScope;
+const detectors = new Map<string, ParkingDetector>();
+
+const detectorFor = (channel: string, settings?: Partial<DetectorSettings>) => {
+  let detector = detectors.get(channel);
+  if (!detector) {
+    detector = new ParkingDetector({}, settings);
+    detectors.set(channel, detector);
+  }
+  return detector;
+};
+
+function checkSupport(): string | null {
+  if (typeof OffscreenCanvas === 'undefined') {
+    return 'OffscreenCanvas is not available in workers';
+  }
+  try {
+    const probe = new OffscreenCanvas(1, 1);
+    if (!probe.getContext('webgl2') && !new OffscreenCanvas(1, 1).getContext('webgl')) {
+      return 'WebGL is not available in workers';
+    }
+  } catch (error) {
+    return `WebGL probe failed: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  return null;
+}
+
+scope.onmessage = async (event) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init': {
+      const reason = checkSupport();
+      scope.postMessage(reason
+        ? { type: 'ready', requestId: message.requestId, supported: false, reason }
+        : { type: 'ready', requestId: message.requestId, supported: true });
+      break;
+    }
+
+    case 'detect': {
+      try {
+        const result = await detectorFor(message.channel, message.settings).detect(
+          message.frame,
+          message.regions,
+          message.previousSpaces,
+          message.options
+        );
+        scope.postMessage({ type: 'result', requestId: message.requestId, result });
+      } catch (error) {
+        scope.postMessage({
+          type: 'error',
+          requestId: message.requestId,
+          message: error instanceof Error ? error.message : 'Detection failed in worker'
+        });
+      } finally {
+        message.frame.close();
+      }
+      break;
+    }
+
+    case 'release': {
+      detectors.get(message.channel)?.dispose();
+      detectors.delete(message.channel);
+      scope.postMessage({ type: 'released', requestId: message.requestId });
+      break;
+    }
+
+    case 'dispose': {
+      detectors.forEach(detector => detector.dispose());
+      detectors.clear();
+      releaseModels();
+      scope.postMessage({ type: 'disposed', requestId: message.requestId });
+      break;
+    }
+  }
+};
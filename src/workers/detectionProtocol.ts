@@ -0,0 +1,30 @@
+import type { DetectionOptions, DetectionResult, DetectorSettings, ParkingSpace, Region } from '../utils/parkingDetection';
+
+// Messages exchanged between detectionClient (main thread) and detection.worker.
+// Every request carries a requestId that the matching response echoes back.
+// Detections on different channels (one per camera feed) share the worker's
+// models but keep separate temporal state; settings configure a channel's
+// detector when its first detection creates it.
+
+export type DetectionWorkerRequest =
+  | { type: 'init'; requestId: number }
+  | {
+      type: 'detect';
+      requestId: number;
+      channel: string;
+      frame: ImageBitmap;
+      regions: Region[];
+      previousSpaces: ParkingSpace[];
+      options: Partial<DetectionOptions>;
+      settings?: Partial<DetectorSettings>;
+    }
+  | { type: 'release'; requestId: number; channel: string }
+  | { type: 'dispose'; requestId: number };
+
+export type DetectionWorkerResponse =
+  | { type: 'ready'; requestId: number; supported: true }
+  | { type: 'ready'; requestId: number; supported: false; reason: string }
+  | { type: 'result'; requestId: number; result: DetectionResult }
+  | { type: 'error'; requestId: number; message: string }
+  | { type: 'released'; requestId: number }
+  | { type: 'disposed'; requestId: number };